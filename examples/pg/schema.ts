@@ -13,18 +13,6 @@ import {
   varchar,
   vector,
 } from "drizzle-orm/pg-core";
-import { registerGraphQLTypeMapping } from "../../util/type-converter/index.ts";
-import {
-  GraphQLFloat,
-  GraphQLInputObjectType,
-  GraphQLList,
-  GraphQLNonNull,
-  GraphQLObjectType,
-} from "graphql";
-import {
-  registerRemapFromGraphQL,
-  registerRemapToGraphQL,
-} from "../../util/data-mappers.ts";
 
 export const roleEnum = pgEnum("role", ["admin", "user"]);
 
@@ -93,55 +81,3 @@ export const postsRelations = relations(Posts, ({ one }) => ({
     references: [Customers.userId],
   }),
 }));
-
-// Define the output type for geo columns.
-const geoXyType = new GraphQLObjectType({
-  name: "PgGeometryObject",
-  fields: {
-    x: { type: GraphQLFloat },
-    y: { type: GraphQLFloat },
-  },
-});
-
-// Define the input type for geo columns.
-const geoXyInputType = new GraphQLInputObjectType({
-  name: "PgGeometryObjectInput",
-  fields: {
-    x: { type: GraphQLFloat },
-    y: { type: GraphQLFloat },
-  },
-});
-
-// Register the GraphQL mappings.
-registerGraphQLTypeMapping("PgGeometryObject", (_column, isInput) => ({
-  type: isInput ? geoXyInputType : geoXyType,
-  description: "Geometry points XY",
-}));
-registerRemapToGraphQL(
-  "PgGeometryObject",
-  (value, _column, _key, _tableName, _relationMap) => value,
-);
-registerRemapFromGraphQL(
-  "PgGeometryObject",
-  (value, _column, _columnName) => ({ ...value }),
-);
-
-registerGraphQLTypeMapping("PgGeometry", (_column, _isInput) => ({
-  type: new GraphQLList(new GraphQLNonNull(GraphQLFloat)),
-  description: "Geometry points XY",
-}));
-registerRemapToGraphQL(
-  "PgGeometry",
-  (value, _column, _key, _tableName, _relationMap) => value,
-);
-registerRemapFromGraphQL("PgGeometry", (value, _column, _columnName) => value);
-
-registerGraphQLTypeMapping("PgVector", (_column, _isInput) => ({
-  type: new GraphQLList(new GraphQLNonNull(GraphQLFloat)),
-  description: "Vector of Floats",
-}));
-registerRemapToGraphQL(
-  "PgVector",
-  (value, _column, _key, _tableName, _relationMap) => value,
-);
-registerRemapFromGraphQL("PgVector", (value, _column, _columnName) => value);
@@ -22,8 +22,20 @@ import type {
   GeneratedData,
 } from "./types.ts";
 
-// Re-export custom type mapping and data remapping functions
-export { registerGraphQLTypeMapping } from "./util/type-converter/index.ts";
+// Re-export custom type mapping and data remapping functions, and the custom scalars
+export {
+  GraphQLBase64Bytes,
+  GraphQLBigInt,
+  GraphQLDate,
+  GraphQLDateTime,
+  GraphQLDecimal,
+  GraphQLGeoJSONPoint,
+  GraphQLHexBytes,
+  GraphQLJSON,
+  GraphQLTime,
+  GraphQLUUID,
+  registerGraphQLTypeMapping,
+} from "./util/type-converter/index.ts";
 export {
   registerRemapFromGraphQL,
   registerRemapToGraphQL,
@@ -38,18 +50,42 @@ export {
  *
  * The generated schema includes:
  *  - A Query type built from the generated query fields.
- *  - Optionally, a Mutation type built from the generated mutation fields if the `mutations` config option is not explicitly disabled.
+ *  - Optionally, a Mutation type built from the generated mutation fields if the `mutations` config option is not explicitly disabled
+ *    and at least one mutation is generated.
  *  - Custom input and output types generated from the Drizzle schema.
  *
  * @template TDbClient - A type extending AnyDrizzleDB that represents the Drizzle ORM database client.
+ * @template TConfig - The type of the configuration object, used to omit disabled operations from the typed entities.
  *
  * @param db - The Drizzle ORM database instance containing the schema information.
  * @param config - Optional configuration object for customizing schema generation.
  *   - relationsDepthLimit: A nonnegative integer specifying the maximum depth of relations to include in the schema.
  *   - mutations: If set to false, mutation fields will not be generated.
+ *   - tables: Include/exclude lists restricting which tables are exposed.
+ *   - columns: Per-table include/exclude lists restricting which columns are exposed.
+ *   - operations: Per-table toggles for the generated queries and mutations.
+ *   - naming: The naming strategy (casing, table name inflection, enum type and value names) of the generated queries, mutations and types.
+ *     `naming.legacyAliases` also exposes the former names of MySQL delete mutations (`deleteFrom{table}`) as deprecated aliases.
+ *   - connections: If set to true, list queries and many-relations return Relay connections with cursor pagination.
+ *     Ordering by relations, search relevance and vector distance is then unavailable, as cursors only hold column values.
+ *   - totalCount: If set to true, connections and many-relations expose the total count of the records matching their filters.
+ *   - search: Per-table full-text search configurations adding a `search` argument to `{table}` and `{table}Single` queries.
+ *   - scalars: The representation of JSON columns (stringified JSON by default, the `JSON` scalar, or the `JSON` scalar typed by `$type<>()`)
+ *     of temporal columns (strings by default, or the `DateTime`, `Date` and `Time` scalars)
+ *     of 64-bit integer and decimal columns (strings by default, or the `BigInt` and `Decimal` scalars)
+ *     and of binary columns (byte arrays by default, or base64 or hex `Bytes` strings).
  *
  * @throws Will throw an error if the full schema is not found on the database instance.
  * @throws Will throw an error if the provided `relationsDepthLimit` is negative or not an integer.
+ * @throws Will throw an error if `tables` references an unknown table or excludes every table.
+ * @throws Will throw an error if `columns` references an unknown table or column, or hides every column of a table.
+ * @throws Will throw an error if `operations` references an unknown table or disables every query.
+ * @throws Will throw an error if a `naming` option is neither a built-in preset nor a function, or gives two tables the same name.
+ * @throws Will throw an error if `naming.enums` references an unknown table or a column without an inline enum,
+ *   or gives one name to enums with different values.
+ * @throws Will throw an error if enum values get colliding names, or `naming.enumValues` gives an invalid name or
+ *   references an unknown value.
+ * @throws Will throw an error if `search` references an unknown table or column, or lacks the FTS5 table of a SQLite table.
  * @throws Will throw an error if the database instance type is unknown.
  *
  * @returns An object containing:
@@ -66,10 +102,13 @@ export {
  * console.log(schemaData.schema);
  * ```
  */
-export const buildSchema = <TDbClient extends AnyDrizzleDB<any>>(
+export const buildSchema = <
+  TDbClient extends AnyDrizzleDB<any>,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
+>(
   db: TDbClient,
-  config?: BuildSchemaConfig,
-): GeneratedData<TDbClient> => {
+  config?: TConfig,
+): GeneratedData<TDbClient, TConfig> => {
   // Retrieve the full schema from the Drizzle database instance.
   const schema = db._.fullSchema;
   if (!schema) {
@@ -95,17 +134,22 @@ export const buildSchema = <TDbClient extends AnyDrizzleDB<any>>(
   // Determine the database type and generate the corresponding GraphQL entities.
   let generatorOutput;
   if (is(db, MySqlDatabase)) {
-    generatorOutput = generateMySQL(db, schema, config?.relationsDepthLimit);
+    generatorOutput = generateMySQL(db, schema, config);
   } else if (is(db, PgDatabase)) {
-    generatorOutput = generatePG(db, schema, config?.relationsDepthLimit);
+    generatorOutput = generatePG(db, schema, config);
   } else if (is(db, BaseSQLiteDatabase)) {
-    generatorOutput = generateSQLite(db, schema, config?.relationsDepthLimit);
+    generatorOutput = generateSQLite(db, schema, config);
   } else {
     throw new Error("Drizzle-GraphQL Error: Unknown database instance type");
   }
 
   // Destructure generated queries, mutations, input types, and other types.
   const { queries, mutations, inputs, types } = generatorOutput;
+  if (!Object.keys(queries).length) {
+    throw new Error(
+      "Drizzle-GraphQL Error: config.operations disables every query!",
+    );
+  }
 
   // Build the GraphQL schema configuration with the generated input and output types.
   const graphQLSchemaConfig: GraphQLSchemaConfig = {
@@ -120,7 +164,7 @@ export const buildSchema = <TDbClient extends AnyDrizzleDB<any>>(
   };
 
   // Optionally add a Mutation type if mutations are enabled in the config.
-  if (config?.mutations !== false) {
+  if (config?.mutations !== false && Object.keys(mutations).length) {
     const mutation = new GraphQLObjectType({
       name: "Mutation",
       fields: mutations as ObjMap<GraphQLFieldConfig<any, any, any>>,
@@ -131,7 +175,10 @@ export const buildSchema = <TDbClient extends AnyDrizzleDB<any>>(
   // Create the final GraphQLSchema instance from the configuration.
   const outputSchema = new GraphQLSchema(graphQLSchemaConfig);
 
-  return { schema: outputSchema, entities: generatorOutput };
+  return {
+    schema: outputSchema,
+    entities: generatorOutput as GeneratedData<TDbClient, TConfig>["entities"],
+  };
 };
 
 // Re-export all types from the types module.
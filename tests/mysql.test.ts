@@ -1,14 +1,18 @@
-import type {
-  DeleteResolver,
-  ExtractTables,
-  InsertArrResolver,
-  InsertResolver,
-  SelectResolver,
-  SelectSingleResolver,
-  UpdateResolver,
+import {
+  buildSchema,
+  type DeleteResolver,
+  type ExtractTables,
+  type InsertArrResolver,
+  type InsertResolver,
+  type SelectResolver,
+  type SelectSingleResolver,
+  type UpdateResolver,
 } from "../mod.ts";
 import { eq, inArray, type Relations, sql } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/mysql2";
+import { int, json, mysqlTable } from "drizzle-orm/mysql-core";
 import {
+  graphql,
   GraphQLInputObjectType,
   type GraphQLList,
   GraphQLNonNull,
@@ -1457,6 +1461,89 @@ describe('Query tests', () => {
 
 		expect(data).toStrictEqual([]);
 	});
+
+	it(`Aggregate`, async () => {
+		const res = await ctx.gql.queryGql(/* GraphQL */ `
+			{
+				usersAggregate {
+					count
+					sum {
+						id
+						bigint
+					}
+					avg {
+						bigint
+					}
+					min {
+						id
+					}
+					max {
+						id
+						bigint
+					}
+				}
+
+				postsAggregate(where: { authorId: { eq: 5 } }) {
+					count
+					avg {
+						id
+					}
+				}
+			}
+		`);
+
+		expect(res).toStrictEqual({
+			data: {
+				usersAggregate: {
+					count: 3,
+					sum: { id: 8, bigint: '10' },
+					avg: { bigint: '10.0000' },
+					min: { id: 1 },
+					max: { id: 5, bigint: '10' },
+				},
+				postsAggregate: {
+					count: 2,
+					avg: { id: 4.5 },
+				},
+			},
+		});
+	});
+
+	it(`Group by`, async () => {
+		const res = await ctx.gql.queryGql(/* GraphQL */ `
+			{
+				postsGroupBy(by: [authorId]) {
+					key {
+						authorId
+					}
+					count
+					sum {
+						id
+					}
+					avg {
+						id
+					}
+				}
+
+				having: postsGroupBy(by: [authorId], having: { count: { gt: 2 } }) {
+					key {
+						authorId
+					}
+					count
+				}
+			}
+		`);
+
+		expect(res).toStrictEqual({
+			data: {
+				postsGroupBy: [
+					{ key: { authorId: 1 }, count: 4, sum: { id: 12 }, avg: { id: 3 } },
+					{ key: { authorId: 5 }, count: 2, sum: { id: 9 }, avg: { id: 4.5 } },
+				],
+				having: [{ key: { authorId: 1 }, count: 4 }],
+			},
+		});
+	});
 });
 
 describe('Aliased query tests', () => {
@@ -2271,6 +2358,34 @@ describe('Arguments tests', () => {
 		});
 	});
 
+	it('Order by with nulls placement', async () => {
+		const res = await ctx.gql.queryGql(/* GraphQL */ `
+			{
+				nullsLast: users(orderBy: { email: { priority: 1, direction: asc, nulls: last }, id: { priority: 0, direction: asc } }) {
+					id
+				}
+				nullsFirst: users(orderBy: { email: { priority: 1, direction: desc, nulls: first }, id: { priority: 0, direction: desc } }) {
+					id
+				}
+				defaultAsc: users(orderBy: { email: { priority: 1, direction: asc }, id: { priority: 0, direction: asc } }) {
+					id
+				}
+				defaultDesc: users(orderBy: { email: { priority: 1, direction: desc }, id: { priority: 0, direction: asc } }) {
+					id
+				}
+			}
+		`);
+
+		expect(res).toStrictEqual({
+			data: {
+				nullsLast: [{ id: 1 }, { id: 2 }, { id: 5 }],
+				nullsFirst: [{ id: 5 }, { id: 2 }, { id: 1 }],
+				defaultAsc: [{ id: 1 }, { id: 2 }, { id: 5 }],
+				defaultDesc: [{ id: 2 }, { id: 5 }, { id: 1 }],
+			},
+		});
+	});
+
 	it('Offset & limit', async () => {
 		const res = await ctx.gql.queryGql(/* GraphQL */ `
 			{
@@ -2322,6 +2437,64 @@ describe('Arguments tests', () => {
 		});
 	});
 
+	it('Filters - JSON operators', async () => {
+		const documents = mysqlTable('documents', {
+			id: int('id').autoincrement().primaryKey(),
+			data: json('data'),
+		});
+		const documentsDb = drizzle(ctx.client, {
+			schema: { documents },
+			mode: 'default',
+		});
+		await ctx.db.execute(sql`CREATE TABLE IF NOT EXISTS \`documents\` (
+			\`id\` int AUTO_INCREMENT NOT NULL,
+			\`data\` json,
+			CONSTRAINT \`documents_id\` PRIMARY KEY(\`id\`)
+		);`);
+		await documentsDb.insert(documents).values([
+			{ data: { field: 'value' } },
+			{ data: { tags: ['a', { b: 1 }], nested: { flag: true, n: null } } },
+		]);
+
+		const res = await graphql({
+			schema: buildSchema(documentsDb).schema,
+			source: /* GraphQL */ `
+			{
+				pathEquals: documents(where: { data: { pathEquals: { path: ["field"], value: "\\"value\\"" } } }) {
+					id
+				}
+				pathIndex: documents(where: { data: { pathEquals: { path: ["tags", "1", "b"], value: "1" } } }) {
+					id
+				}
+				hasKey: documents(where: { data: { hasKey: "nested" } }) {
+					id
+				}
+				containsObject: documents(where: { data: { jsonContains: """{"nested": {"flag": true, "n": null}}""" } }) {
+					id
+				}
+				containsElement: documents(where: { data: { jsonContains: """{"tags": [{"b": 1}, "a"]}""" } }) {
+					id
+				}
+				missingElement: documents(where: { data: { jsonContains: """{"tags": ["z"]}""" } }) {
+					id
+				}
+			}
+		`,
+		});
+		await ctx.db.execute(sql`DROP TABLE IF EXISTS \`documents\`;`);
+
+		expect(JSON.parse(JSON.stringify(res))).toStrictEqual({
+			data: {
+				pathEquals: [{ id: 1 }],
+				pathIndex: [{ id: 2 }],
+				hasKey: [{ id: 2 }],
+				containsObject: [{ id: 2 }],
+				containsElement: [{ id: 2 }],
+				missingElement: [],
+			},
+		});
+	});
+
 	it('Filters - top level AND', async () => {
 		const res = await ctx.gql.queryGql(/* GraphQL */ `
 			{
@@ -2816,6 +2989,126 @@ describe('Returned data tests', () => {
 								type: z.instanceof(GraphQLObjectType),
 							})
 							.strict(),
+						usersAggregate: z
+							.object({
+								args: z
+									.object({
+										where: z
+											.object({
+												type: z.instanceof(GraphQLInputObjectType),
+											})
+											.strict(),
+									})
+									.strict(),
+								resolve: z.function(),
+								type: z.instanceof(GraphQLNonNull),
+							})
+							.strict(),
+						usersGroupBy: z
+							.object({
+								args: z
+									.object({
+										by: z
+											.object({
+												type: z.instanceof(GraphQLNonNull),
+											})
+											.strict(),
+										where: z
+											.object({
+												type: z.instanceof(GraphQLInputObjectType),
+											})
+											.strict(),
+										having: z
+											.object({
+												type: z.instanceof(GraphQLInputObjectType),
+											})
+											.strict(),
+									})
+									.strict(),
+								resolve: z.function(),
+								type: z.instanceof(GraphQLNonNull),
+							})
+							.strict(),
+						postsAggregate: z
+							.object({
+								args: z
+									.object({
+										where: z
+											.object({
+												type: z.instanceof(GraphQLInputObjectType),
+											})
+											.strict(),
+									})
+									.strict(),
+								resolve: z.function(),
+								type: z.instanceof(GraphQLNonNull),
+							})
+							.strict(),
+						postsGroupBy: z
+							.object({
+								args: z
+									.object({
+										by: z
+											.object({
+												type: z.instanceof(GraphQLNonNull),
+											})
+											.strict(),
+										where: z
+											.object({
+												type: z.instanceof(GraphQLInputObjectType),
+											})
+											.strict(),
+										having: z
+											.object({
+												type: z.instanceof(GraphQLInputObjectType),
+											})
+											.strict(),
+									})
+									.strict(),
+								resolve: z.function(),
+								type: z.instanceof(GraphQLNonNull),
+							})
+							.strict(),
+						customersAggregate: z
+							.object({
+								args: z
+									.object({
+										where: z
+											.object({
+												type: z.instanceof(GraphQLInputObjectType),
+											})
+											.strict(),
+									})
+									.strict(),
+								resolve: z.function(),
+								type: z.instanceof(GraphQLNonNull),
+							})
+							.strict(),
+						customersGroupBy: z
+							.object({
+								args: z
+									.object({
+										by: z
+											.object({
+												type: z.instanceof(GraphQLNonNull),
+											})
+											.strict(),
+										where: z
+											.object({
+												type: z.instanceof(GraphQLInputObjectType),
+											})
+											.strict(),
+										having: z
+											.object({
+												type: z.instanceof(GraphQLInputObjectType),
+											})
+											.strict(),
+									})
+									.strict(),
+								resolve: z.function(),
+								type: z.instanceof(GraphQLNonNull),
+							})
+							.strict(),
 					})
 					.strict(),
 				mutations: z
@@ -4505,4 +4798,24 @@ describe('__typename with data tests', () => {
 
 		expect(data).toStrictEqual([]);
 	});
-});
\ No newline at end of file
+});
+
+describe('Config tests', () => {
+	it('Naming legacy aliases', () => {
+		const { schema: configSchema, entities } = buildSchema(ctx.db, {
+			naming: { fields: 'snake_case', legacyAliases: true },
+		});
+
+		const mutationFields = configSchema.getMutationType()!.getFields();
+		expect(mutationFields['delete_from_users']).toBeDefined();
+		expect(mutationFields['deleteFromUsers']!.deprecationReason).toBe(
+			'Use delete_from_users instead.',
+		);
+		expect(entities.mutations.deleteFromUsers.resolve).toBe(
+			entities.mutations.delete_from_users.resolve,
+		);
+		expect(
+			buildSchema(ctx.db).schema.getMutationType()!.getFields(),
+		).not.toHaveProperty('delete_from_users');
+	});
+});
@@ -1,14 +1,30 @@
-import type {
-  DeleteResolver,
-  ExtractTables,
-  InsertArrResolver,
-  InsertResolver,
-  SelectResolver,
-  SelectSingleResolver,
-  UpdateResolver,
+import {
+  buildSchema,
+  type BuildSchemaConfig,
+  type DeleteResolver,
+  type ExtractTables,
+  type InsertArrResolver,
+  type InsertResolver,
+  type SelectResolver,
+  type SelectSingleResolver,
+  type UpdateResolver,
 } from "../mod.ts";
 import { type Relations, sql } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/postgres-js";
+import {
+  bigint,
+  jsonb,
+  numeric,
+  pgTable,
+  serial,
+  text,
+  time,
+  timestamp,
+  uuid,
+} from "drizzle-orm/pg-core";
 import {
+  getNamedType,
+  graphql,
   GraphQLInputObjectType,
   type GraphQLList,
   GraphQLNonNull,
@@ -1748,6 +1764,83 @@ describe("Query tests", () => {
       },
     });
   });
+
+  it(`Aggregate`, async () => {
+    const res = await ctx.gql.queryGql(/* GraphQL */ `
+			{
+				usersAggregate {
+					count
+					sum {
+						id
+					}
+					min {
+						id
+					}
+					max {
+						id
+					}
+				}
+
+				postsAggregate(where: { authorId: { eq: 5 } }) {
+					count
+					avg {
+						id
+					}
+				}
+			}
+		`);
+
+    expect(res).toStrictEqual({
+      data: {
+        usersAggregate: {
+          count: 3,
+          sum: { id: 8 },
+          min: { id: 1 },
+          max: { id: 5 },
+        },
+        postsAggregate: {
+          count: 2,
+          avg: { id: 4.5 },
+        },
+      },
+    });
+  });
+
+  it(`Group by`, async () => {
+    const res = await ctx.gql.queryGql(/* GraphQL */ `
+			{
+				postsGroupBy(by: [authorId]) {
+					key {
+						authorId
+					}
+					count
+					sum {
+						id
+					}
+					avg {
+						id
+					}
+				}
+
+				having: postsGroupBy(by: [authorId], having: { count: { gt: 2 } }) {
+					key {
+						authorId
+					}
+					count
+				}
+			}
+		`);
+
+    expect(res).toStrictEqual({
+      data: {
+        postsGroupBy: [
+          { key: { authorId: 1 }, count: 4, sum: { id: 12 }, avg: { id: 3 } },
+          { key: { authorId: 5 }, count: 2, sum: { id: 9 }, avg: { id: 4.5 } },
+        ],
+        having: [{ key: { authorId: 1 }, count: 4 }],
+      },
+    });
+  });
 });
 
 describe("Arguments tests", () => {
@@ -1827,6 +1920,34 @@ describe("Arguments tests", () => {
     });
   });
 
+  it("Order by with nulls placement", async () => {
+    const res = await ctx.gql.queryGql(/* GraphQL */ `
+			{
+				nullsLast: users(orderBy: { email: { priority: 1, direction: asc, nulls: last }, id: { priority: 0, direction: asc } }) {
+					id
+				}
+				nullsFirst: users(orderBy: { email: { priority: 1, direction: desc, nulls: first }, id: { priority: 0, direction: desc } }) {
+					id
+				}
+				defaultAsc: users(orderBy: { email: { priority: 1, direction: asc }, id: { priority: 0, direction: asc } }) {
+					id
+				}
+				defaultDesc: users(orderBy: { email: { priority: 1, direction: desc }, id: { priority: 0, direction: asc } }) {
+					id
+				}
+			}
+		`);
+
+    expect(res).toStrictEqual({
+      data: {
+        nullsLast: [{ id: 1 }, { id: 2 }, { id: 5 }],
+        nullsFirst: [{ id: 5 }, { id: 2 }, { id: 1 }],
+        defaultAsc: [{ id: 1 }, { id: 2 }, { id: 5 }],
+        defaultDesc: [{ id: 2 }, { id: 5 }, { id: 1 }],
+      },
+    });
+  });
+
   it("Offset & limit", async () => {
     const res = await ctx.gql.queryGql(/* GraphQL */ `
 			{
@@ -1878,6 +1999,461 @@ describe("Arguments tests", () => {
     });
   });
 
+  it("Filters - array operators", async () => {
+    const res = await ctx.gql.queryGql(/* GraphQL */ `
+			{
+				contains: users(where: { a: { arrayContains: [5, 25] } }) {
+					id
+				}
+				contained: users(where: { a: { arrayContained: [1, 5] } }) {
+					id
+				}
+				overlaps: users(where: { a: { arrayOverlaps: [40, 100] } }) {
+					id
+				}
+				length: users(where: { a: { length: { gte: 5, lt: 6 } } }) {
+					id
+				}
+			}
+		`);
+
+    expect(res).toStrictEqual({
+      data: {
+        contains: [{ id: 1 }],
+        contained: [],
+        overlaps: [{ id: 1 }],
+        length: [{ id: 1 }],
+      },
+    });
+  });
+
+  it("Filters - JSON operators", async () => {
+    const documents = pgTable("documents", {
+      id: serial("id").primaryKey(),
+      data: jsonb("data"),
+    });
+    const documentsDb = drizzle(ctx.client, { schema: { documents } });
+    await ctx.db.execute(sql`CREATE TABLE IF NOT EXISTS "documents" (
+			"id" serial PRIMARY KEY NOT NULL,
+			"data" jsonb
+		);`);
+    await documentsDb.insert(documents).values([
+      { data: { field: "value" } },
+      { data: { tags: ["a", { b: 1 }], nested: { flag: true, n: null } } },
+    ]);
+
+    const res = await graphql({
+      schema: buildSchema(documentsDb).schema,
+      source: /* GraphQL */ `
+			{
+				pathEquals: documents(where: { data: { pathEquals: { path: ["field"], value: "\\"value\\"" } } }) {
+					id
+				}
+				pathIndex: documents(where: { data: { pathEquals: { path: ["tags", "1", "b"], value: "1" } } }) {
+					id
+				}
+				hasKey: documents(where: { data: { hasKey: "nested" } }) {
+					id
+				}
+				containsObject: documents(where: { data: { jsonContains: """{"nested": {"flag": true, "n": null}}""" } }) {
+					id
+				}
+				containsElement: documents(where: { data: { jsonContains: """{"tags": [{"b": 1}, "a"]}""" } }) {
+					id
+				}
+				missingElement: documents(where: { data: { jsonContains: """{"tags": ["z"]}""" } }) {
+					id
+				}
+			}
+		`,
+    });
+    await ctx.db.execute(sql`DROP TABLE IF EXISTS "documents" CASCADE;`);
+
+    expect(JSON.parse(JSON.stringify(res))).toStrictEqual({
+      data: {
+        pathEquals: [{ id: 1 }],
+        pathIndex: [{ id: 2 }],
+        hasKey: [{ id: 2 }],
+        containsObject: [{ id: 2 }],
+        containsElement: [{ id: 2 }],
+        missingElement: [],
+      },
+    });
+  });
+
+  it("Filters - vector distance", async () => {
+    const res = await ctx.gql.queryGql(/* GraphQL */ `
+			{
+				near: users(where: { vector: { distance: { to: [1, 2, 3, 4, 6], lt: 1.5 } } }) {
+					id
+				}
+				far: users(where: { vector: { distance: { to: [1, 2, 3, 4, 6], metric: cosine, gt: 0.5 } } }) {
+					id
+				}
+				nearest: users(
+					orderBy: {
+						vector: { distanceTo: [5, 4, 3, 2, 1], direction: asc, priority: 1, nulls: last }
+						id: { direction: desc, priority: 0 }
+					}
+				) {
+					id
+				}
+			}
+		`);
+
+    expect(res).toStrictEqual({
+      data: {
+        near: [{ id: 1 }],
+        far: [],
+        nearest: [{ id: 1 }, { id: 5 }, { id: 2 }],
+      },
+    });
+  });
+
+  it("Vector and geometry inputs", async () => {
+    const res = await ctx.gql.queryGql(/* GraphQL */ `
+			mutation {
+				insertIntoUsersSingle(
+					values: {
+						id: 3
+						name: "ThirdUser"
+						vector: [5, 4, 3, 2, 1]
+						geoXy: { type: "Point", coordinates: [1.5, -2] }
+						geoTuple: { x: 3, y: 4 }
+					}
+				) {
+					id
+					vector
+					geoXy {
+						x
+						y
+					}
+					geoTuple
+				}
+			}
+		`);
+
+    expect(res).toStrictEqual({
+      data: {
+        insertIntoUsersSingle: {
+          id: 3,
+          vector: [5, 4, 3, 2, 1],
+          geoXy: { x: 1.5, y: -2 },
+          geoTuple: [3, 4],
+        },
+      },
+    });
+
+    const invalid = await ctx.gql.queryGql(/* GraphQL */ `
+			mutation {
+				insertIntoUsersSingle(values: { id: 4, name: "FourthUser", vector: [1, 2] }) {
+					id
+				}
+			}
+		`);
+
+    expect(invalid.errors[0].message).toBe(
+      "Field 'vector' is supposed to have 5 dimensions!",
+    );
+  });
+
+  it("DateTime inputs of timestamps without time zone", async () => {
+    const events = pgTable("events", {
+      id: serial("id").primaryKey(),
+      at: timestamp("at", { mode: "string" }),
+      atTz: timestamp("at_tz", { mode: "string", withTimezone: true }),
+    });
+    const { schema: eventsSchema } = buildSchema(
+      drizzle(ctx.client, { schema: { events } }),
+      { scalars: { dates: "scalar" } },
+    );
+    await ctx.db.execute(sql`CREATE TABLE IF NOT EXISTS "events" (
+			"id" serial PRIMARY KEY NOT NULL,
+			"at" timestamp,
+			"at_tz" timestamp with time zone
+		);`);
+
+    const res = await graphql({
+      schema: eventsSchema,
+      source: /* GraphQL */ `
+			mutation {
+				insertIntoEventsSingle(
+					values: { at: "2024-04-02T08:44:41.123+02:00", atTz: "2024-04-02T08:44:41.123+02:00" }
+				) {
+					at
+					atTz
+				}
+			}
+		`,
+    });
+    const filtered = await graphql({
+      schema: eventsSchema,
+      source: /* GraphQL */ `
+			{
+				events(where: { at: { eq: "2024-04-02T05:44:41.123-01:00" } }) {
+					at
+				}
+			}
+		`,
+    });
+    await ctx.db.execute(sql`DROP TABLE IF EXISTS "events" CASCADE;`);
+
+    expect(JSON.parse(JSON.stringify(res))).toStrictEqual({
+      data: {
+        insertIntoEventsSingle: {
+          at: "2024-04-02T06:44:41.123Z",
+          atTz: "2024-04-02T06:44:41.123Z",
+        },
+      },
+    });
+    expect(JSON.parse(JSON.stringify(filtered))).toStrictEqual({
+      data: { events: [{ at: "2024-04-02T06:44:41.123Z" }] },
+    });
+  });
+
+  it("Time scalar of times with time zone", async () => {
+    const shifts = pgTable("shifts", {
+      id: serial("id").primaryKey(),
+      startsAt: time("starts_at", { withTimezone: true }),
+    });
+    const { schema: shiftsSchema } = buildSchema(
+      drizzle(ctx.client, { schema: { shifts } }),
+      { scalars: { dates: "scalar" } },
+    );
+    await ctx.db.execute(sql`CREATE TABLE IF NOT EXISTS "shifts" (
+			"id" serial PRIMARY KEY NOT NULL,
+			"starts_at" time with time zone
+		);`);
+
+    const res = await graphql({
+      schema: shiftsSchema,
+      source: /* GraphQL */ `
+			mutation {
+				insertIntoShifts(
+					values: [{ startsAt: "08:30:00.5+02:00" }, { startsAt: "17:00:00-05:30" }]
+				) {
+					startsAt
+				}
+			}
+		`,
+    });
+    const filtered = await graphql({
+      schema: shiftsSchema,
+      source: /* GraphQL */ `
+			{
+				shifts(where: { startsAt: { eq: "08:30:00.5+02:00" } }) {
+					startsAt
+				}
+			}
+		`,
+    });
+    await ctx.db.execute(sql`DROP TABLE IF EXISTS "shifts" CASCADE;`);
+
+    expect(JSON.parse(JSON.stringify(res))).toStrictEqual({
+      data: {
+        insertIntoShifts: [
+          { startsAt: "08:30:00.5+02:00" },
+          { startsAt: "17:00:00-05:30" },
+        ],
+      },
+    });
+    expect(JSON.parse(JSON.stringify(filtered))).toStrictEqual({
+      data: { shifts: [{ startsAt: "08:30:00.5+02:00" }] },
+    });
+  });
+
+  it("Shared pgEnum type", () => {
+    const members = pgTable("members", {
+      id: serial("id").primaryKey(),
+      role: schema.roleEnum("role").notNull(),
+    });
+    const { schema: membersSchema } = buildSchema(
+      drizzle(ctx.client, { schema: { users: schema.Users, members } }),
+    );
+    const roleType = (typeName: string) =>
+      getNamedType(
+        (membersSchema.getType(typeName) as GraphQLObjectType).getFields()
+          .role!.type,
+      );
+
+    expect(roleType("UsersSelectItem")).toBe(roleType("MembersSelectItem"));
+    expect(roleType("UsersSelectItem").name).toBe("RoleEnum");
+    expect(membersSchema.getType("UsersRoleEnum")).toBeUndefined();
+  });
+
+  it("UUID columns", async () => {
+    const devices = pgTable("devices", {
+      id: uuid("id").primaryKey().defaultRandom(),
+      name: text("name").notNull(),
+    });
+    const { schema: devicesSchema } = buildSchema(
+      drizzle(ctx.client, { schema: { devices } }),
+    );
+    const fieldType = (typeName: string, fieldName: string) =>
+      String(
+        (devicesSchema.getType(typeName) as
+          | GraphQLObjectType
+          | GraphQLInputObjectType).getFields()[fieldName]!.type,
+      );
+
+    expect(fieldType("DevicesSelectItem", "id")).toBe("UUID!");
+    expect(fieldType("DevicesIdFilters", "eq")).toBe("UUID");
+    expect(fieldType("DevicesInsertInput", "id")).toBe("UUID");
+    expect(fieldType("DevicesUpdateInput", "id")).toBe("UUID");
+
+    await ctx.db.execute(sql`CREATE TABLE IF NOT EXISTS "devices" (
+			"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+			"name" text NOT NULL
+		);`);
+
+    const res = await graphql({
+      schema: devicesSchema,
+      source: /* GraphQL */ `
+			mutation {
+				insertIntoDevicesSingle(
+					values: { id: "0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d", name: "Phone" }
+				) {
+					id
+					name
+				}
+			}
+		`,
+    });
+    const filtered = await graphql({
+      schema: devicesSchema,
+      source: /* GraphQL */ `
+			{
+				devices(where: { id: { eq: "0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d" } }) {
+					name
+				}
+			}
+		`,
+    });
+    const invalidWhere = await graphql({
+      schema: devicesSchema,
+      source: /* GraphQL */ `
+			{
+				devices(where: { id: { eq: "not-a-uuid" } }) {
+					name
+				}
+			}
+		`,
+    });
+    const invalidValues = await graphql({
+      schema: devicesSchema,
+      source: /* GraphQL */ `
+			mutation {
+				insertIntoDevicesSingle(values: { id: "0a1b2c3d", name: "Tablet" }) {
+					id
+				}
+			}
+		`,
+    });
+    await ctx.db.execute(sql`DROP TABLE IF EXISTS "devices" CASCADE;`);
+
+    expect(JSON.parse(JSON.stringify(res))).toStrictEqual({
+      data: {
+        insertIntoDevicesSingle: {
+          id: "0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d",
+          name: "Phone",
+        },
+      },
+    });
+    expect(JSON.parse(JSON.stringify(filtered))).toStrictEqual({
+      data: { devices: [{ name: "Phone" }] },
+    });
+    expect(invalidWhere.errors![0]!.message).toBe(
+      'UUID cannot represent value: "not-a-uuid"',
+    );
+    expect(invalidValues.errors![0]!.message).toBe(
+      'UUID cannot represent value: "0a1b2c3d"',
+    );
+  });
+
+  it("Aggregates of bigint and numeric columns", async () => {
+    const ledger = pgTable("ledger", {
+      id: serial("id").primaryKey(),
+      amount: bigint("amount", { mode: "bigint" }),
+      price: numeric("price", { precision: 10, scale: 2 }),
+    });
+    const ledgerDb = drizzle(ctx.client, { schema: { ledger } });
+    const fieldType = (
+      typeName: string,
+      fieldName: string,
+      config?: BuildSchemaConfig,
+    ) =>
+      String(
+        (buildSchema(ledgerDb, config).schema.getType(
+          typeName,
+        ) as GraphQLObjectType).getFields()[fieldName]!.type,
+      );
+
+    expect(fieldType("LedgerAggregateSum", "amount")).toBe("String");
+    expect(fieldType("LedgerAggregateAvg", "price")).toBe("String");
+    expect(
+      fieldType("LedgerAggregateSum", "amount", {
+        scalars: { numerics: "scalar" },
+      }),
+    ).toBe("BigInt");
+    expect(
+      fieldType("LedgerAggregateAvg", "amount", {
+        scalars: { numerics: "scalar" },
+      }),
+    ).toBe("Decimal");
+    expect(
+      fieldType("LedgerAggregateSum", "price", {
+        scalars: { numerics: "scalar" },
+      }),
+    ).toBe("Decimal");
+
+    await ctx.db.execute(sql`CREATE TABLE IF NOT EXISTS "ledger" (
+			"id" serial PRIMARY KEY NOT NULL,
+			"amount" bigint,
+			"price" numeric(10, 2)
+		);`);
+    await ledgerDb.insert(ledger).values([
+      { amount: 9007199254740993n, price: "10.50" },
+      { amount: 7n, price: "2.25" },
+    ]);
+
+    const res = await graphql({
+      schema: buildSchema(ledgerDb).schema,
+      source: /* GraphQL */ `
+			{
+				ledgerAggregate {
+					sum {
+						amount
+						price
+					}
+					avg {
+						price
+					}
+					min {
+						price
+					}
+					max {
+						amount
+					}
+				}
+			}
+		`,
+    });
+    await ctx.db.execute(sql`DROP TABLE IF EXISTS "ledger" CASCADE;`);
+
+    const aggregate = res.data!.ledgerAggregate as Record<
+      string,
+      Record<string, unknown>
+    >;
+    expect(aggregate.sum).toStrictEqual({
+      amount: "9007199254741000",
+      price: "12.75",
+    });
+    expect(typeof aggregate.avg!.price).toBe("string");
+    expect(Number(aggregate.avg!.price)).toBe(6.375);
+    expect(aggregate.min).toStrictEqual({ price: "2.25" });
+    expect(aggregate.max).toStrictEqual({ amount: "9007199254740993" });
+  });
+
   it("Filters - top level AND", async () => {
     const res = await ctx.gql.queryGql(/* GraphQL */ `
 			{
@@ -2379,6 +2955,126 @@ describe("Returned data tests", () => {
                 type: z.instanceof(GraphQLObjectType),
               })
               .strict(),
+            usersAggregate: z
+              .object({
+                args: z
+                  .object({
+                    where: z
+                      .object({
+                        type: z.instanceof(GraphQLInputObjectType),
+                      })
+                      .strict(),
+                  })
+                  .strict(),
+                resolve: z.function(),
+                type: z.instanceof(GraphQLNonNull),
+              })
+              .strict(),
+            usersGroupBy: z
+              .object({
+                args: z
+                  .object({
+                    by: z
+                      .object({
+                        type: z.instanceof(GraphQLNonNull),
+                      })
+                      .strict(),
+                    where: z
+                      .object({
+                        type: z.instanceof(GraphQLInputObjectType),
+                      })
+                      .strict(),
+                    having: z
+                      .object({
+                        type: z.instanceof(GraphQLInputObjectType),
+                      })
+                      .strict(),
+                  })
+                  .strict(),
+                resolve: z.function(),
+                type: z.instanceof(GraphQLNonNull),
+              })
+              .strict(),
+            postsAggregate: z
+              .object({
+                args: z
+                  .object({
+                    where: z
+                      .object({
+                        type: z.instanceof(GraphQLInputObjectType),
+                      })
+                      .strict(),
+                  })
+                  .strict(),
+                resolve: z.function(),
+                type: z.instanceof(GraphQLNonNull),
+              })
+              .strict(),
+            postsGroupBy: z
+              .object({
+                args: z
+                  .object({
+                    by: z
+                      .object({
+                        type: z.instanceof(GraphQLNonNull),
+                      })
+                      .strict(),
+                    where: z
+                      .object({
+                        type: z.instanceof(GraphQLInputObjectType),
+                      })
+                      .strict(),
+                    having: z
+                      .object({
+                        type: z.instanceof(GraphQLInputObjectType),
+                      })
+                      .strict(),
+                  })
+                  .strict(),
+                resolve: z.function(),
+                type: z.instanceof(GraphQLNonNull),
+              })
+              .strict(),
+            customersAggregate: z
+              .object({
+                args: z
+                  .object({
+                    where: z
+                      .object({
+                        type: z.instanceof(GraphQLInputObjectType),
+                      })
+                      .strict(),
+                  })
+                  .strict(),
+                resolve: z.function(),
+                type: z.instanceof(GraphQLNonNull),
+              })
+              .strict(),
+            customersGroupBy: z
+              .object({
+                args: z
+                  .object({
+                    by: z
+                      .object({
+                        type: z.instanceof(GraphQLNonNull),
+                      })
+                      .strict(),
+                    where: z
+                      .object({
+                        type: z.instanceof(GraphQLInputObjectType),
+                      })
+                      .strict(),
+                    having: z
+                      .object({
+                        type: z.instanceof(GraphQLInputObjectType),
+                      })
+                      .strict(),
+                  })
+                  .strict(),
+                resolve: z.function(),
+                type: z.instanceof(GraphQLNonNull),
+              })
+              .strict(),
           })
           .strict(),
         mutations: z
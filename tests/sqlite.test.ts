@@ -1,14 +1,27 @@
-import type {
-  DeleteResolver,
-  ExtractTables,
-  InsertArrResolver,
-  InsertResolver,
-  SelectResolver,
-  SelectSingleResolver,
-  UpdateResolver,
+import {
+  buildSchema,
+  type BuildSchemaConfig,
+  type DeleteResolver,
+  type ExtractTables,
+  GraphQLBase64Bytes,
+  GraphQLBigInt,
+  GraphQLDate,
+  GraphQLDecimal,
+  GraphQLGeoJSONPoint,
+  GraphQLTime,
+  GraphQLUUID,
+  type InsertArrResolver,
+  type InsertResolver,
+  type SelectResolver,
+  type SelectSingleResolver,
+  type UpdateResolver,
 } from "../mod.ts";
 import { type Relations, sql } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import { blob, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
 import {
+  graphql,
+  type GraphQLEnumType,
   GraphQLInputObjectType,
   type GraphQLList,
   GraphQLNonNull,
@@ -31,6 +44,15 @@ import ctx from "../examples/sqlite/context.ts";
 
 beforeAll(async () => {});
 
+/**
+ * Builds a schema from the test database with the given config and executes a query against it.
+ */
+const queryWithConfig = async (config: BuildSchemaConfig, source: string) => {
+  const { schema: configSchema } = buildSchema(ctx.db, config);
+  const res = await graphql({ schema: configSchema, source });
+  return JSON.parse(JSON.stringify(res));
+};
+
 afterAll(() => {
   ctx.client.close();
 });
@@ -1430,6 +1452,161 @@ describe("Query tests", () => {
       },
     });
   });
+
+  it(`Aggregate`, async () => {
+    const res = await ctx.gql.queryGql(/* GraphQL */ `
+			{
+				usersAggregate {
+					count
+					sum {
+						id
+						real
+						numeric
+					}
+					avg {
+						id
+						numeric
+					}
+					min {
+						id
+						numeric
+					}
+					max {
+						id
+						real
+					}
+				}
+
+				postsAggregate(where: { authorId: { eq: 1 } }) {
+					count
+					max {
+						id
+					}
+				}
+
+				customersAggregate(where: { id: { eq: 3 } }) {
+					count
+					sum {
+						userId
+					}
+				}
+			}
+		`);
+
+    expect(res).toStrictEqual({
+      data: {
+        usersAggregate: {
+          count: 3,
+          sum: { id: 8, real: 13.5, numeric: "250.2" },
+          avg: { id: 8 / 3, numeric: "250.2" },
+          min: { id: 1, numeric: "250.2" },
+          max: { id: 5, real: 13.5 },
+        },
+        postsAggregate: {
+          count: 4,
+          max: { id: 6 },
+        },
+        customersAggregate: {
+          count: 0,
+          sum: { userId: null },
+        },
+      },
+    });
+  });
+
+  it(`Group by`, async () => {
+    const res = await ctx.gql.queryGql(/* GraphQL */ `
+			{
+				postsGroupBy(by: [authorId]) {
+					key {
+						authorId
+					}
+					count
+					sum {
+						id
+					}
+				}
+
+				byContent: postsGroupBy(
+					by: [content, content]
+					where: { id: { lt: 6 } }
+					having: { count: { gt: 1 } }
+				) {
+					key {
+						authorId
+						content
+					}
+					count
+				}
+
+				withOr: postsGroupBy(
+					by: [authorId]
+					having: { OR: [{ max: { id: { gte: 6 } } }, { count: { lt: 1 } }] }
+				) {
+					key {
+						authorId
+					}
+					avg {
+						id
+					}
+				}
+
+				withLogical: postsGroupBy(
+					by: [authorId]
+					having: {
+						count: { gte: 1 }
+						AND: [{ min: { id: { gte: 1 } } }, { OR: [{ max: { id: { lt: 6 } } }, { sum: { id: { gt: 100 } } }] }]
+						NOT: { count: { gt: 4 } }
+					}
+				) {
+					key {
+						authorId
+					}
+					count
+				}
+
+				withNot: postsGroupBy(by: [authorId], having: { NOT: { avg: { id: { gt: 4 } } } }) {
+					key {
+						authorId
+					}
+				}
+			}
+		`);
+
+    expect(res).toStrictEqual({
+      data: {
+        postsGroupBy: [
+          { key: { authorId: 1 }, count: 4, sum: { id: 12 } },
+          { key: { authorId: 5 }, count: 2, sum: { id: 9 } },
+        ],
+        byContent: [
+          { key: { authorId: null, content: "1MESSAGE" }, count: 2 },
+          { key: { authorId: null, content: "2MESSAGE" }, count: 2 },
+        ],
+        withOr: [
+          { key: { authorId: 1 }, avg: { id: 3 } },
+        ],
+        withLogical: [
+          { key: { authorId: 5 }, count: 2 },
+        ],
+        withNot: [
+          { key: { authorId: 1 } },
+        ],
+      },
+    });
+
+    const invalid = await ctx.gql.queryGql(/* GraphQL */ `
+			{
+				postsGroupBy(by: []) {
+					count
+				}
+			}
+		`);
+
+    expect(invalid.errors[0].message).toBe(
+      "'by' is supposed to contain at least one column!",
+    );
+  });
 });
 
 describe("Arguments tests", () => {
@@ -1509,6 +1686,83 @@ describe("Arguments tests", () => {
     });
   });
 
+  it("Order by related columns", async () => {
+    const res = await ctx.gql.queryGql(/* GraphQL */ `
+			{
+				posts(orderBy: { author: { name: { priority: 1, direction: asc } }, id: { priority: 0, direction: desc } }) {
+					id
+				}
+				users(orderBy: { customer: { address: { priority: 0, direction: desc } } }) {
+					id
+					posts(orderBy: { author: { id: { priority: 1, direction: asc } }, id: { priority: 0, direction: desc } }) {
+						id
+					}
+				}
+			}
+		`);
+
+    expect(res).toStrictEqual({
+      data: {
+        posts: [{ id: 5 }, { id: 4 }, { id: 6 }, { id: 3 }, { id: 2 }, {
+          id: 1,
+        }],
+        users: [
+          { id: 5, posts: [{ id: 5 }, { id: 4 }] },
+          { id: 2, posts: [] },
+          { id: 1, posts: [{ id: 6 }, { id: 3 }, { id: 2 }, { id: 1 }] },
+        ],
+      },
+    });
+  });
+
+  it("Order by related aggregates", async () => {
+    const res = await ctx.gql.queryGql(/* GraphQL */ `
+			{
+				byCount: users(orderBy: { posts: { count: { priority: 0, direction: desc } } }) {
+					id
+				}
+				byMax: users(orderBy: { posts: { max: { id: { priority: 0, direction: asc } } } }) {
+					id
+				}
+			}
+		`);
+
+    expect(res).toStrictEqual({
+      data: {
+        byCount: [{ id: 1 }, { id: 5 }, { id: 2 }],
+        byMax: [{ id: 5 }, { id: 1 }, { id: 2 }],
+      },
+    });
+  });
+
+  it("Order by with nulls placement", async () => {
+    const res = await ctx.gql.queryGql(/* GraphQL */ `
+			{
+				nullsLast: users(orderBy: { email: { priority: 1, direction: asc, nulls: last }, id: { priority: 0, direction: asc } }) {
+					id
+				}
+				nullsFirst: users(orderBy: { email: { priority: 1, direction: desc, nulls: first }, id: { priority: 0, direction: desc } }) {
+					id
+				}
+				defaultAsc: users(orderBy: { email: { priority: 1, direction: asc }, id: { priority: 0, direction: asc } }) {
+					id
+				}
+				defaultDesc: users(orderBy: { email: { priority: 1, direction: desc }, id: { priority: 0, direction: asc } }) {
+					id
+				}
+			}
+		`);
+
+    expect(res).toStrictEqual({
+      data: {
+        nullsLast: [{ id: 1 }, { id: 2 }, { id: 5 }],
+        nullsFirst: [{ id: 5 }, { id: 2 }, { id: 1 }],
+        defaultAsc: [{ id: 1 }, { id: 2 }, { id: 5 }],
+        defaultDesc: [{ id: 2 }, { id: 5 }, { id: 1 }],
+      },
+    });
+  });
+
   it("Offset & limit", async () => {
     const res = await ctx.gql.queryGql(/* GraphQL */ `
 			{
@@ -1633,119 +1887,326 @@ describe("Arguments tests", () => {
     });
   });
 
-  it("Update filters", async () => {
+  it("Filters - nested AND, OR and NOT", async () => {
     const res = await ctx.gql.queryGql(/* GraphQL */ `
-			mutation {
-				updatePosts(where: { OR: [{ id: { lte: 3 } }, { authorId: { eq: 5 } }] }, set: { content: "UPDATED" }) {
+			{
+				posts(
+					where: {
+						authorId: { eq: 1 }
+						OR: [
+							{ id: { lte: 2 } }
+							{ AND: [{ content: { eq: "4MESSAGE" } }, { NOT: { id: { eq: 3 } } }] }
+						]
+						NOT: { id: { eq: 2 } }
+					}
+				) {
 					id
-					authorId
-					content
 				}
 			}
 		`);
 
     expect(res).toStrictEqual({
       data: {
-        updatePosts: [
-          {
-            id: 1,
-            authorId: 1,
-            content: "UPDATED",
-          },
-          {
-            id: 2,
-            authorId: 1,
-            content: "UPDATED",
-          },
-          {
-            id: 3,
-            authorId: 1,
-            content: "UPDATED",
-          },
-          {
-            id: 4,
-            authorId: 5,
-            content: "UPDATED",
-          },
-          {
-            id: 5,
-            authorId: 5,
-            content: "UPDATED",
-          },
-        ],
+        posts: [{ id: 1 }, { id: 6 }],
       },
     });
   });
 
-  it("Delete filters", async () => {
+  it("Filters - column level AND, OR and NOT", async () => {
     const res = await ctx.gql.queryGql(/* GraphQL */ `
-			mutation {
-				deleteFromPosts(where: { OR: [{ id: { lte: 3 } }, { authorId: { eq: 5 } }] }) {
+			{
+				posts(where: { id: { OR: [{ lt: 2 }, { AND: [{ gt: 3 }, { NOT: { eq: 5 } }] }] } }) {
 					id
-					authorId
-					content
 				}
 			}
 		`);
 
     expect(res).toStrictEqual({
       data: {
-        deleteFromPosts: [
-          {
-            id: 1,
-            authorId: 1,
-            content: "1MESSAGE",
-          },
-          {
-            id: 2,
-            authorId: 1,
-            content: "2MESSAGE",
-          },
-          {
-            id: 3,
-            authorId: 1,
-            content: "3MESSAGE",
-          },
-          {
-            id: 4,
-            authorId: 5,
-            content: "1MESSAGE",
-          },
-          {
-            id: 5,
-            authorId: 5,
-            content: "2MESSAGE",
-          },
-        ],
+        posts: [{ id: 1 }, { id: 4 }, { id: 6 }],
       },
     });
   });
 
-  it("Relations orderBy", async () => {
+  it("Filters - many-relation some, every and none", async () => {
     const res = await ctx.gql.queryGql(/* GraphQL */ `
 			{
-				users {
+				some: users(where: { posts: { some: { content: { eq: "4MESSAGE" } } } }) {
 					id
-					posts(orderBy: { id: { priority: 1, direction: desc } }) {
+				}
+				every: users(where: { posts: { every: { content: { ne: "3MESSAGE" } } } }) {
+					id
+				}
+				none: users(where: { posts: { none: {} } }) {
+					id
+				}
+			}
+		`);
+
+    expect(res).toStrictEqual({
+      data: {
+        some: [{ id: 1 }],
+        every: [{ id: 2 }, { id: 5 }],
+        none: [{ id: 2 }],
+      },
+    });
+  });
+
+  it("Filters - one-relation", async () => {
+    const res = await ctx.gql.queryGql(/* GraphQL */ `
+			{
+				posts(where: { author: { id: { eq: 5 } } }) {
+					id
+				}
+			}
+		`);
+
+    expect(res).toStrictEqual({
+      data: {
+        posts: [{ id: 4 }, { id: 5 }],
+      },
+    });
+  });
+
+  it("Filters - nested relation filters", async () => {
+    const res = await ctx.gql.queryGql(/* GraphQL */ `
+			{
+				users(where: { posts: { some: { author: { customer: { address: { eq: "AdOne" } } } } } }) {
+					id
+					posts(where: { id: { gt: 2 }, author: { customer: { address: { eq: "AdOne" } } } }) {
 						id
-						authorId
-						content
 					}
 				}
+				excluded: users(where: { NOT: { posts: { some: { customer: { address: { eq: "AdOne" } } } } } }) {
+					id
+				}
 			}
 		`);
 
     expect(res).toStrictEqual({
       data: {
-        users: [
-          {
-            id: 1,
-            posts: [
-              {
-                id: 6,
-                authorId: 1,
-                content: "4MESSAGE",
-              },
+        users: [{ id: 1, posts: [{ id: 3 }, { id: 6 }] }],
+        excluded: [{ id: 2 }, { id: 5 }],
+      },
+    });
+  });
+
+  it("Filters - string operators", async () => {
+    await ctx.db.insert(schema.Posts).values({
+      id: 7,
+      authorId: 2,
+      content: "50%_OFF",
+    });
+    await ctx.db.insert(schema.Posts).values({
+      id: 8,
+      authorId: 2,
+      content: "a*b?[c]",
+    });
+
+    const res = await ctx.gql.queryGql(/* GraphQL */ `
+			{
+				startsWith: posts(where: { content: { startsWith: "1M" } }) {
+					id
+				}
+				endsWith: posts(where: { content: { endsWith: "_OFF" } }) {
+					id
+				}
+				contains: posts(where: { content: { contains: "0%_" } }) {
+					id
+				}
+				wildcard: posts(where: { content: { contains: "%" } }) {
+					id
+				}
+				containsInsensitive: posts(where: { content: { containsInsensitive: "3message" } }) {
+					id
+				}
+				globWildcards: posts(where: { content: { contains: "*b?[c" } }) {
+					id
+				}
+				globWildcardsLiteral: posts(where: { content: { startsWith: "a?" } }) {
+					id
+				}
+				caseSensitive: users(where: { name: { contains: "firstuser" } }) {
+					id
+				}
+				caseSensitiveStart: users(where: { name: { startsWith: "first" } }) {
+					id
+				}
+				caseSensitiveEnd: users(where: { name: { endsWith: "User" } }) {
+					id
+				}
+			}
+		`);
+
+    expect(res).toStrictEqual({
+      data: {
+        startsWith: [{ id: 1 }, { id: 4 }],
+        endsWith: [{ id: 7 }],
+        contains: [{ id: 7 }],
+        wildcard: [{ id: 7 }],
+        containsInsensitive: [{ id: 3 }],
+        globWildcards: [{ id: 8 }],
+        globWildcardsLiteral: [],
+        caseSensitive: [],
+        caseSensitiveStart: [],
+        caseSensitiveEnd: [{ id: 1 }, { id: 2 }, { id: 5 }],
+      },
+    });
+  });
+
+  it("Filters - JSON operators", async () => {
+    await ctx.db.update(schema.Users).set({
+      textJson: { tags: ["a", { b: 1 }], nested: { flag: true, n: null } },
+    }).where(sql`${schema.Users.id} = 2`);
+
+    const res = await ctx.gql.queryGql(/* GraphQL */ `
+			{
+				pathEquals: users(where: { textJson: { pathEquals: { path: ["field"], value: "\\"value\\"" } } }) {
+					id
+				}
+				pathIndex: users(where: { textJson: { pathEquals: { path: ["tags", "1", "b"], value: "1" } } }) {
+					id
+				}
+				hasKey: users(where: { textJson: { hasKey: "nested" } }) {
+					id
+				}
+				containsObject: users(where: { textJson: { jsonContains: """{"nested": {"flag": true, "n": null}}""" } }) {
+					id
+				}
+				containsElement: users(where: { textJson: { jsonContains: """{"tags": [{"b": 1}, "a"]}""" } }) {
+					id
+				}
+				missingElement: users(where: { textJson: { jsonContains: """{"tags": ["z"]}""" } }) {
+					id
+				}
+			}
+		`);
+
+    expect(res).toStrictEqual({
+      data: {
+        pathEquals: [{ id: 1 }],
+        pathIndex: [{ id: 2 }],
+        hasKey: [{ id: 2 }],
+        containsObject: [{ id: 2 }],
+        containsElement: [{ id: 2 }],
+        missingElement: [],
+      },
+    });
+  });
+
+  it("Update filters", async () => {
+    const res = await ctx.gql.queryGql(/* GraphQL */ `
+			mutation {
+				updatePosts(where: { OR: [{ id: { lte: 3 } }, { authorId: { eq: 5 } }] }, set: { content: "UPDATED" }) {
+					id
+					authorId
+					content
+				}
+			}
+		`);
+
+    expect(res).toStrictEqual({
+      data: {
+        updatePosts: [
+          {
+            id: 1,
+            authorId: 1,
+            content: "UPDATED",
+          },
+          {
+            id: 2,
+            authorId: 1,
+            content: "UPDATED",
+          },
+          {
+            id: 3,
+            authorId: 1,
+            content: "UPDATED",
+          },
+          {
+            id: 4,
+            authorId: 5,
+            content: "UPDATED",
+          },
+          {
+            id: 5,
+            authorId: 5,
+            content: "UPDATED",
+          },
+        ],
+      },
+    });
+  });
+
+  it("Delete filters", async () => {
+    const res = await ctx.gql.queryGql(/* GraphQL */ `
+			mutation {
+				deleteFromPosts(where: { OR: [{ id: { lte: 3 } }, { authorId: { eq: 5 } }] }) {
+					id
+					authorId
+					content
+				}
+			}
+		`);
+
+    expect(res).toStrictEqual({
+      data: {
+        deleteFromPosts: [
+          {
+            id: 1,
+            authorId: 1,
+            content: "1MESSAGE",
+          },
+          {
+            id: 2,
+            authorId: 1,
+            content: "2MESSAGE",
+          },
+          {
+            id: 3,
+            authorId: 1,
+            content: "3MESSAGE",
+          },
+          {
+            id: 4,
+            authorId: 5,
+            content: "1MESSAGE",
+          },
+          {
+            id: 5,
+            authorId: 5,
+            content: "2MESSAGE",
+          },
+        ],
+      },
+    });
+  });
+
+  it("Relations orderBy", async () => {
+    const res = await ctx.gql.queryGql(/* GraphQL */ `
+			{
+				users {
+					id
+					posts(orderBy: { id: { priority: 1, direction: desc } }) {
+						id
+						authorId
+						content
+					}
+				}
+			}
+		`);
+
+    expect(res).toStrictEqual({
+      data: {
+        users: [
+          {
+            id: 1,
+            posts: [
+              {
+                id: 6,
+                authorId: 1,
+                content: "4MESSAGE",
+              },
               {
                 id: 3,
                 authorId: 1,
@@ -2061,17 +2522,13 @@ describe("Returned data tests", () => {
                 type: z.instanceof(GraphQLObjectType),
               })
               .strict(),
-          })
-          .strict(),
-        mutations: z
-          .object({
-            insertIntoUsers: z
+            usersAggregate: z
               .object({
                 args: z
                   .object({
-                    values: z
+                    where: z
                       .object({
-                        type: z.instanceof(GraphQLNonNull),
+                        type: z.instanceof(GraphQLInputObjectType),
                       })
                       .strict(),
                   })
@@ -2080,31 +2537,21 @@ describe("Returned data tests", () => {
                 type: z.instanceof(GraphQLNonNull),
               })
               .strict(),
-            insertIntoUsersSingle: z
+            usersGroupBy: z
               .object({
                 args: z
                   .object({
-                    values: z
+                    by: z
                       .object({
                         type: z.instanceof(GraphQLNonNull),
                       })
                       .strict(),
-                  })
-                  .strict(),
-                resolve: z.function(),
-                type: z.instanceof(GraphQLObjectType),
-              })
-              .strict(),
-            updateUsers: z
-              .object({
-                args: z
-                  .object({
-                    set: z
+                    where: z
                       .object({
-                        type: z.instanceof(GraphQLNonNull),
+                        type: z.instanceof(GraphQLInputObjectType),
                       })
                       .strict(),
-                    where: z
+                    having: z
                       .object({
                         type: z.instanceof(GraphQLInputObjectType),
                       })
@@ -2115,7 +2562,7 @@ describe("Returned data tests", () => {
                 type: z.instanceof(GraphQLNonNull),
               })
               .strict(),
-            deleteFromUsers: z
+            postsAggregate: z
               .object({
                 args: z
                   .object({
@@ -2130,41 +2577,51 @@ describe("Returned data tests", () => {
                 type: z.instanceof(GraphQLNonNull),
               })
               .strict(),
-            insertIntoPosts: z
+            postsGroupBy: z
               .object({
                 args: z
                   .object({
-                    values: z
+                    by: z
                       .object({
                         type: z.instanceof(GraphQLNonNull),
                       })
                       .strict(),
+                    where: z
+                      .object({
+                        type: z.instanceof(GraphQLInputObjectType),
+                      })
+                      .strict(),
+                    having: z
+                      .object({
+                        type: z.instanceof(GraphQLInputObjectType),
+                      })
+                      .strict(),
                   })
                   .strict(),
                 resolve: z.function(),
                 type: z.instanceof(GraphQLNonNull),
               })
               .strict(),
-            insertIntoPostsSingle: z
+            customersAggregate: z
               .object({
                 args: z
                   .object({
-                    values: z
+                    where: z
                       .object({
-                        type: z.instanceof(GraphQLNonNull),
+                        type: z.instanceof(GraphQLInputObjectType),
                       })
                       .strict(),
                   })
                   .strict(),
                 resolve: z.function(),
-                type: z.instanceof(GraphQLObjectType),
+                type: z.instanceof(GraphQLNonNull),
               })
               .strict(),
-            updatePosts: z
+            customersGroupBy: z
               .object({
                 args: z
                   .object({
-                    set: z
+                    by: z
                       .object({
                         type: z.instanceof(GraphQLNonNull),
                       })
@@ -2174,17 +2631,7 @@ describe("Returned data tests", () => {
                         type: z.instanceof(GraphQLInputObjectType),
                       })
                       .strict(),
-                  })
-                  .strict(),
-                resolve: z.function(),
-                type: z.instanceof(GraphQLNonNull),
-              })
-              .strict(),
-            deleteFromPosts: z
-              .object({
-                args: z
-                  .object({
-                    where: z
+                    having: z
                       .object({
                         type: z.instanceof(GraphQLInputObjectType),
                       })
@@ -2195,7 +2642,11 @@ describe("Returned data tests", () => {
                 type: z.instanceof(GraphQLNonNull),
               })
               .strict(),
-            insertIntoCustomers: z
+          })
+          .strict(),
+        mutations: z
+          .object({
+            insertIntoUsers: z
               .object({
                 args: z
                   .object({
@@ -2210,7 +2661,7 @@ describe("Returned data tests", () => {
                 type: z.instanceof(GraphQLNonNull),
               })
               .strict(),
-            insertIntoCustomersSingle: z
+            insertIntoUsersSingle: z
               .object({
                 args: z
                   .object({
@@ -2225,7 +2676,7 @@ describe("Returned data tests", () => {
                 type: z.instanceof(GraphQLObjectType),
               })
               .strict(),
-            updateCustomers: z
+            updateUsers: z
               .object({
                 args: z
                   .object({
@@ -2245,7 +2696,7 @@ describe("Returned data tests", () => {
                 type: z.instanceof(GraphQLNonNull),
               })
               .strict(),
-            deleteFromCustomers: z
+            deleteFromUsers: z
               .object({
                 args: z
                   .object({
@@ -2260,17 +2711,147 @@ describe("Returned data tests", () => {
                 type: z.instanceof(GraphQLNonNull),
               })
               .strict(),
-          })
-          .strict(),
-        types: z
-          .object({
-            UsersItem: z.instanceof(GraphQLObjectType),
-            UsersSelectItem: z.instanceof(GraphQLObjectType),
-            PostsItem: z.instanceof(GraphQLObjectType),
-            PostsSelectItem: z.instanceof(GraphQLObjectType),
-            CustomersItem: z.instanceof(GraphQLObjectType),
-            CustomersSelectItem: z.instanceof(GraphQLObjectType),
-          })
+            insertIntoPosts: z
+              .object({
+                args: z
+                  .object({
+                    values: z
+                      .object({
+                        type: z.instanceof(GraphQLNonNull),
+                      })
+                      .strict(),
+                  })
+                  .strict(),
+                resolve: z.function(),
+                type: z.instanceof(GraphQLNonNull),
+              })
+              .strict(),
+            insertIntoPostsSingle: z
+              .object({
+                args: z
+                  .object({
+                    values: z
+                      .object({
+                        type: z.instanceof(GraphQLNonNull),
+                      })
+                      .strict(),
+                  })
+                  .strict(),
+                resolve: z.function(),
+                type: z.instanceof(GraphQLObjectType),
+              })
+              .strict(),
+            updatePosts: z
+              .object({
+                args: z
+                  .object({
+                    set: z
+                      .object({
+                        type: z.instanceof(GraphQLNonNull),
+                      })
+                      .strict(),
+                    where: z
+                      .object({
+                        type: z.instanceof(GraphQLInputObjectType),
+                      })
+                      .strict(),
+                  })
+                  .strict(),
+                resolve: z.function(),
+                type: z.instanceof(GraphQLNonNull),
+              })
+              .strict(),
+            deleteFromPosts: z
+              .object({
+                args: z
+                  .object({
+                    where: z
+                      .object({
+                        type: z.instanceof(GraphQLInputObjectType),
+                      })
+                      .strict(),
+                  })
+                  .strict(),
+                resolve: z.function(),
+                type: z.instanceof(GraphQLNonNull),
+              })
+              .strict(),
+            insertIntoCustomers: z
+              .object({
+                args: z
+                  .object({
+                    values: z
+                      .object({
+                        type: z.instanceof(GraphQLNonNull),
+                      })
+                      .strict(),
+                  })
+                  .strict(),
+                resolve: z.function(),
+                type: z.instanceof(GraphQLNonNull),
+              })
+              .strict(),
+            insertIntoCustomersSingle: z
+              .object({
+                args: z
+                  .object({
+                    values: z
+                      .object({
+                        type: z.instanceof(GraphQLNonNull),
+                      })
+                      .strict(),
+                  })
+                  .strict(),
+                resolve: z.function(),
+                type: z.instanceof(GraphQLObjectType),
+              })
+              .strict(),
+            updateCustomers: z
+              .object({
+                args: z
+                  .object({
+                    set: z
+                      .object({
+                        type: z.instanceof(GraphQLNonNull),
+                      })
+                      .strict(),
+                    where: z
+                      .object({
+                        type: z.instanceof(GraphQLInputObjectType),
+                      })
+                      .strict(),
+                  })
+                  .strict(),
+                resolve: z.function(),
+                type: z.instanceof(GraphQLNonNull),
+              })
+              .strict(),
+            deleteFromCustomers: z
+              .object({
+                args: z
+                  .object({
+                    where: z
+                      .object({
+                        type: z.instanceof(GraphQLInputObjectType),
+                      })
+                      .strict(),
+                  })
+                  .strict(),
+                resolve: z.function(),
+                type: z.instanceof(GraphQLNonNull),
+              })
+              .strict(),
+          })
+          .strict(),
+        types: z
+          .object({
+            UsersItem: z.instanceof(GraphQLObjectType),
+            UsersSelectItem: z.instanceof(GraphQLObjectType),
+            PostsItem: z.instanceof(GraphQLObjectType),
+            PostsSelectItem: z.instanceof(GraphQLObjectType),
+            CustomersItem: z.instanceof(GraphQLObjectType),
+            CustomersSelectItem: z.instanceof(GraphQLObjectType),
+          })
           .strict(),
         inputs: z
           .object({
@@ -2557,6 +3138,26 @@ describe("Type tests", () => {
     };
     ctx.entities.inputs as inputs;
   });
+  it("Column filter operators", () => {
+    const operators = (typeName: string) =>
+      Object.keys(
+        (ctx.schema.getType(typeName) as GraphQLInputObjectType).getFields(),
+      );
+
+    expect(operators("PostsContentFilters")).toEqual(
+      expect.arrayContaining([
+        "like",
+        "notLike",
+        "startsWith",
+        "endsWith",
+        "contains",
+        "containsInsensitive",
+      ]),
+    );
+    expect(operators("PostsContentFilters")).not.toContain("ilike");
+    expect(operators("PostsIdFilters")).not.toContain("like");
+    expect(operators("PostsIdFilters")).not.toContain("contains");
+  });
 });
 
 describe("__typename only tests", () => {
@@ -3706,3 +4307,1323 @@ describe("__typename with data tests", () => {
     });
   });
 });
+
+describe("Config tests", () => {
+  it("Tables exclude", () => {
+    const { schema: configSchema } = buildSchema(ctx.db, {
+      tables: { exclude: ["Customers"] },
+    });
+
+    expect(Object.keys(configSchema.getQueryType()!.getFields()))
+      .toStrictEqual([
+        "posts",
+        "postsSingle",
+        "postsAggregate",
+        "postsGroupBy",
+        "users",
+        "usersSingle",
+        "usersAggregate",
+        "usersGroupBy",
+      ]);
+    expect(configSchema.getType("CustomersSelectItem")).toBeUndefined();
+    expect(
+      Object.keys(
+        (configSchema.getType("UsersSelectItem") as GraphQLObjectType)
+          .getFields(),
+      ),
+    ).not.toContain("customer");
+  });
+
+  it("Tables include", async () => {
+    const res = await queryWithConfig(
+      { tables: { include: ["Users", "Posts"] } },
+      /* GraphQL */ `
+			{
+				usersSingle {
+					id
+					posts {
+						id
+					}
+				}
+			}
+		`,
+    );
+
+    expect(res).toStrictEqual({
+      data: {
+        usersSingle: {
+          id: 1,
+          posts: [{ id: 1 }, { id: 2 }, { id: 3 }, { id: 6 }],
+        },
+      },
+    });
+    expect(
+      buildSchema(ctx.db, { tables: { include: ["Users"] } }).schema
+        .getMutationType()!.getFields(),
+    ).not.toHaveProperty("insertIntoCustomers");
+  });
+
+  it("Tables unknown", () => {
+    expect(() => buildSchema(ctx.db, { tables: { exclude: ["Unknown"] } }))
+      .toThrow("config.tables references unknown table 'Unknown'");
+  });
+
+  it("Columns exclude", () => {
+    const { schema: configSchema } = buildSchema(ctx.db, {
+      columns: { Users: { exclude: ["email"] } },
+    });
+
+    for (
+      const typeName of [
+        "UsersSelectItem",
+        "UsersItem",
+        "UsersInsertInput",
+        "UsersUpdateInput",
+        "UsersFilters",
+        "UsersOrderBy",
+      ]
+    ) {
+      const type = configSchema.getType(typeName) as
+        | GraphQLObjectType
+        | GraphQLInputObjectType;
+      expect(Object.keys(type.getFields())).toContain("name");
+      expect(Object.keys(type.getFields())).not.toContain("email");
+    }
+  });
+
+  it("Columns include", async () => {
+    const res = await queryWithConfig(
+      { columns: { Users: { include: ["id", "name"] } } },
+      /* GraphQL */ `
+			{
+				usersSingle {
+					id
+					name
+					email
+				}
+			}
+		`,
+    );
+
+    expect(res.data).toBeUndefined();
+    expect(res.errors[0].message).toBe(
+      'Cannot query field "email" on type "UsersSelectItem".',
+    );
+  });
+
+  it("Columns unknown", () => {
+    expect(() =>
+      buildSchema(ctx.db, { columns: { Users: { exclude: ["unknown"] } } })
+    ).toThrow("config.columns.Users references unknown column 'unknown'");
+    expect(() =>
+      buildSchema(ctx.db, { columns: { Unknown: { exclude: ["id"] } } })
+    ).toThrow("config.columns references unknown table 'Unknown'");
+    expect(() => buildSchema(ctx.db, { columns: { Posts: { include: [] } } }))
+      .toThrow("config.columns.Posts hides every column of the table");
+  });
+
+  it("Operations toggles", () => {
+    const { schema: configSchema, entities } = buildSchema(ctx.db, {
+      operations: {
+        Customers: { querySingle: false },
+        Users: {
+          insert: false,
+          insertSingle: false,
+          update: false,
+          delete: false,
+        },
+      },
+    });
+
+    expect(Object.keys(configSchema.getQueryType()!.getFields()))
+      .toStrictEqual([
+        "customers",
+        "customersAggregate",
+        "customersGroupBy",
+        "posts",
+        "postsSingle",
+        "postsAggregate",
+        "postsGroupBy",
+        "users",
+        "usersSingle",
+        "usersAggregate",
+        "usersGroupBy",
+      ]);
+    expect(Object.keys(configSchema.getMutationType()!.getFields()))
+      .not.toContain("insertIntoUsers");
+    expect(Object.keys(configSchema.getMutationType()!.getFields()))
+      .toContain("insertIntoPosts");
+    expect(entities.queries.users).toBeDefined();
+    expect(
+      // @ts-expect-error - disabled operations are omitted from the typed entities
+      entities.mutations.insertIntoUsers,
+    ).toBeUndefined();
+    expect(
+      // @ts-expect-error - disabled operations are omitted from the typed entities
+      entities.queries.customersSingle,
+    ).toBeUndefined();
+  });
+
+  it("Operations without mutations", () => {
+    const readOnly = {
+      insert: false,
+      insertSingle: false,
+      update: false,
+      delete: false,
+    };
+    const { schema: configSchema } = buildSchema(ctx.db, {
+      operations: { Customers: readOnly, Posts: readOnly, Users: readOnly },
+    });
+
+    expect(configSchema.getMutationType()).toBeUndefined();
+  });
+
+  it("Operations invalid", () => {
+    expect(() =>
+      buildSchema(ctx.db, { operations: { Unknown: { query: false } } })
+    ).toThrow("config.operations references unknown table 'Unknown'");
+    expect(() =>
+      buildSchema(ctx.db, {
+        tables: { include: ["Posts"] },
+        operations: {
+          Posts: {
+            query: false,
+            querySingle: false,
+            aggregate: false,
+            groupBy: false,
+          },
+        },
+      })
+    ).toThrow("config.operations disables every query");
+  });
+
+  it("Naming presets", async () => {
+    const config = {
+      naming: {
+        fields: "snake_case",
+        types: "snake_case",
+        tables: "singularize",
+      },
+    } as const;
+    const { schema: configSchema, entities } = buildSchema(ctx.db, config);
+
+    expect(Object.keys(configSchema.getQueryType()!.getFields()))
+      .toStrictEqual([
+        "customer",
+        "customer_single",
+        "customer_aggregate",
+        "customer_group_by",
+        "post",
+        "post_single",
+        "post_aggregate",
+        "post_group_by",
+        "user",
+        "user_single",
+        "user_aggregate",
+        "user_group_by",
+      ]);
+    expect(Object.keys(configSchema.getMutationType()!.getFields()))
+      .toContain("insert_into_user_single");
+    expect(configSchema.getType("user_select_item")).toBeDefined();
+    expect(configSchema.getType("user_posts_relation")).toBeDefined();
+    expect(configSchema.getType("user_role_enum")).toBeDefined();
+    expect(entities.queries.user_single).toBeDefined();
+    expect(entities.inputs.post_filters).toBeDefined();
+
+    const res = await queryWithConfig(
+      config,
+      /* GraphQL */ `
+			{
+				user_single(where: { id: { eq: 1 } }) {
+					id
+					posts(limit: 1) {
+						id
+						author {
+							id
+						}
+					}
+				}
+			}
+		`,
+    );
+
+    expect(res).toStrictEqual({
+      data: {
+        user_single: { id: 1, posts: [{ id: 1, author: { id: 1 } }] },
+      },
+    });
+  });
+
+  it("Naming functions", () => {
+    const { schema: configSchema } = buildSchema(ctx.db, {
+      naming: {
+        fields: (parts) => parts.join("_"),
+        tables: (tableName) => `app${tableName}`,
+      },
+    });
+
+    expect(Object.keys(configSchema.getQueryType()!.getFields()))
+      .toContain("appUsers_single");
+    expect(configSchema.getType("AppUsersSelectItem")).toBeDefined();
+    expect(() =>
+      buildSchema(ctx.db, {
+        naming: { fields: "kebab-case" as "camelCase" },
+      })
+    ).toThrow("config.naming.fields is supposed to be a function");
+  });
+
+  it("Naming inflection", () => {
+    const table = (name: string) =>
+      sqliteTable(name, { id: integer("id").primaryKey() });
+    const singularDb = drizzle(ctx.client, {
+      schema: {
+        statuses: table("statuses"),
+        series: table("series"),
+        people: table("people"),
+        userAnalyses: table("user_analyses"),
+      },
+    });
+    const { schema: singularSchema } = buildSchema(singularDb, {
+      naming: { tables: "singularize" },
+    });
+
+    expect(Object.keys(singularSchema.getQueryType()!.getFields()))
+      .toContain("statusSingle");
+    expect(singularSchema.getType("StatusSelectItem")).toBeDefined();
+    expect(singularSchema.getType("SeriesSelectItem")).toBeDefined();
+    expect(singularSchema.getType("PersonSelectItem")).toBeDefined();
+    expect(singularSchema.getType("UserAnalysisSelectItem")).toBeDefined();
+
+    const pluralDb = drizzle(ctx.client, {
+      schema: {
+        status: table("status"),
+        data: table("data"),
+        person: table("person"),
+      },
+    });
+    const { schema: pluralSchema } = buildSchema(pluralDb, {
+      naming: { tables: "pluralize" },
+    });
+
+    expect(pluralSchema.getType("StatusesSelectItem")).toBeDefined();
+    expect(pluralSchema.getType("DataSelectItem")).toBeDefined();
+    expect(pluralSchema.getType("PeopleSelectItem")).toBeDefined();
+
+    const collidingDb = drizzle(ctx.client, {
+      schema: { user: table("user"), users: table("users") },
+    });
+    expect(() =>
+      buildSchema(collidingDb, { naming: { tables: "singularize" } })
+    ).toThrow("Tables 'user' and 'users' are both named 'User'!");
+  });
+
+  it("Naming enums", async () => {
+    const res = await queryWithConfig(
+      { naming: { enums: { Users: { role: "UserRole" } } } },
+      /* GraphQL */ `
+			{
+				__type(name: "UserRole") {
+					enumValues {
+						name
+					}
+				}
+				users(where: { role: { eq: admin } }) {
+					id
+				}
+			}
+		`,
+    );
+
+    expect(res).toStrictEqual({
+      data: {
+        __type: { enumValues: [{ name: "admin" }, { name: "user" }] },
+        users: [{ id: 1 }],
+      },
+    });
+
+    const Accounts = sqliteTable("accounts", {
+      id: integer("id").primaryKey(),
+      role: text("role", { enum: ["admin", "user"] }),
+    });
+    const Members = sqliteTable("members", {
+      id: integer("id").primaryKey(),
+      role: text("role", { enum: ["admin", "user"] }),
+      level: text("level", { enum: ["low", "high"] }),
+    });
+    const enumsDb = drizzle(ctx.client, { schema: { Accounts, Members } });
+    const { schema: sharedSchema } = buildSchema(enumsDb, {
+      naming: {
+        enums: { Accounts: { role: "Role" }, Members: { role: "Role" } },
+      },
+    });
+    const fieldType = (typeName: string) =>
+      (sharedSchema.getType(typeName) as GraphQLObjectType).getFields().role
+        .type;
+
+    expect(fieldType("AccountsSelectItem")).toBe(
+      fieldType("MembersSelectItem"),
+    );
+    expect(String(fieldType("MembersSelectItem"))).toBe("Role");
+    expect(
+      (sharedSchema.getType("MembersSelectItem") as GraphQLObjectType)
+        .getFields().level.type.toString(),
+    ).toBe("MembersLevelEnum");
+
+    expect(() =>
+      buildSchema(enumsDb, {
+        naming: {
+          enums: { Accounts: { role: "Role" }, Members: { level: "Role" } },
+        },
+      })
+    ).toThrow(
+      "Enum type 'Role' is generated for columns with different values, including Members.level",
+    );
+    expect(() =>
+      buildSchema(enumsDb, { naming: { enums: { Unknown: { role: "Role" } } } })
+    ).toThrow("config.naming.enums references unknown table 'Unknown'");
+    expect(() =>
+      buildSchema(enumsDb, { naming: { enums: { Members: { id: "Id" } } } })
+    ).toThrow(
+      "config.naming.enums.Members references 'id', which is not an inline enum column",
+    );
+  });
+
+  it("Naming enum values", async () => {
+    const Tasks = sqliteTable("tasks", {
+      id: integer("id").primaryKey(),
+      status: text("status", {
+        enum: ["in-progress", "2fa", "done", "null", "IN PROGRESS"],
+      }),
+    });
+    const tasksDb = drizzle(ctx.client, { schema: { Tasks } });
+    await tasksDb.run(
+      sql`CREATE TABLE \`tasks\` (\`id\` integer PRIMARY KEY, \`status\` text);`,
+    );
+
+    try {
+      const config: BuildSchemaConfig = {
+        naming: {
+          enumValues: {
+            TasksStatusEnum: { "IN PROGRESS": "IN_PROGRESS_LEGACY" },
+          },
+        },
+      };
+      const { schema: tasksSchema } = buildSchema(tasksDb, config);
+      const res = await graphql({
+        schema: tasksSchema,
+        source: /* GraphQL */ `
+					mutation {
+						insertIntoTasks(values: [{ id: 1, status: IN_PROGRESS }, { id: 2, status: IN_PROGRESS_LEGACY }]) {
+							status
+						}
+					}
+				`,
+      });
+
+      expect(
+        (tasksSchema.getType("TasksStatusEnum") as GraphQLEnumType).getValues()
+          .map(({ name }) => name),
+      ).toStrictEqual([
+        "IN_PROGRESS",
+        "_2fa",
+        "done",
+        "_null",
+        "IN_PROGRESS_LEGACY",
+      ]);
+      expect(JSON.parse(JSON.stringify(res))).toStrictEqual({
+        data: {
+          insertIntoTasks: [{ status: "IN_PROGRESS" }, {
+            status: "IN_PROGRESS_LEGACY",
+          }],
+        },
+      });
+      expect(
+        (await tasksDb.select().from(Tasks)).map(({ status }) => status),
+      ).toStrictEqual(["in-progress", "IN PROGRESS"]);
+
+      expect(() => buildSchema(tasksDb)).toThrow(
+        "Values 'in-progress' and 'IN PROGRESS' of enum type 'TasksStatusEnum' are both named 'IN_PROGRESS'",
+      );
+      expect(() =>
+        buildSchema(tasksDb, {
+          naming: {
+            enumValues: { TasksStatusEnum: { "IN PROGRESS": "2done" } },
+          },
+        })
+      ).toThrow(
+        "config.naming.enumValues.TasksStatusEnum gives value 'IN PROGRESS' the invalid name '2done'",
+      );
+      expect(() =>
+        buildSchema(tasksDb, {
+          naming: { enumValues: { TasksStatusEnum: { todo: "TODO" } } },
+        })
+      ).toThrow(
+        "config.naming.enumValues.TasksStatusEnum references unknown value 'todo'",
+      );
+    } finally {
+      await tasksDb.run(sql`DROP TABLE IF EXISTS \`tasks\`;`);
+    }
+  });
+
+  it("Connections", async () => {
+    const config = { connections: true } as const;
+    const { schema: configSchema, entities } = buildSchema(ctx.db, config);
+
+    expect(configSchema.getType("PostsConnection")).toBeDefined();
+    expect(configSchema.getType("UsersPostsRelationEdge")).toBeDefined();
+    expect(Object.keys(entities.queries.posts.args)).toStrictEqual([
+      "orderBy",
+      "where",
+      "first",
+      "after",
+      "last",
+      "before",
+    ]);
+
+    const firstPage = await queryWithConfig(
+      config,
+      /* GraphQL */ `
+			{
+				posts(first: 2, where: { authorId: { eq: 1 } }) {
+					edges {
+						node {
+							content
+						}
+					}
+					pageInfo {
+						hasNextPage
+						hasPreviousPage
+						endCursor
+					}
+				}
+			}
+		`,
+    );
+
+    expect(firstPage.data.posts.edges).toStrictEqual([
+      { node: { content: "1MESSAGE" } },
+      { node: { content: "2MESSAGE" } },
+    ]);
+    expect(firstPage.data.posts.pageInfo).toMatchObject({
+      hasNextPage: true,
+      hasPreviousPage: false,
+    });
+
+    const nextPage = await queryWithConfig(
+      config,
+      /* GraphQL */ `
+			{
+				posts(first: 2, after: "${firstPage.data.posts.pageInfo.endCursor}", where: { authorId: { eq: 1 } }) {
+					edges {
+						node {
+							id
+						}
+					}
+					pageInfo {
+						hasNextPage
+						hasPreviousPage
+					}
+				}
+			}
+		`,
+    );
+
+    expect(nextPage).toStrictEqual({
+      data: {
+        posts: {
+          edges: [{ node: { id: 3 } }, { node: { id: 6 } }],
+          pageInfo: { hasNextPage: false, hasPreviousPage: true },
+        },
+      },
+    });
+
+    const lastPage = await queryWithConfig(
+      config,
+      /* GraphQL */ `
+			{
+				posts(last: 2, orderBy: { content: { direction: desc, priority: 1 } }) {
+					edges {
+						node {
+							id
+						}
+					}
+					pageInfo {
+						hasNextPage
+						hasPreviousPage
+					}
+				}
+			}
+		`,
+    );
+
+    expect(lastPage).toStrictEqual({
+      data: {
+        posts: {
+          edges: [{ node: { id: 1 } }, { node: { id: 4 } }],
+          pageInfo: { hasNextPage: false, hasPreviousPage: true },
+        },
+      },
+    });
+  });
+
+  it("Connections with nulls and relations", async () => {
+    const config = { connections: true } as const;
+    const source = (after: string) => /* GraphQL */ `
+			{
+				users(first: 1, after: ${after}, orderBy: { email: { direction: desc, priority: 1 } }) {
+					edges {
+						cursor
+						node {
+							id
+							posts(last: 1) {
+								edges {
+									node {
+										id
+									}
+								}
+								pageInfo {
+									hasPreviousPage
+								}
+							}
+						}
+					}
+				}
+			}
+		`;
+
+    const ids: number[] = [];
+    const lastPosts: unknown[] = [];
+    let after = "null";
+    for (let page = 0; page < 4; page++) {
+      const res = await queryWithConfig(config, source(after));
+      const [edge] = res.data.users.edges;
+      if (!edge) break;
+      ids.push(edge.node.id);
+      lastPosts.push(edge.node.posts);
+      after = `"${edge.cursor}"`;
+    }
+
+    // Nulls sort first when descending, users 2 and 5 have no email.
+    expect(ids).toStrictEqual([2, 5, 1]);
+    expect(lastPosts).toStrictEqual([
+      { edges: [], pageInfo: { hasPreviousPage: false } },
+      { edges: [{ node: { id: 5 } }], pageInfo: { hasPreviousPage: true } },
+      { edges: [{ node: { id: 6 } }], pageInfo: { hasPreviousPage: true } },
+    ]);
+
+    const res = await queryWithConfig(
+      config,
+      /* GraphQL */ `
+			{
+				users(after: "invalid") {
+					edges {
+						cursor
+					}
+				}
+			}
+		`,
+    );
+
+    expect(res.errors[0].message).toBe(
+      "Cursor 'invalid' is not valid for the requested order!",
+    );
+  });
+
+  it("Connections with nulls placement", async () => {
+    const config = { connections: true } as const;
+    const source = (args: string) => /* GraphQL */ `
+			{
+				users(${args}, orderBy: { email: { direction: asc, priority: 1, nulls: last } }) {
+					edges {
+						cursor
+						node {
+							id
+						}
+					}
+				}
+			}
+		`;
+
+    const ids: number[] = [];
+    const cursors: string[] = [];
+    let after = "null";
+    for (let page = 0; page < 4; page++) {
+      const res = await queryWithConfig(
+        config,
+        source(`first: 1, after: ${after}`),
+      );
+      const [edge] = res.data.users.edges;
+      if (!edge) break;
+      ids.push(edge.node.id);
+      cursors.push(edge.cursor);
+      after = `"${edge.cursor}"`;
+    }
+
+    expect(ids).toStrictEqual([1, 2, 5]);
+
+    const res = await queryWithConfig(
+      config,
+      source(`last: 2, before: "${cursors[2]}"`),
+    );
+
+    expect(
+      res.data.users.edges.map((edge: any) => edge.node.id),
+    ).toStrictEqual([1, 2]);
+  });
+
+  it("Total count with connections", async () => {
+    const res = await queryWithConfig(
+      { connections: true, totalCount: true } as const,
+      /* GraphQL */ `
+			{
+				users(first: 2) {
+					totalCount
+					edges {
+						node {
+							id
+							posts(first: 1, where: { content: { ne: "2MESSAGE" } }) {
+								totalCount
+								edges {
+									node {
+										id
+									}
+								}
+							}
+						}
+					}
+				}
+				filtered: users(first: 1, where: { id: { gt: 1 } }) {
+					totalCount
+				}
+			}
+		`,
+    );
+
+    expect(res).toStrictEqual({
+      data: {
+        users: {
+          totalCount: 3,
+          edges: [
+            {
+              node: {
+                id: 1,
+                posts: { totalCount: 3, edges: [{ node: { id: 1 } }] },
+              },
+            },
+            { node: { id: 2, posts: { totalCount: 0, edges: [] } } },
+          ],
+        },
+        filtered: { totalCount: 2 },
+      },
+    });
+  });
+
+  it("Total count with lists", async () => {
+    const res = await queryWithConfig(
+      { totalCount: true },
+      /* GraphQL */ `
+			{
+				users {
+					id
+					postsCount
+					posts(limit: 1) {
+						id
+					}
+				}
+				postsSingle(where: { id: { eq: 4 } }) {
+					author {
+						postsCount(where: { content: { eq: "1MESSAGE" } })
+					}
+				}
+			}
+		`,
+    );
+
+    expect(res).toStrictEqual({
+      data: {
+        users: [
+          { id: 1, postsCount: 4, posts: [{ id: 1 }] },
+          { id: 2, postsCount: 0, posts: [] },
+          { id: 5, postsCount: 2, posts: [{ id: 4 }] },
+        ],
+        postsSingle: { author: { postsCount: 1 } },
+      },
+    });
+  });
+
+  it("Total count with aliases", async () => {
+    const res = await queryWithConfig(
+      { totalCount: true },
+      /* GraphQL */ `
+			{
+				users {
+					id
+					a: postsCount
+					b: postsCount(where: { id: { gt: 3 } })
+				}
+			}
+		`,
+    );
+
+    expect(res).toStrictEqual({
+      data: {
+        users: [
+          { id: 1, a: 4, b: 1 },
+          { id: 2, a: 0, b: 0 },
+          { id: 5, a: 2, b: 2 },
+        ],
+      },
+    });
+  });
+
+  it("Total count with list filters", async () => {
+    const res = await queryWithConfig(
+      { totalCount: true },
+      /* GraphQL */ `
+			{
+				users {
+					id
+					postsCount
+					ownCount: postsCount(where: { id: { lt: 3 } })
+					posts(where: { content: { eq: "1MESSAGE" } }, limit: 0) {
+						id
+					}
+				}
+			}
+		`,
+    );
+
+    expect(res).toStrictEqual({
+      data: {
+        users: [
+          { id: 1, postsCount: 1, ownCount: 2, posts: [] },
+          { id: 2, postsCount: 0, ownCount: 0, posts: [] },
+          { id: 5, postsCount: 1, ownCount: 0, posts: [] },
+        ],
+      },
+    });
+  });
+
+  it("Total count disabled", async () => {
+    const res = await queryWithConfig(
+      {},
+      /* GraphQL */ `
+			{
+				users {
+					postsCount
+				}
+			}
+		`,
+    );
+
+    expect(res.errors[0].message).toBe(
+      'Cannot query field "postsCount" on type "UsersSelectItem". Did you mean "posts"?',
+    );
+  });
+
+  it("Full-text search", async () => {
+    await ctx.db.update(schema.Posts).set({ content: "drizzle meets graphql" })
+      .where(sql`${schema.Posts.id} = 1`);
+    await ctx.db.update(schema.Posts).set({ content: "graphql graphql schema" })
+      .where(sql`${schema.Posts.id} = 2`);
+    await ctx.db.update(schema.Posts).set({ content: "sqlite" })
+      .where(sql`${schema.Posts.id} = 3`);
+    await ctx.db.run(
+      sql`CREATE VIRTUAL TABLE \`posts_search\` USING fts5(\`content\`);`,
+    );
+    await ctx.db.run(
+      sql`INSERT INTO \`posts_search\` (rowid, \`content\`) SELECT \`id\`, \`content\` FROM \`posts\`;`,
+    );
+
+    try {
+      const res = await queryWithConfig(
+        {
+          search: { Posts: { columns: ["content"], ftsTable: "posts_search" } },
+        },
+        /* GraphQL */ `
+				{
+					posts(search: { query: "GraphQL" }, orderBy: { id: { direction: asc, priority: 1 } }) {
+						id
+					}
+					byRelevance: posts(search: { query: "graphql", relevance: { direction: desc, priority: 1 } }) {
+						id
+					}
+					filtered: posts(search: { query: "graphql" }, where: { id: { ne: 2 } }) {
+						id
+					}
+					allWords: posts(search: { query: "graphql OR sqlite" }) {
+						id
+					}
+					postsSingle(search: { query: "sqlite" }) {
+						id
+						content
+					}
+				}
+			`,
+      );
+
+      expect(res).toStrictEqual({
+        data: {
+          posts: [{ id: 1 }, { id: 2 }],
+          byRelevance: [{ id: 2 }, { id: 1 }],
+          filtered: [{ id: 1 }],
+          allWords: [],
+          postsSingle: { id: 3, content: "sqlite" },
+        },
+      });
+    } finally {
+      await ctx.db.run(sql`DROP TABLE IF EXISTS \`posts_search\`;`);
+    }
+  });
+
+  it("Full-text search config validation", async () => {
+    const res = await queryWithConfig(
+      {},
+      /* GraphQL */ `
+			{
+				posts(search: { query: "graphql" }) {
+					id
+				}
+			}
+		`,
+    );
+
+    expect(res.errors[0].message).toBe(
+      'Unknown argument "search" on field "Query.posts".',
+    );
+    expect(() =>
+      buildSchema(ctx.db, {
+        search: { Unknown: { columns: ["id"], ftsTable: "search" } },
+      })
+    ).toThrow("config.search references unknown table 'Unknown'");
+    expect(() =>
+      buildSchema(ctx.db, {
+        columns: { Posts: { exclude: ["content"] } },
+        search: { Posts: { columns: ["content"], ftsTable: "posts_search" } },
+      })
+    ).toThrow(
+      "config.search.Posts references unknown or hidden column 'content'",
+    );
+    expect(() =>
+      buildSchema(ctx.db, { search: { Posts: { columns: ["content"] } } })
+    )
+      .toThrow("config.search.Posts requires ftsTable on SQLite");
+  });
+
+  it("JSON scalar", async () => {
+    const { schema: configSchema, entities } = buildSchema(ctx.db, {
+      scalars: { json: "scalar" },
+    });
+    type ScalarUser = Awaited<
+      ReturnType<typeof entities.queries.users.resolve>
+    >[number];
+    type StringUser = Awaited<
+      ReturnType<typeof ctx.entities.queries.users.resolve>
+    >[number];
+    const scalarJson: ScalarUser["textJson"] = { field: "value" };
+    // @ts-expect-error - JSON columns are typed as strings by default
+    const stringJson: StringUser["textJson"] = { field: "value" };
+    expect(scalarJson).toStrictEqual(stringJson);
+
+    const res = await graphql({
+      schema: configSchema,
+      source: /* GraphQL */ `
+				mutation ($json: JSON) {
+					literal: insertIntoUsersSingle(values: { id: 3, name: "ThirdUser", createdAt: "2024-04-02T06:44:41.785Z", textJson: { tags: ["a", 1] } }) {
+						textJson
+					}
+					variable: insertIntoUsersSingle(values: { id: 4, name: "FourthUser", createdAt: "2024-04-02T06:44:41.785Z", textJson: $json }) {
+						textJson
+					}
+				}
+			`,
+      variableValues: { json: { nested: { flag: true } } },
+    });
+
+    expect(JSON.parse(JSON.stringify(res))).toStrictEqual({
+      data: {
+        literal: { textJson: { tags: ["a", 1] } },
+        variable: { textJson: { nested: { flag: true } } },
+      },
+    });
+
+    const filtered = await queryWithConfig(
+      { scalars: { json: "scalar" } },
+      /* GraphQL */ `
+			{
+				eq: users(where: { textJson: { eq: { field: "value" } } }) {
+					id
+					textJson
+				}
+				pathEquals: users(where: { textJson: { pathEquals: { path: ["tags", "1"], value: 1 } } }) {
+					id
+				}
+				jsonContains: users(where: { textJson: { jsonContains: { nested: {} } } }) {
+					id
+				}
+			}
+		`,
+    );
+
+    expect(filtered).toStrictEqual({
+      data: {
+        eq: [{ id: 1, textJson: { field: "value" } }],
+        pathEquals: [{ id: 3 }],
+        jsonContains: [{ id: 4 }],
+      },
+    });
+    expect(
+      String(
+        (configSchema.getType("UsersTextJsonFilters") as GraphQLInputObjectType)
+          .getFields().pathEquals!.type,
+      ),
+    ).toBe("JsonScalarPathFilters");
+
+    const stringified = await queryWithConfig(
+      {},
+      /* GraphQL */ `
+			{
+				usersSingle(where: { id: { eq: 1 } }) {
+					textJson
+				}
+			}
+		`,
+    );
+
+    expect(stringified).toStrictEqual({
+      data: { usersSingle: { textJson: '{"field":"value"}' } },
+    });
+  });
+
+  it("Date scalars", async () => {
+    const { schema: configSchema } = buildSchema(ctx.db, {
+      scalars: { dates: "scalar" },
+    });
+    const usersFields =
+      (configSchema.getType("UsersSelectItem") as GraphQLObjectType)
+        .getFields();
+
+    expect(String(usersFields.createdAt.type)).toBe("DateTime");
+    expect(String(usersFields.createdAtMs.type)).toBe("DateTime");
+
+    const res = await queryWithConfig(
+      { scalars: { dates: "scalar" } },
+      /* GraphQL */ `
+			{
+				usersSingle(where: { id: { eq: 1 } }) {
+					createdAt
+					createdAtMs
+				}
+				eq: users(where: { createdAtMs: { eq: "2024-04-02T06:44:41.785Z" } }) {
+					id
+				}
+				offset: users(where: { createdAtMs: { eq: "2024-04-02T08:44:41.785+02:00" } }) {
+					id
+				}
+			}
+		`,
+    );
+
+    expect(res).toStrictEqual({
+      data: {
+        usersSingle: {
+          createdAt: "2024-04-02T06:44:41.000Z",
+          createdAtMs: "2024-04-02T06:44:41.785Z",
+        },
+        eq: [{ id: 1 }],
+        offset: [{ id: 1 }],
+      },
+    });
+
+    const mutation = await queryWithConfig(
+      { scalars: { dates: "scalar" } },
+      /* GraphQL */ `
+			mutation {
+				insertIntoUsersSingle(values: { id: 3, name: "ThirdUser", createdAt: "2024-04-03T00:00:00Z" }) {
+					createdAt
+				}
+			}
+		`,
+    );
+
+    expect(mutation).toStrictEqual({
+      data: {
+        insertIntoUsersSingle: { createdAt: "2024-04-03T00:00:00.000Z" },
+      },
+    });
+
+    const invalid = await queryWithConfig(
+      { scalars: { dates: "scalar" } },
+      /* GraphQL */ `
+			{
+				invalidDay: users(where: { createdAt: { eq: "2024-02-30T00:00:00Z" } }) {
+					id
+				}
+				missingOffset: users(where: { createdAt: { eq: "2024-04-02 06:44:41" } }) {
+					id
+				}
+			}
+		`,
+    );
+
+    expect(invalid.errors.map((e: { message: string }) => e.message))
+      .toStrictEqual([
+        'DateTime cannot represent value: "2024-02-30T00:00:00Z"',
+        'DateTime cannot represent value: "2024-04-02 06:44:41"',
+      ]);
+
+    expect(GraphQLDate.serialize(new Date("2024-04-02T00:00:00.000Z")))
+      .toBe("2024-04-02");
+    expect(GraphQLDate.serialize("2024-04-02")).toBe("2024-04-02");
+    expect(() => GraphQLDate.parseValue("2024-4-2")).toThrow(
+      'Date cannot represent value: "2024-4-2"',
+    );
+    expect(GraphQLTime.parseValue("23:59:59.5+02:00")).toBe(
+      "23:59:59.5+02:00",
+    );
+    expect(() => GraphQLTime.parseValue("24:00:00")).toThrow(
+      'Time cannot represent value: "24:00:00"',
+    );
+    expect(GraphQLTime.serialize("06:44:41")).toBe("06:44:41");
+    expect(GraphQLTime.serialize("06:44:41.785+02")).toBe(
+      "06:44:41.785+02:00",
+    );
+    expect(GraphQLTime.serialize("06:44:41-0530")).toBe("06:44:41-05:30");
+    expect(GraphQLTime.serialize("06:44:41Z")).toBe("06:44:41Z");
+    expect(() => GraphQLTime.serialize("06:44:41+25")).toThrow(
+      "Time cannot represent value: 06:44:41+25",
+    );
+  });
+
+  it("Numeric scalars", async () => {
+    const { schema: configSchema } = buildSchema(ctx.db, {
+      scalars: { numerics: "scalar" },
+    });
+    const usersFields =
+      (configSchema.getType("UsersSelectItem") as GraphQLObjectType)
+        .getFields();
+
+    expect(String(usersFields.blobBigInt.type)).toBe("BigInt");
+    expect(String(usersFields.numeric.type)).toBe("Decimal");
+
+    const res = await queryWithConfig(
+      { scalars: { numerics: "scalar" } },
+      /* GraphQL */ `
+			mutation {
+				insertIntoUsersSingle(values: { id: 3, name: "ThirdUser", blobBigInt: 9007199254740993, numeric: 12.5 }) {
+					blobBigInt
+					numeric
+				}
+			}
+		`,
+    );
+
+    expect(res).toStrictEqual({
+      data: {
+        insertIntoUsersSingle: {
+          blobBigInt: "9007199254740993",
+          numeric: "12.5",
+        },
+      },
+    });
+
+    const filtered = await queryWithConfig(
+      { scalars: { numerics: "scalar" } },
+      /* GraphQL */ `
+			{
+				decimal: users(where: { numeric: { gt: 100, lte: "250.2" } }) {
+					id
+				}
+				decimalIn: users(where: { numeric: { inArray: [12.5, "250.20"] } }) {
+					id
+				}
+			}
+		`,
+    );
+
+    expect(filtered).toStrictEqual({
+      data: {
+        decimal: [{ id: 1 }],
+        decimalIn: [{ id: 1 }, { id: 3 }],
+      },
+    });
+
+    const aggregated = await queryWithConfig(
+      { scalars: { numerics: "scalar" } },
+      /* GraphQL */ `
+			{
+				usersAggregate {
+					sum {
+						numeric
+					}
+					avg {
+						numeric
+					}
+					max {
+						numeric
+					}
+				}
+			}
+		`,
+    );
+
+    expect(aggregated).toStrictEqual({
+      data: {
+        usersAggregate: {
+          sum: { numeric: "262.7" },
+          avg: { numeric: "131.35" },
+          max: { numeric: "250.2" },
+        },
+      },
+    });
+    expect(
+      String(
+        (configSchema.getType("UsersAggregateAvg") as GraphQLObjectType)
+          .getFields().numeric!.type,
+      ),
+    ).toBe("Decimal");
+
+    expect(GraphQLBigInt.serialize(2n ** 64n)).toBe("18446744073709551616");
+    expect(() => GraphQLBigInt.parseValue(2 ** 64)).toThrow(
+      "BigInt cannot represent value: 18446744073709552000",
+    );
+    expect(() => GraphQLBigInt.parseValue("1.5")).toThrow(
+      'BigInt cannot represent value: "1.5"',
+    );
+    expect(GraphQLDecimal.parseValue("-0.1e-3")).toBe("-0.1e-3");
+    expect(() => GraphQLDecimal.parseValue("1,5")).toThrow(
+      'Decimal cannot represent value: "1,5"',
+    );
+  });
+
+  it("Bytes scalar", async () => {
+    const Files = sqliteTable("files", {
+      id: integer("id").primaryKey(),
+      data: blob("data", { mode: "buffer" }),
+    });
+    const filesDb = drizzle(ctx.client, { schema: { Files } });
+    await filesDb.run(
+      sql`CREATE TABLE \`files\` (\`id\` integer PRIMARY KEY, \`data\` blob);`,
+    );
+
+    try {
+      const query = async (config: BuildSchemaConfig, source: string) => {
+        const { schema: configSchema } = buildSchema(filesDb, config);
+        return JSON.parse(
+          JSON.stringify(await graphql({ schema: configSchema, source })),
+        );
+      };
+
+      expect(
+        await query(
+          { scalars: { bytes: "base64" } },
+          /* GraphQL */ `
+					mutation {
+						insertIntoFilesSingle(values: { id: 1, data: "aGVsbG8=" }) {
+							data
+						}
+					}
+				`,
+        ),
+      ).toStrictEqual({
+        data: { insertIntoFilesSingle: { data: "aGVsbG8=" } },
+      });
+
+      expect(
+        await query(
+          { scalars: { bytes: "hex" } },
+          /* GraphQL */ `
+					mutation {
+						insertIntoFilesSingle(values: { id: 2, data: "CAFE" }) {
+							data
+						}
+					}
+				`,
+        ),
+      ).toStrictEqual({
+        data: { insertIntoFilesSingle: { data: "cafe" } },
+      });
+
+      const selectFiles = /* GraphQL */ `
+				{
+					files(orderBy: { id: { direction: asc, priority: 1 } }) {
+						data
+					}
+				}
+			`;
+
+      expect(await query({ scalars: { bytes: "hex" } }, selectFiles))
+        .toStrictEqual({
+          data: { files: [{ data: "68656c6c6f" }, { data: "cafe" }] },
+        });
+      expect(await query({}, selectFiles)).toStrictEqual({
+        data: {
+          files: [{ data: [104, 101, 108, 108, 111] }, { data: [202, 254] }],
+        },
+      });
+
+      const invalid = await query(
+        { scalars: { bytes: "base64" } },
+        /* GraphQL */ `
+				mutation {
+					insertIntoFilesSingle(values: { id: 3, data: "aGVsbG8" }) {
+						data
+					}
+				}
+			`,
+      );
+
+      expect(invalid.errors[0].message).toBe(
+        'Bytes cannot represent value: "aGVsbG8"',
+      );
+      expect(GraphQLBase64Bytes.serialize(new Uint8Array([1, 2, 3])))
+        .toBe("AQID");
+    } finally {
+      await filesDb.run(sql`DROP TABLE IF EXISTS \`files\`;`);
+    }
+  });
+
+  it("UUID scalar", () => {
+    const uuid = "123e4567-e89b-12d3-a456-426614174000";
+
+    expect(GraphQLUUID.parseValue(uuid)).toBe(uuid);
+    expect(GraphQLUUID.serialize(uuid.toUpperCase())).toBe(uuid.toUpperCase());
+    expect(() => GraphQLUUID.parseValue("123e4567-e89b-12d3-a456-42661417400"))
+      .toThrow(
+        'UUID cannot represent value: "123e4567-e89b-12d3-a456-42661417400"',
+      );
+    expect(() => GraphQLUUID.parseValue(123)).toThrow(
+      "UUID cannot represent value: 123",
+    );
+  });
+
+  it("GeoJSONPoint scalar", () => {
+    expect(
+      GraphQLGeoJSONPoint.parseValue({
+        type: "Point",
+        coordinates: [20, 20.3],
+      }),
+    ).toStrictEqual([20, 20.3]);
+    expect(GraphQLGeoJSONPoint.parseValue({ x: 20, y: 20.3 })).toStrictEqual([
+      20,
+      20.3,
+    ]);
+    expect(GraphQLGeoJSONPoint.parseValue([20, 20.3])).toStrictEqual([
+      20,
+      20.3,
+    ]);
+    expect(GraphQLGeoJSONPoint.serialize({ x: 20, y: 20.3 })).toStrictEqual({
+      type: "Point",
+      coordinates: [20, 20.3],
+    });
+    expect(() =>
+      GraphQLGeoJSONPoint.parseValue({
+        type: "LineString",
+        coordinates: [[0, 0], [1, 1]],
+      })
+    ).toThrow("GeoJSONPoint cannot represent value");
+    expect(() => GraphQLGeoJSONPoint.parseValue([20, 20.3, 5])).toThrow(
+      "GeoJSONPoint cannot represent value: [20,20.3,5]",
+    );
+  });
+});
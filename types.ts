@@ -14,6 +14,7 @@ import type { RelationalQueryBuilder as PgQuery } from "drizzle-orm/pg-core/quer
 import type { BaseSQLiteDatabase } from "drizzle-orm/sqlite-core";
 import type { RelationalQueryBuilder as SQLiteQuery } from "drizzle-orm/sqlite-core/query-builders/query";
 import type {
+  GraphQLEnumType,
   GraphQLInputObjectType,
   GraphQLList,
   GraphQLNonNull,
@@ -25,11 +26,15 @@ import type {
 
 import type {
   Filters,
+  FiltersCore,
   GetRemappedTableDataType,
   GetRemappedTableInsertDataType,
   GetRemappedTableUpdateDataType,
+  HavingFilters,
   OrderByArgs,
+  SearchArgs,
 } from "./util/builders/index.ts";
+import type { TableFieldName, TableTypeName } from "./util/naming.ts";
 
 /**
  * Represents any supported Drizzle database instance.
@@ -148,8 +153,13 @@ export type MutationReturnlessResult = {
  *
  * @template TTable - The table on which the query is performed.
  * @template isSingle - A boolean flag indicating whether the query targets a single record.
+ * @template TConfig - The schema build configuration.
  */
-export type QueryArgs<TTable extends Table, isSingle extends boolean> = Partial<
+export type QueryArgs<
+  TTable extends Table,
+  isSingle extends boolean,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
+> = Partial<
   (isSingle extends true ? {
       offset: number;
     }
@@ -157,8 +167,9 @@ export type QueryArgs<TTable extends Table, isSingle extends boolean> = Partial<
       offset: number;
       limit: number;
     }) & {
-    where: Filters<TTable>;
+    where: Filters<TTable, FiltersCore<TTable, TConfig>>;
     orderBy: OrderByArgs<TTable>;
+    search: SearchArgs;
   }
 >;
 
@@ -170,14 +181,18 @@ export type QueryArgs<TTable extends Table, isSingle extends boolean> = Partial<
  *
  * @template TTable - The table into which data will be inserted.
  * @template isSingle - A boolean flag indicating if the operation is a single insert.
+ * @template TConfig - The schema build configuration.
  */
-export type InsertArgs<TTable extends Table, isSingle extends boolean> =
-  isSingle extends true ? {
-      values: GetRemappedTableInsertDataType<TTable>;
-    }
-    : {
-      values: Array<GetRemappedTableInsertDataType<TTable>>;
-    };
+export type InsertArgs<
+  TTable extends Table,
+  isSingle extends boolean,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
+> = isSingle extends true ? {
+    values: GetRemappedTableInsertDataType<TTable, TConfig>;
+  }
+  : {
+    values: Array<GetRemappedTableInsertDataType<TTable, TConfig>>;
+  };
 
 /**
  * Arguments for an update operation on a table.
@@ -185,10 +200,14 @@ export type InsertArgs<TTable extends Table, isSingle extends boolean> =
  * Allows setting new values and optionally filtering which rows to update.
  *
  * @template TTable - The table on which the update operation is performed.
+ * @template TConfig - The schema build configuration.
  */
-export type UpdateArgs<TTable extends Table> = Partial<{
-  set: GetRemappedTableUpdateDataType<TTable>;
-  where?: Filters<TTable>;
+export type UpdateArgs<
+  TTable extends Table,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
+> = Partial<{
+  set: GetRemappedTableUpdateDataType<TTable, TConfig>;
+  where?: Filters<TTable, FiltersCore<TTable, TConfig>>;
 }>;
 
 /**
@@ -197,9 +216,13 @@ export type UpdateArgs<TTable extends Table> = Partial<{
  * Provides an optional filtering condition to specify which rows should be deleted.
  *
  * @template TTable - The table from which rows will be deleted.
+ * @template TConfig - The schema build configuration.
  */
-export type DeleteArgs<TTable extends Table> = {
-  where?: Filters<TTable>;
+export type DeleteArgs<
+  TTable extends Table,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
+> = {
+  where?: Filters<TTable, FiltersCore<TTable, TConfig>>;
 };
 
 /**
@@ -211,19 +234,21 @@ export type DeleteArgs<TTable extends Table> = {
  * @template TTable - The table being queried.
  * @template TTables - The collection of all tables in the schema.
  * @template TRelations - The relations associated with the table.
+ * @template TConfig - The schema build configuration.
  */
 export type SelectResolver<
   TTable extends Table,
   TTables extends Record<string, Table>,
   TRelations extends Record<string, Relation>,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
 > = (
   source: any,
-  args: Partial<QueryArgs<TTable, false>>,
+  args: Partial<QueryArgs<TTable, false, TConfig>>,
   context: any,
   info: GraphQLResolveInfo,
 ) => Promise<
   keyof TRelations extends infer RelKey ? RelKey extends string ? Array<
-        & GetRemappedTableDataType<TTable>
+        & GetRemappedTableDataType<TTable, TConfig>
         & {
           [K in RelKey]: TRelations[K] extends One<string> ?
               | GetRemappedTableDataType<
@@ -231,7 +256,8 @@ export type SelectResolver<
                   TTables,
                   TRelations[K]["referencedTableName"]
                 > extends infer T ? T[keyof T]
-                  : never
+                  : never,
+                TConfig
               >
               | null
             : TRelations[K] extends Many<string> ? Array<
@@ -240,16 +266,78 @@ export type SelectResolver<
                     TTables,
                     TRelations[K]["referencedTableName"]
                   > extends infer T ? T[keyof T]
-                    : never
+                    : never,
+                  TConfig
                 >
               >
             : never;
         }
       >
-    : Array<GetRemappedTableDataType<TTable>>
-    : Array<GetRemappedTableDataType<TTable>>
+    : Array<GetRemappedTableDataType<TTable, TConfig>>
+    : Array<GetRemappedTableDataType<TTable, TConfig>>
 >;
 
+/**
+ * Describes the returned page of a Relay connection.
+ */
+export type ConnectionPageInfo = {
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  startCursor: string | null;
+  endCursor: string | null;
+};
+
+/**
+ * Arguments for a query returning the records of a table as a Relay connection.
+ *
+ * @template TTable - The table on which the query is performed.
+ * @template TConfig - The schema build configuration.
+ */
+export type ConnectionArgs<
+  TTable extends Table,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
+> = Partial<{
+  first: number;
+  after: string;
+  last: number;
+  before: string;
+  where: Filters<TTable, FiltersCore<TTable, TConfig>>;
+  orderBy: OrderByArgs<TTable>;
+  search: SearchArgs;
+}>;
+
+/**
+ * Resolver type for a query that selects a page of records from a table as a Relay connection.
+ *
+ * The nodes of the connection have the same shape as the records returned by `SelectResolver`.
+ *
+ * @template TTable - The table being queried.
+ * @template TTables - The collection of all tables in the schema.
+ * @template TRelations - The relations associated with the table.
+ * @template TConfig - The schema build configuration.
+ */
+export type SelectConnectionResolver<
+  TTable extends Table,
+  TTables extends Record<string, Table>,
+  TRelations extends Record<string, Relation>,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
+> = (
+  source: any,
+  args: ConnectionArgs<TTable, TConfig>,
+  context: any,
+  info: GraphQLResolveInfo,
+) => Promise<{
+  edges: Array<{
+    cursor: string;
+    node: Awaited<
+      ReturnType<SelectResolver<TTable, TTables, TRelations, TConfig>>
+    >[number];
+  }>;
+  pageInfo: ConnectionPageInfo;
+  /** The count of the records matching the filters, if enabled by `totalCount`. */
+  totalCount?: number;
+}>;
+
 /**
  * Resolver type for a query that selects a single record from a table.
  *
@@ -259,19 +347,21 @@ export type SelectResolver<
  * @template TTable - The table being queried.
  * @template TTables - The collection of all tables in the schema.
  * @template TRelations - The relations associated with the table.
+ * @template TConfig - The schema build configuration.
  */
 export type SelectSingleResolver<
   TTable extends Table,
   TTables extends Record<string, Table>,
   TRelations extends Record<string, Relation>,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
 > = (
   source: any,
-  args: Partial<QueryArgs<TTable, true>>,
+  args: Partial<QueryArgs<TTable, true, TConfig>>,
   context: any,
   info: GraphQLResolveInfo,
 ) => Promise<
   | (keyof TRelations extends infer RelKey ? RelKey extends string ?
-        & GetRemappedTableDataType<TTable>
+        & GetRemappedTableDataType<TTable, TConfig>
         & {
           [K in RelKey]: TRelations[K] extends One<string> ?
               | GetRemappedTableDataType<
@@ -279,7 +369,8 @@ export type SelectSingleResolver<
                   TTables,
                   TRelations[K]["referencedTableName"]
                 > extends infer T ? T[keyof T]
-                  : never
+                  : never,
+                TConfig
               >
               | null
             : TRelations[K] extends Many<string> ? Array<
@@ -288,13 +379,14 @@ export type SelectSingleResolver<
                     TTables,
                     TRelations[K]["referencedTableName"]
                   > extends infer T ? T[keyof T]
-                    : never
+                    : never,
+                  TConfig
                 >
               >
             : never;
         }
-    : GetRemappedTableDataType<TTable>
-    : GetRemappedTableDataType<TTable>)
+    : GetRemappedTableDataType<TTable, TConfig>
+    : GetRemappedTableDataType<TTable, TConfig>)
   | null
 >;
 
@@ -306,17 +398,21 @@ export type SelectSingleResolver<
  *
  * @template TTable - The table into which data is inserted.
  * @template IsReturnless - A boolean flag indicating if the mutation should be returnless.
+ * @template TConfig - The schema build configuration.
  */
-export type InsertResolver<TTable extends Table, IsReturnless extends boolean> =
-  (
-    source: any,
-    args: Partial<InsertArgs<TTable, false>>,
-    context: any,
-    info: GraphQLResolveInfo,
-  ) => Promise<
-    IsReturnless extends false ? Array<GetRemappedTableDataType<TTable>>
-      : MutationReturnlessResult
-  >;
+export type InsertResolver<
+  TTable extends Table,
+  IsReturnless extends boolean,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
+> = (
+  source: any,
+  args: Partial<InsertArgs<TTable, false, TConfig>>,
+  context: any,
+  info: GraphQLResolveInfo,
+) => Promise<
+  IsReturnless extends false ? Array<GetRemappedTableDataType<TTable, TConfig>>
+    : MutationReturnlessResult
+>;
 
 /**
  * Resolver type for an insert operation that returns a single record.
@@ -326,17 +422,20 @@ export type InsertResolver<TTable extends Table, IsReturnless extends boolean> =
  *
  * @template TTable - The table into which data is inserted.
  * @template IsReturnless - A boolean flag indicating if the mutation should be returnless.
+ * @template TConfig - The schema build configuration.
  */
 export type InsertArrResolver<
   TTable extends Table,
   IsReturnless extends boolean,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
 > = (
   source: any,
-  args: Partial<InsertArgs<TTable, true>>,
+  args: Partial<InsertArgs<TTable, true, TConfig>>,
   context: any,
   info: GraphQLResolveInfo,
 ) => Promise<
-  IsReturnless extends false ? GetRemappedTableDataType<TTable> | undefined
+  IsReturnless extends false
+    ? GetRemappedTableDataType<TTable, TConfig> | undefined
     : MutationReturnlessResult
 >;
 
@@ -348,17 +447,22 @@ export type InsertArrResolver<
  *
  * @template TTable - The table to be updated.
  * @template IsReturnless - A boolean flag indicating if the mutation should be returnless.
+ * @template TConfig - The schema build configuration.
  */
-export type UpdateResolver<TTable extends Table, IsReturnless extends boolean> =
-  (
-    source: any,
-    args: UpdateArgs<TTable>,
-    context: any,
-    info: GraphQLResolveInfo,
-  ) => Promise<
-    IsReturnless extends false ? GetRemappedTableDataType<TTable> | undefined
-      : MutationReturnlessResult
-  >;
+export type UpdateResolver<
+  TTable extends Table,
+  IsReturnless extends boolean,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
+> = (
+  source: any,
+  args: UpdateArgs<TTable, TConfig>,
+  context: any,
+  info: GraphQLResolveInfo,
+) => Promise<
+  IsReturnless extends false
+    ? GetRemappedTableDataType<TTable, TConfig> | undefined
+    : MutationReturnlessResult
+>;
 
 /**
  * Resolver type for a delete operation on a table.
@@ -368,24 +472,148 @@ export type UpdateResolver<TTable extends Table, IsReturnless extends boolean> =
  *
  * @template TTable - The table from which data is deleted.
  * @template IsReturnless - A boolean flag indicating if the mutation should be returnless.
+ * @template TConfig - The schema build configuration.
+ */
+export type DeleteResolver<
+  TTable extends Table,
+  IsReturnless extends boolean,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
+> = (
+  source: any,
+  args: DeleteArgs<TTable, TConfig>,
+  context: any,
+  info: GraphQLResolveInfo,
+) => Promise<
+  IsReturnless extends false
+    ? GetRemappedTableDataType<TTable, TConfig> | undefined
+    : MutationReturnlessResult
+>;
+
+/**
+ * Resolves to `false` when the given operation is disabled for a table in the `operations`
+ * config option, and to `true` otherwise.
+ *
+ * Operations are only disabled when the config is typed with a literal `false`, so configs
+ * that are not known at compile time keep every operation in the resulting type.
+ *
+ * @template TConfig - The schema build configuration.
+ * @template TName - The name of the table in the Drizzle schema.
+ * @template TOperation - The operation to check.
+ */
+export type IsOperationEnabled<
+  TConfig extends BuildSchemaConfig,
+  TName extends string,
+  TOperation extends TableOperation,
+> = TConfig["operations"] extends infer TOperations
+  ? TOperations extends Record<string, TableOperationsConfig>
+    ? TName extends keyof TOperations
+      ? TOperations[TName][TOperation] extends false ? false : true
+    : true
+  : true
+  : true;
+
+/**
+ * Resolves to the legacy name of a MySQL delete mutation when `naming.legacyAliases` is
+ * enabled with a literal `true`, and to `never` otherwise.
+ *
+ * @template TConfig - The schema build configuration.
+ * @template TName - The name of the table in the Drizzle schema.
+ * @template IsReturnless - A flag indicating whether the mutations are returnless (MySQL).
+ */
+export type LegacyDeleteName<
+  TConfig extends BuildSchemaConfig,
+  TName extends string,
+  IsReturnless extends boolean,
+> = IsReturnless extends true
+  ? TConfig["naming"] extends { legacyAliases?: infer TLegacy }
+    ? [TLegacy] extends [true] ? `deleteFrom${TName}` : never
+  : never
+  : never;
+
+/**
+ * The result of an aggregate query on a table.
+ *
+ * `sum`, `avg`, `min` and `max` hold the aggregates of the selected numeric columns. The
+ * aggregates of 64-bit integer and decimal columns are strings.
+ *
+ * @template TTable - The table being aggregated.
  */
-export type DeleteResolver<TTable extends Table, IsReturnless extends boolean> =
-  (
-    source: any,
-    args: DeleteArgs<TTable>,
-    context: any,
-    info: GraphQLResolveInfo,
-  ) => Promise<
-    IsReturnless extends false ? GetRemappedTableDataType<TTable> | undefined
-      : MutationReturnlessResult
+export type AggregateResult<TTable extends Table> =
+  & { count: number }
+  & Record<
+    "sum" | "avg" | "min" | "max",
+    Partial<Record<keyof TTable["_"]["columns"], number | string | null>>
   >;
 
+/**
+ * Resolver type for a query that counts and aggregates the records of a table.
+ *
+ * @template TTable - The table being aggregated.
+ * @template TConfig - The schema build configuration.
+ */
+export type AggregateResolver<
+  TTable extends Table,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
+> = (
+  source: any,
+  args: Partial<Pick<QueryArgs<TTable, false, TConfig>, "where">>,
+  context: any,
+  info: GraphQLResolveInfo,
+) => Promise<AggregateResult<TTable>>;
+
+/**
+ * Arguments for a group-by query on a table.
+ *
+ * @template TTable - The table being grouped.
+ * @template TConfig - The schema build configuration.
+ */
+export type GroupByArgs<
+  TTable extends Table,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
+> = {
+  by: Array<keyof TTable["_"]["columns"]>;
+  where?: Filters<TTable, FiltersCore<TTable, TConfig>>;
+  having?: HavingFilters;
+};
+
+/**
+ * A group returned by a group-by query, holding the values of the grouped columns under `key`.
+ *
+ * @template TTable - The table being grouped.
+ * @template TConfig - The schema build configuration.
+ */
+export type GroupResult<
+  TTable extends Table,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
+> = AggregateResult<TTable> & {
+  key: Partial<GetRemappedTableDataType<TTable, TConfig>>;
+};
+
+/**
+ * Resolver type for a query that groups the records of a table and aggregates each group.
+ *
+ * @template TTable - The table being grouped.
+ * @template TConfig - The schema build configuration.
+ */
+export type GroupByResolver<
+  TTable extends Table,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
+> = (
+  source: any,
+  args: GroupByArgs<TTable, TConfig>,
+  context: any,
+  info: GraphQLResolveInfo,
+) => Promise<GroupResult<TTable, TConfig>[]>;
+
 /**
  * Defines the core query operations for the generated GraphQL schema.
  *
- * This type maps over the schema tables to generate two sets of queries:
- * - A query for multiple records (with pagination and filtering).
+ * This type maps over the schema tables to generate four sets of queries:
+ * - A query for multiple records (with pagination and filtering), returning a Relay
+ *   connection when the `connections` config option is enabled with a literal `true`.
  * - A query for a single record.
+ * - A query counting and aggregating records.
+ * - A query grouping records and aggregating each group.
  *
  * The resulting type is used to build the GraphQL query root type.
  *
@@ -393,22 +621,67 @@ export type DeleteResolver<TTable extends Table, IsReturnless extends boolean> =
  * @template TSchemaRelations - The collection of relations for the tables.
  * @template TInputs - The collection of generated GraphQL input types.
  * @template TOutputs - The collection of generated GraphQL output types.
+ * @template TConfig - The schema build configuration, used to omit disabled operations.
  */
 export type QueriesCore<
   TSchemaTables extends Record<string, Table>,
   TSchemaRelations extends Record<string, Relations>,
   TInputs extends Record<string, GraphQLInputObjectType>,
   TOutputs extends Record<string, GraphQLObjectType>,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
 > =
   & {
     [
       TName in keyof TSchemaTables as TName extends string
-        ? `${Uncapitalize<TName>}`
+        ? IsOperationEnabled<TConfig, TName, "query"> extends true
+          ? TableFieldName<TConfig, TName, []>
         : never
-    ]: TName extends string ? {
+        : never
+    ]: TName extends string ? TConfig["connections"] extends true ? {
+          type: GraphQLNonNull<GraphQLObjectType>;
+          args: {
+            first: {
+              type: GraphQLScalarType<number, number>;
+            };
+            after: {
+              type: GraphQLScalarType<string, string>;
+            };
+            last: {
+              type: GraphQLScalarType<number, number>;
+            };
+            before: {
+              type: GraphQLScalarType<string, string>;
+            };
+            orderBy: {
+              type:
+                TInputs[TableTypeName<TConfig, TName, ["order", "by"]>] extends
+                  GraphQLInputObjectType
+                  ? TInputs[TableTypeName<TConfig, TName, ["order", "by"]>]
+                  : never;
+            };
+            where: {
+              type: TInputs[TableTypeName<TConfig, TName, ["filters"]>] extends
+                GraphQLInputObjectType
+                ? TInputs[TableTypeName<TConfig, TName, ["filters"]>]
+                : never;
+            };
+          };
+          resolve: SelectConnectionResolver<
+            TSchemaTables[TName],
+            TSchemaTables,
+            ExtractTableRelations<
+              TSchemaTables[TName],
+              TSchemaRelations
+            > extends infer R ? R[keyof R] : never,
+            TConfig
+          >;
+        }
+      : {
         type: GraphQLNonNull<
           GraphQLList<
-            GraphQLNonNull<TOutputs[`${Capitalize<TName>}SelectItem`]>
+            GraphQLNonNull<
+              TOutputs[TableTypeName<TConfig, TName, ["select", "item"]>]
+            >
           >
         >;
         args: {
@@ -419,13 +692,16 @@ export type QueriesCore<
             type: GraphQLScalarType<number, number>;
           };
           orderBy: {
-            type: TInputs[`${Capitalize<TName>}OrderBy`] extends
-              GraphQLInputObjectType ? TInputs[`${Capitalize<TName>}OrderBy`]
-              : never;
+            type:
+              TInputs[TableTypeName<TConfig, TName, ["order", "by"]>] extends
+                GraphQLInputObjectType
+                ? TInputs[TableTypeName<TConfig, TName, ["order", "by"]>]
+                : never;
           };
           where: {
-            type: TInputs[`${Capitalize<TName>}Filters`] extends
-              GraphQLInputObjectType ? TInputs[`${Capitalize<TName>}Filters`]
+            type: TInputs[TableTypeName<TConfig, TName, ["filters"]>] extends
+              GraphQLInputObjectType
+              ? TInputs[TableTypeName<TConfig, TName, ["filters"]>]
               : never;
           };
         };
@@ -433,7 +709,8 @@ export type QueriesCore<
           TSchemaTables[TName],
           TSchemaTables,
           ExtractTableRelations<TSchemaTables[TName], TSchemaRelations> extends
-            infer R ? R[keyof R] : never
+            infer R ? R[keyof R] : never,
+          TConfig
         >;
       }
       : never;
@@ -441,22 +718,27 @@ export type QueriesCore<
   & {
     [
       TName in keyof TSchemaTables as TName extends string
-        ? `${Uncapitalize<TName>}Single`
+        ? IsOperationEnabled<TConfig, TName, "querySingle"> extends true
+          ? TableFieldName<TConfig, TName, [], ["single"]>
+        : never
         : never
     ]: TName extends string ? {
-        type: TOutputs[`${Capitalize<TName>}SelectItem`];
+        type: TOutputs[TableTypeName<TConfig, TName, ["select", "item"]>];
         args: {
           offset: {
             type: GraphQLScalarType<number, number>;
           };
           orderBy: {
-            type: TInputs[`${Capitalize<TName>}OrderBy`] extends
-              GraphQLInputObjectType ? TInputs[`${Capitalize<TName>}OrderBy`]
-              : never;
+            type:
+              TInputs[TableTypeName<TConfig, TName, ["order", "by"]>] extends
+                GraphQLInputObjectType
+                ? TInputs[TableTypeName<TConfig, TName, ["order", "by"]>]
+                : never;
           };
           where: {
-            type: TInputs[`${Capitalize<TName>}Filters`] extends
-              GraphQLInputObjectType ? TInputs[`${Capitalize<TName>}Filters`]
+            type: TInputs[TableTypeName<TConfig, TName, ["filters"]>] extends
+              GraphQLInputObjectType
+              ? TInputs[TableTypeName<TConfig, TName, ["filters"]>]
               : never;
           };
         };
@@ -464,10 +746,59 @@ export type QueriesCore<
           TSchemaTables[TName],
           TSchemaTables,
           ExtractTableRelations<TSchemaTables[TName], TSchemaRelations> extends
-            infer R ? R[keyof R] : never
+            infer R ? R[keyof R] : never,
+          TConfig
         >;
       }
       : never;
+  }
+  & {
+    [
+      TName in keyof TSchemaTables as TName extends string
+        ? IsOperationEnabled<TConfig, TName, "aggregate"> extends true
+          ? TableFieldName<TConfig, TName, [], ["aggregate"]>
+        : never
+        : never
+    ]: TName extends string ? {
+        type: GraphQLNonNull<GraphQLObjectType>;
+        args: {
+          where: {
+            type: TInputs[TableTypeName<TConfig, TName, ["filters"]>] extends
+              GraphQLInputObjectType
+              ? TInputs[TableTypeName<TConfig, TName, ["filters"]>]
+              : never;
+          };
+        };
+        resolve: AggregateResolver<TSchemaTables[TName], TConfig>;
+      }
+      : never;
+  }
+  & {
+    [
+      TName in keyof TSchemaTables as TName extends string
+        ? IsOperationEnabled<TConfig, TName, "groupBy"> extends true
+          ? TableFieldName<TConfig, TName, [], ["group", "by"]>
+        : never
+        : never
+    ]: TName extends string ? {
+        type: GraphQLNonNull<GraphQLList<GraphQLNonNull<GraphQLObjectType>>>;
+        args: {
+          by: {
+            type: GraphQLNonNull<GraphQLList<GraphQLNonNull<GraphQLEnumType>>>;
+          };
+          where: {
+            type: TInputs[TableTypeName<TConfig, TName, ["filters"]>] extends
+              GraphQLInputObjectType
+              ? TInputs[TableTypeName<TConfig, TName, ["filters"]>]
+              : never;
+          };
+          having: {
+            type: GraphQLInputObjectType;
+          };
+        };
+        resolve: GroupByResolver<TSchemaTables[TName], TConfig>;
+      }
+      : never;
   };
 
 /**
@@ -485,17 +816,21 @@ export type QueriesCore<
  * @template TInputs - The collection of generated GraphQL input types.
  * @template TOutputs - The collection of generated GraphQL output types.
  * @template IsReturnless - A flag indicating whether the mutations are returnless.
+ * @template TConfig - The schema build configuration, used to omit disabled operations.
  */
 export type MutationsCore<
   TSchemaTables extends Record<string, Table>,
   TInputs extends Record<string, GraphQLInputObjectType>,
   TOutputs extends Record<string, GraphQLObjectType>,
   IsReturnless extends boolean,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
 > =
   & {
     [
       TName in keyof TSchemaTables as TName extends string
-        ? `insertInto${Capitalize<TName>}`
+        ? IsOperationEnabled<TConfig, TName, "insert"> extends true
+          ? TableFieldName<TConfig, TName, ["insert", "into"]>
+        : never
         : never
     ]: TName extends string ? {
         type: IsReturnless extends true
@@ -503,46 +838,56 @@ export type MutationsCore<
             ? TOutputs["MutationReturn"]
           : never
           : GraphQLNonNull<
-            GraphQLList<GraphQLNonNull<TOutputs[`${Capitalize<TName>}Item`]>>
+            GraphQLList<
+              GraphQLNonNull<TOutputs[TableTypeName<TConfig, TName, ["item"]>]>
+            >
           >;
         args: {
           values: {
             type: GraphQLNonNull<
               GraphQLList<
-                GraphQLNonNull<TInputs[`${Capitalize<TName>}InsertInput`]>
+                GraphQLNonNull<
+                  TInputs[TableTypeName<TConfig, TName, ["insert", "input"]>]
+                >
               >
             >;
           };
         };
-        resolve: InsertArrResolver<TSchemaTables[TName], IsReturnless>;
+        resolve: InsertArrResolver<TSchemaTables[TName], IsReturnless, TConfig>;
       }
       : never;
   }
   & {
     [
       TName in keyof TSchemaTables as TName extends string
-        ? `insertInto${Capitalize<TName>}Single`
+        ? IsOperationEnabled<TConfig, TName, "insertSingle"> extends true
+          ? TableFieldName<TConfig, TName, ["insert", "into"], ["single"]>
+        : never
         : never
     ]: TName extends string ? {
         type: IsReturnless extends true
           ? TOutputs["MutationReturn"] extends GraphQLObjectType
             ? TOutputs["MutationReturn"]
           : never
-          : TOutputs[`${Capitalize<TName>}Item`];
+          : TOutputs[TableTypeName<TConfig, TName, ["item"]>];
 
         args: {
           values: {
-            type: GraphQLNonNull<TInputs[`${Capitalize<TName>}InsertInput`]>;
+            type: GraphQLNonNull<
+              TInputs[TableTypeName<TConfig, TName, ["insert", "input"]>]
+            >;
           };
         };
-        resolve: InsertResolver<TSchemaTables[TName], IsReturnless>;
+        resolve: InsertResolver<TSchemaTables[TName], IsReturnless, TConfig>;
       }
       : never;
   }
   & {
     [
       TName in keyof TSchemaTables as TName extends string
-        ? `update${Capitalize<TName>}`
+        ? IsOperationEnabled<TConfig, TName, "update"> extends true
+          ? TableFieldName<TConfig, TName, ["update"]>
+        : never
         : never
     ]: TName extends string ? {
         type: IsReturnless extends true
@@ -550,26 +895,34 @@ export type MutationsCore<
             ? TOutputs["MutationReturn"]
           : never
           : GraphQLNonNull<
-            GraphQLList<GraphQLNonNull<TOutputs[`${Capitalize<TName>}Item`]>>
+            GraphQLList<
+              GraphQLNonNull<TOutputs[TableTypeName<TConfig, TName, ["item"]>]>
+            >
           >;
         args: {
           set: {
-            type: GraphQLNonNull<TInputs[`${Capitalize<TName>}UpdateInput`]>;
+            type: GraphQLNonNull<
+              TInputs[TableTypeName<TConfig, TName, ["update", "input"]>]
+            >;
           };
           where: {
-            type: TInputs[`${Capitalize<TName>}Filters`] extends
-              GraphQLInputObjectType ? TInputs[`${Capitalize<TName>}Filters`]
+            type: TInputs[TableTypeName<TConfig, TName, ["filters"]>] extends
+              GraphQLInputObjectType
+              ? TInputs[TableTypeName<TConfig, TName, ["filters"]>]
               : never;
           };
         };
-        resolve: UpdateResolver<TSchemaTables[TName], IsReturnless>;
+        resolve: UpdateResolver<TSchemaTables[TName], IsReturnless, TConfig>;
       }
       : never;
   }
   & {
     [
       TName in keyof TSchemaTables as TName extends string
-        ? `deleteFrom${Capitalize<TName>}`
+        ? IsOperationEnabled<TConfig, TName, "delete"> extends true ?
+            | TableFieldName<TConfig, TName, ["delete", "from"]>
+            | LegacyDeleteName<TConfig, TName, IsReturnless>
+        : never
         : never
     ]: TName extends string ? {
         type: IsReturnless extends true
@@ -577,16 +930,19 @@ export type MutationsCore<
             ? TOutputs["MutationReturn"]
           : never
           : GraphQLNonNull<
-            GraphQLList<GraphQLNonNull<TOutputs[`${Capitalize<TName>}Item`]>>
+            GraphQLList<
+              GraphQLNonNull<TOutputs[TableTypeName<TConfig, TName, ["item"]>]>
+            >
           >;
         args: {
           where: {
-            type: TInputs[`${Capitalize<TName>}Filters`] extends
-              GraphQLInputObjectType ? TInputs[`${Capitalize<TName>}Filters`]
+            type: TInputs[TableTypeName<TConfig, TName, ["filters"]>] extends
+              GraphQLInputObjectType
+              ? TInputs[TableTypeName<TConfig, TName, ["filters"]>]
               : never;
           };
         };
-        resolve: DeleteResolver<TSchemaTables[TName], IsReturnless>;
+        resolve: DeleteResolver<TSchemaTables[TName], IsReturnless, TConfig>;
       }
       : never;
   };
@@ -601,33 +957,37 @@ export type MutationsCore<
  * - Filters input
  *
  * @template TSchema - The schema containing table definitions.
+ * @template TConfig - The schema build configuration, used to name the input types.
  */
-export type GeneratedInputs<TSchema extends Record<string, Table>> =
+export type GeneratedInputs<
+  TSchema extends Record<string, Table>,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
+> =
   & {
     [
       TName in keyof TSchema as TName extends string
-        ? `${Capitalize<TName>}InsertInput`
+        ? TableTypeName<TConfig, TName, ["insert", "input"]>
         : never
     ]: GraphQLInputObjectType;
   }
   & {
     [
       TName in keyof TSchema as TName extends string
-        ? `${Capitalize<TName>}UpdateInput`
+        ? TableTypeName<TConfig, TName, ["update", "input"]>
         : never
     ]: GraphQLInputObjectType;
   }
   & {
     [
       TName in keyof TSchema as TName extends string
-        ? `${Capitalize<TName>}OrderBy`
+        ? TableTypeName<TConfig, TName, ["order", "by"]>
         : never
     ]: GraphQLInputObjectType;
   }
   & {
     [
       TName in keyof TSchema as TName extends string
-        ? `${Capitalize<TName>}Filters`
+        ? TableTypeName<TConfig, TName, ["filters"]>
         : never
     ]: GraphQLInputObjectType;
   };
@@ -641,15 +1001,17 @@ export type GeneratedInputs<TSchema extends Record<string, Table>> =
  *
  * @template TSchema - The schema containing table definitions.
  * @template IsReturnless - A boolean flag indicating if the mutations are returnless.
+ * @template TConfig - The schema build configuration, used to name the output types.
  */
 export type GeneratedOutputs<
   TSchema extends Record<string, Table>,
   IsReturnless extends Boolean,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
 > =
   & {
     [
       TName in keyof TSchema as TName extends string
-        ? `${Capitalize<TName>}SelectItem`
+        ? TableTypeName<TConfig, TName, ["select", "item"]>
         : never
     ]: GraphQLObjectType;
   }
@@ -659,7 +1021,7 @@ export type GeneratedOutputs<
     : {
       [
         TName in keyof TSchema as TName extends string
-          ? `${Capitalize<TName>}Item`
+          ? TableTypeName<TConfig, TName, ["item"]>
           : never
       ]: GraphQLObjectType;
     });
@@ -671,6 +1033,7 @@ export type GeneratedOutputs<
  *
  * @template TDatabase - The Drizzle database instance.
  * @template TSchema - The database schema.
+ * @template TConfig - The schema build configuration.
  * @template TSchemaTables - The extracted tables from the schema.
  * @template TSchemaRelations - The extracted relations from the schema.
  * @template TInputs - The generated GraphQL input types.
@@ -680,27 +1043,38 @@ export type GeneratedEntities<
   TDatabase extends AnyDrizzleDB<TSchema>,
   TSchema extends Record<string, unknown> = TDatabase extends
     AnyDrizzleDB<infer ISchema> ? ISchema : never,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
   TSchemaTables extends ExtractTables<TSchema> = ExtractTables<TSchema>,
   TSchemaRelations extends ExtractRelations<TSchema> = ExtractRelations<
     TSchema
   >,
-  TInputs extends GeneratedInputs<TSchemaTables> = GeneratedInputs<
-    TSchemaTables
+  TInputs extends GeneratedInputs<TSchemaTables, TConfig> = GeneratedInputs<
+    TSchemaTables,
+    TConfig
   >,
   TOutputs extends GeneratedOutputs<
     TSchemaTables,
-    TDatabase extends MySqlDatabase<any, any, any, any> ? true : false
+    TDatabase extends MySqlDatabase<any, any, any, any> ? true : false,
+    TConfig
   > = GeneratedOutputs<
     TSchemaTables,
-    TDatabase extends MySqlDatabase<any, any, any, any> ? true : false
+    TDatabase extends MySqlDatabase<any, any, any, any> ? true : false,
+    TConfig
   >,
 > = {
-  queries: QueriesCore<TSchemaTables, TSchemaRelations, TInputs, TOutputs>;
+  queries: QueriesCore<
+    TSchemaTables,
+    TSchemaRelations,
+    TInputs,
+    TOutputs,
+    TConfig
+  >;
   mutations: MutationsCore<
     TSchemaTables,
     TInputs,
     TOutputs,
-    TDatabase extends MySqlDatabase<any, any, any, any> ? true : false
+    TDatabase extends MySqlDatabase<any, any, any, any> ? true : false,
+    TConfig
   >;
   inputs: TInputs;
   types: TOutputs;
@@ -710,12 +1084,18 @@ export type GeneratedEntities<
  * Represents the generated GraphQL schema and its associated entities.
  *
  * @template TDatabase - The Drizzle database instance used to generate the schema.
+ * @template TConfig - The schema build configuration used to generate the schema.
  */
 export type GeneratedData<
   TDatabase extends AnyDrizzleDB<any>,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
 > = {
   schema: GraphQLSchema;
-  entities: GeneratedEntities<TDatabase>;
+  entities: GeneratedEntities<
+    TDatabase,
+    TDatabase extends AnyDrizzleDB<infer ISchema> ? ISchema : never,
+    TConfig
+  >;
 };
 
 /**
@@ -738,4 +1118,246 @@ export type BuildSchemaConfig = {
    * By default, this option is treated as undefined.
    */
   relationsDepthLimit?: number;
+  /**
+   * Restricts which tables of the Drizzle schema are exposed in the generated schema.
+   *
+   * - `include`: When set, only the listed tables are exposed.
+   * - `exclude`: The listed tables are never exposed, even if they are also included.
+   *
+   * Tables are referenced by their key in the Drizzle schema object. Relation fields
+   * pointing at a table that is not exposed are omitted as well.
+   * By default, every table is exposed.
+   */
+  tables?: {
+    include?: string[];
+    exclude?: string[];
+  };
+  /**
+   * Restricts which columns of each table are exposed, keyed by table name.
+   *
+   * - `include`: When set, only the listed columns are exposed.
+   * - `exclude`: The listed columns are never exposed, even if they are also included.
+   *
+   * Hidden columns stay in the Drizzle schema but are left out of the select, insert,
+   * update, filter and order types, so they cannot be read or written through GraphQL.
+   * By default, every column is exposed.
+   */
+  columns?: Record<string, {
+    include?: string[];
+    exclude?: string[];
+  }>;
+  /**
+   * Toggles the generated operations of each table, keyed by table name.
+   *
+   * Operations set to `false` are left out of the generated schema and entities, while
+   * omitted operations are generated as usual. The typed `entities` returned by
+   * `buildSchema` only omit operations that are disabled with a literal `false`.
+   * By default, every operation of every table is generated.
+   */
+  operations?: Record<string, TableOperationsConfig>;
+  /**
+   * Controls how the generated queries, mutations and types are named.
+   *
+   * By default, query and mutation names are camelCase (`usersSingle`, `insertIntoUsers`),
+   * type names are PascalCase (`UsersSelectItem`) and table names are used as they are.
+   * Names produced by custom functions are typed as plain strings in the returned entities.
+   */
+  naming?: NamingConfig;
+  /**
+   * Returns Relay connections from list queries and many-relation fields.
+   *
+   * When enabled, `{table}` queries and many-relations return `edges { cursor node }` and
+   * `pageInfo`, and accept `first`, `after`, `last` and `before` instead of `offset` and
+   * `limit`. Cursors hold the values of the `orderBy` columns followed by the primary key,
+   * so pages are fetched with keyset pagination.
+   * Orderings by computed values can't be held by cursors, so `{Table}OrderBy` loses its
+   * relation fields, `search` its `relevance` ordering and vector columns their `distanceTo`
+   * ordering when enabled.
+   * By default, lists are returned as plain arrays.
+   */
+  connections?: boolean;
+  /**
+   * Exposes the total count of the records matching the `where` filter, regardless of pagination.
+   *
+   * When enabled, connections get a `totalCount` field, and many-relations returned as lists
+   * get a sibling `{relation}Count` field accepting the same `where` argument. Without its own
+   * `where`, `{relation}Count` counts the records matching the `where` of the relation list.
+   * Counts are computed in the same request, with one grouped query per counted relation.
+   * Root queries returned as plain lists have no object to hold a count, so they are only
+   * counted with `connections` enabled, or by the `{table}Aggregate` queries given the same
+   * `where`.
+   */
+  totalCount?: boolean;
+  /**
+   * Enables full-text search on tables, keyed by table name.
+   *
+   * Searched tables get a `search` argument on their `{table}` and `{table}Single` queries,
+   * keeping the records matching a plain text query, optionally ordered by relevance.
+   * Relevance ordering is not available with `connections`.
+   * PostgreSQL matches `to_tsvector` against `plainto_tsquery`, MySQL uses `MATCH ... AGAINST`
+   * in natural language mode and SQLite queries an FTS5 table.
+   * By default, no table is searchable.
+   */
+  search?: Record<string, TableSearchConfig>;
+  /**
+   * Selects the GraphQL scalars representing the values of some column types.
+   *
+   * The typed `entities` returned by `buildSchema` only follow options set to literal values.
+   * By default, values keep their `String` representations.
+   */
+  scalars?: ScalarsConfig;
+};
+
+/**
+ * A built-in casing used to join the parts of a generated name.
+ *
+ * - `camelCase`: `insertIntoUsers`
+ * - `PascalCase`: `InsertIntoUsers`
+ * - `snake_case`: `insert_into_users`
+ */
+export type NamingCase = "camelCase" | "PascalCase" | "snake_case";
+
+/**
+ * A built-in inflection applied to table names before they are used in generated names.
+ */
+export type NamingInflection = "pluralize" | "singularize";
+
+/**
+ * The naming strategy used for the generated schema.
+ */
+export type NamingConfig = {
+  /**
+   * The casing of query and mutation names, or a function joining the parts of a name
+   * (e.g. `["insert", "into", "users"]`). Defaults to `camelCase`.
+   */
+  fields?: NamingCase | ((parts: string[]) => string);
+  /**
+   * The casing of type names, or a function joining the parts of a name
+   * (e.g. `["users", "select", "item"]`). Defaults to `PascalCase`.
+   */
+  types?: NamingCase | ((parts: string[]) => string);
+  /**
+   * The inflection applied to table names, or a function transforming them.
+   * By default, table names are used as they are.
+   */
+  tables?: NamingInflection | ((tableName: string) => string);
+  /**
+   * Also exposes the legacy names of operations that were renamed for consistency, marked
+   * as deprecated, so existing clients keep working while they migrate.
+   *
+   * This currently covers MySQL delete mutations, which used to be named `deleteFrom{table}`
+   * without capitalizing the table name.
+   * By default, only the consistent names are exposed.
+   */
+  legacyAliases?: boolean;
+  /**
+   * The names of the enum types of inline enum columns, such as `text({ enum })`, keyed by
+   * table and column names. Columns given the same name share a single enum type, provided
+   * they have the same values.
+   *
+   * By default, inline enums are named `{Table}{Column}Enum`, and the columns of a `pgEnum`
+   * share an enum type named after it.
+   */
+  enums?: Record<string, Record<string, string>>;
+  /**
+   * The GraphQL names of enum values, keyed by enum type name and value.
+   *
+   * By default, values that are not valid GraphQL names are sanitized, e.g. `in-progress`
+   * becomes `IN_PROGRESS` and `2fa` becomes `_2fa`. Values whose sanitized names collide must
+   * be named here.
+   */
+  enumValues?: Record<string, Record<string, string>>;
+};
+
+/**
+ * Toggles for the operations generated for a single table.
+ */
+export type TableOperationsConfig = {
+  /** The `{table}` query returning a list of records. */
+  query?: boolean;
+  /** The `{table}Single` query returning a single record. */
+  querySingle?: boolean;
+  /** The `{table}Aggregate` query returning the count and aggregates of records. */
+  aggregate?: boolean;
+  /** The `{table}GroupBy` query returning the aggregates of groups of records. */
+  groupBy?: boolean;
+  /** The `insertInto{Table}` mutation inserting a list of records. */
+  insert?: boolean;
+  /** The `insertInto{Table}Single` mutation inserting a single record. */
+  insertSingle?: boolean;
+  /** The `update{Table}` mutation. */
+  update?: boolean;
+  /** The `deleteFrom{Table}` mutation. */
+  delete?: boolean;
+};
+
+/**
+ * The GraphQL scalars representing the values of some column types.
+ */
+export type ScalarsConfig = {
+  /**
+   * How the values of JSON columns are represented.
+   *
+   * - `string`: Stringified JSON in `String` fields, parsed back from input strings.
+   * - `scalar`: Any JSON value in `JSON` fields, typed as `unknown` in the typed entities.
+   * - `typed`: Any JSON value in `JSON` fields, typed with the `$type<>()` of each column in
+   *   the typed entities.
+   *
+   * Defaults to `string`.
+   */
+  json?: "string" | "scalar" | "typed";
+  /**
+   * How the values of date, date-time and time columns are represented.
+   *
+   * - `string`: `String` fields holding ISO strings, or the strings of `mode: "string"` columns.
+   * - `scalar`: `Date`, `DateTime` and `Time` fields chosen per column type, strictly parsing
+   *   RFC 3339 strings. Values of `mode: "string"` columns are passed to the database as they
+   *   are.
+   *
+   * Defaults to `string`.
+   */
+  dates?: "string" | "scalar";
+  /**
+   * How the values of 64-bit integer and decimal columns are represented.
+   *
+   * - `string`: `String` fields.
+   * - `scalar`: `BigInt` and `Decimal` fields holding strings, also accepting number literals
+   *   without converting them through JavaScript numbers.
+   *
+   * Defaults to `string`.
+   */
+  numerics?: "string" | "scalar";
+  /**
+   * How the values of binary columns are represented.
+   *
+   * - `array`: Lists of bytes, as `[Int!]` fields.
+   * - `base64`: `Bytes` fields holding base64 strings.
+   * - `hex`: `Bytes` fields holding hexadecimal strings.
+   *
+   * Defaults to `array`.
+   */
+  bytes?: "array" | "base64" | "hex";
+};
+
+/**
+ * The full-text search configuration of a single table.
+ */
+export type TableSearchConfig = {
+  /**
+   * The searched columns, which must be visible. On MySQL, a FULLTEXT index must cover exactly
+   * these columns, and on SQLite the FTS5 table must have columns with the same names.
+   */
+  columns: string[];
+  /** The PostgreSQL text search configuration, e.g. `english`. Defaults to `simple`. */
+  language?: string;
+  /**
+   * The name of the SQLite FTS5 table indexing the columns, whose rowid is the primary key of
+   * the table. Required on SQLite.
+   */
+  ftsTable?: string;
 };
+
+/**
+ * The name of an operation generated for a table.
+ */
+export type TableOperation = keyof TableOperationsConfig;
@@ -1,70 +1,145 @@
 import {
+  aliasedTable,
   and,
+  arrayContained,
+  arrayContains,
+  arrayOverlaps,
   asc,
-  type Column,
+  avg,
+  Column,
+  cosineDistance,
+  count,
   desc,
   eq,
   getTableColumns,
+  getTableName,
   gt,
   gte,
   ilike,
   inArray,
+  innerProduct,
   is,
   isNotNull,
   isNull,
+  l1Distance,
+  l2Distance,
   like,
   lt,
   lte,
+  max,
+  min,
   ne,
+  not,
   notIlike,
   notInArray,
   notLike,
   One,
   or,
+  type Relation,
   type SQL,
+  sql,
+  type SQLWrapper,
+  sum,
   type Table,
 } from "drizzle-orm";
+import {
+  MySqlColumn,
+  MySqlDatabase,
+  MySqlDecimal,
+  MySqlTable,
+  type SelectedFields as MySqlSelectedFields,
+} from "drizzle-orm/mysql-core";
+import {
+  PgArray,
+  PgColumn,
+  PgDatabase,
+  PgEnumColumn,
+  PgTable,
+  PgVector,
+  type SelectedFields as PgSelectedFields,
+} from "drizzle-orm/pg-core";
+import type {
+  BaseSQLiteDatabase,
+  SelectedFields as SQLiteSelectedFields,
+  SQLiteColumn,
+  SQLiteTable,
+} from "drizzle-orm/sqlite-core";
 import {
   GraphQLBoolean,
   GraphQLEnumType,
   GraphQLError,
   GraphQLFieldConfigArgumentMap,
   type GraphQLFieldResolver,
+  GraphQLFloat,
+  type GraphQLInputFieldConfigMap,
   GraphQLInputObjectType,
   GraphQLInt,
   GraphQLList,
   GraphQLNonNull,
   GraphQLObjectType,
+  type GraphQLOutputType,
   type GraphQLScalarType,
   GraphQLString,
+  isLeafType,
 } from "graphql";
 
-import { capitalize, uncapitalize } from "../case-ops.ts";
-import { remapFromGraphQLCore } from "../data-mappers.ts";
+import { getNaming } from "../naming.ts";
+import {
+  remapFromGraphQLCore,
+  remapToGraphQLArrayOutput,
+  remapToGraphQLSingleOutput,
+} from "../data-mappers.ts";
 import {
   type ConvertedColumn,
   type ConvertedInputColumn,
   type ConvertedRelationColumnWithArgs,
   drizzleColumnToGraphQLType,
+  GraphQLDecimal,
+  GraphQLJSON,
+  isJsonScalar,
 } from "../type-converter/index.ts";
 import { parseResolveInfo, type ResolveTree } from "graphql-parse-resolve-info";
+import { Buffer } from "node:buffer";
 import type {
+  AggregateFilterOperators,
   CreatedResolver,
+  CursorOrder,
+  FilterArrayOperators,
   FilterColumnOperators,
   FilterColumnOperatorsCore,
+  FilterJsonOperators,
   Filters,
-  FiltersCore,
+  FilterStringOperators,
+  FilterVectorOperators,
   GeneratedTableTypes,
   GeneratedTableTypesOutputs,
+  HavingFilters,
+  LogicalFilters,
   OrderByArgs,
+  OrderTerm,
   ProcessedTableSelectArgs,
+  RelationCountRequest,
+  RelationFilters,
+  RelationOrderByArgs,
+  SearchArgs,
   SelectData,
   SelectedColumnsRaw,
   SelectedSQLColumns,
+  SelectRowsQuery,
+  TableConnectionArgs,
+  TableGroupByArgs,
   TableNamedRelations,
   TableSelectArgs,
+  VectorDistanceFilterOperators,
+  VectorDistanceMetric,
+  VectorOrder,
 } from "./types.ts";
-import type { AnyDrizzleDB } from "../../types.ts";
+import type {
+  AnyDrizzleDB,
+  AnyQueryBuiler,
+  BuildSchemaConfig,
+  TableOperation,
+} from "../../types.ts";
 
 /**
  * Helper factory that creates a non-null list GraphQL type.
@@ -138,6 +213,178 @@ export const fieldCache = new Cache<object, Record<string, ConvertedColumn>>();
 export const orderTypeCache = new Cache<object, GraphQLInputObjectType>();
 export const filterTypeCache = new Cache<object, GraphQLInputObjectType>();
 
+/**
+ * Filters the table entries of a Drizzle schema according to the `tables` config option.
+ *
+ * Tables listed in `include` are kept (all tables when it is omitted), then tables listed
+ * in `exclude` are removed.
+ *
+ * @template TTable - The dialect-specific table type.
+ * @param tableEntries - The `[tableName, table]` entries found in the Drizzle schema.
+ * @param config - The schema build configuration.
+ * @returns The table entries that should be exposed in the GraphQL schema.
+ * @throws Error if a table named in `tables`, `columns`, `operations` or `search` does not exist in the schema, if no tables remain,
+ * or if the naming strategy gives two tables the same type or query name.
+ */
+export const filterTableEntries = <TTable extends Table>(
+  tableEntries: [string, TTable][],
+  config: BuildSchemaConfig,
+): [string, TTable][] => {
+  const { include, exclude } = config.tables ?? {};
+  const tableNames = new Set(tableEntries.map(([tableName]) => tableName));
+
+  for (const name of [...(include ?? []), ...(exclude ?? [])]) {
+    if (!tableNames.has(name)) {
+      throw new Error(
+        `Drizzle-GraphQL Error: config.tables references unknown table '${name}'!`,
+      );
+    }
+  }
+  for (const option of ["columns", "operations", "search"] as const) {
+    for (const name of Object.keys(config[option] ?? {})) {
+      if (!tableNames.has(name)) {
+        throw new Error(
+          `Drizzle-GraphQL Error: config.${option} references unknown table '${name}'!`,
+        );
+      }
+    }
+  }
+  for (
+    const [name, enumNames] of Object.entries(config.naming?.enums ?? {})
+  ) {
+    const table = tableEntries.find(([tableName]) => tableName === name)?.[1];
+    if (!table) {
+      throw new Error(
+        `Drizzle-GraphQL Error: config.naming.enums references unknown table '${name}'!`,
+      );
+    }
+    const columns = getTableColumns(table);
+    for (const columnName of Object.keys(enumNames)) {
+      const column = columns[columnName];
+      if (!column?.enumValues?.length || is(column, PgEnumColumn)) {
+        throw new Error(
+          `Drizzle-GraphQL Error: config.naming.enums.${name} references '${columnName}', which is not an inline enum column!`,
+        );
+      }
+    }
+  }
+
+  const filtered = tableEntries.filter(([tableName]) =>
+    (!include || include.includes(tableName)) &&
+    !exclude?.includes(tableName)
+  );
+  if (!filtered.length) {
+    throw new Error(
+      "Drizzle-GraphQL Error: config.tables excludes every table in the schema!",
+    );
+  }
+
+  const naming = getNaming(config);
+  for (const getName of [naming.tableType, naming.query]) {
+    const tablesByName = new Map<string, string>();
+    for (const [tableName] of filtered) {
+      const name = getName(tableName);
+      const collision = tablesByName.get(name);
+      if (collision !== undefined) {
+        throw new Error(
+          `Drizzle-GraphQL Error: Tables '${collision}' and '${tableName}' are both named '${name}'! Exclude one of them with config.tables or change config.naming.tables.`,
+        );
+      }
+      tablesByName.set(name, tableName);
+    }
+  }
+
+  return filtered;
+};
+
+/**
+ * Returns the columns of a table that are visible according to the `columns` config option.
+ *
+ * Hidden columns are left out of every generated type, so they cannot be selected, filtered,
+ * ordered or written through the GraphQL schema.
+ *
+ * @param table - The database table.
+ * @param tableName - The name of the table in the Drizzle schema.
+ * @param config - The schema build configuration.
+ * @returns A record mapping visible column names to their Column definitions.
+ * @throws Error if a configured column does not exist, or if every column of the table is hidden.
+ */
+export const getVisibleTableColumns = (
+  table: Table,
+  tableName: string,
+  config: BuildSchemaConfig,
+): Record<string, Column> => {
+  const columns = getTableColumns(table);
+  const visibility = config.columns?.[tableName];
+  if (!visibility) return columns;
+
+  const { include, exclude } = visibility;
+  for (const name of [...(include ?? []), ...(exclude ?? [])]) {
+    if (!columns[name]) {
+      throw new Error(
+        `Drizzle-GraphQL Error: config.columns.${tableName} references unknown column '${name}'!`,
+      );
+    }
+  }
+
+  const visible = Object.fromEntries(
+    Object.entries(columns).filter(([columnName]) =>
+      (!include || include.includes(columnName)) &&
+      !exclude?.includes(columnName)
+    ),
+  );
+  if (!Object.keys(visible).length) {
+    throw new Error(
+      `Drizzle-GraphQL Error: config.columns.${tableName} hides every column of the table!`,
+    );
+  }
+
+  return visible;
+};
+
+/**
+ * Returns which operations should be generated for a table according to the `operations` config option.
+ *
+ * @param tableName - The name of the table in the Drizzle schema.
+ * @param config - The schema build configuration.
+ * @returns A record mapping every table operation to whether it is generated.
+ */
+export const getTableOperations = (
+  tableName: string,
+  config: BuildSchemaConfig,
+): Record<TableOperation, boolean> => {
+  const operations = config.operations?.[tableName] ?? {};
+  return {
+    query: operations.query !== false,
+    querySingle: operations.querySingle !== false,
+    aggregate: operations.aggregate !== false,
+    groupBy: operations.groupBy !== false,
+    insert: operations.insert !== false,
+    insertSingle: operations.insertSingle !== false,
+    update: operations.update !== false,
+    delete: operations.delete !== false,
+  };
+};
+
+/**
+ * Returns the cache bucket of a config-scoped cache for the given build configuration.
+ *
+ * Generated types depend on the build configuration, so schemas built with different
+ * configurations must not share them.
+ *
+ * @template V - The type of the cached values.
+ * @param cache - The cache holding one WeakMap per build configuration.
+ * @param config - The schema build configuration.
+ * @returns The WeakMap holding the cached values for this configuration.
+ */
+const configScope = <V>(
+  cache: WeakMap<BuildSchemaConfig, WeakMap<object, V>>,
+  config: BuildSchemaConfig,
+): WeakMap<object, V> => {
+  if (!cache.has(config)) cache.set(config, new WeakMap());
+  return cache.get(config)!;
+};
+
 /**
  * Extracts selected columns from a parsed GraphQL resolve tree.
  *
@@ -146,13 +393,17 @@ export const filterTypeCache = new Cache<object, GraphQLInputObjectType>();
  *
  * @param tree - A record of ResolveTree objects representing the GraphQL query selection.
  * @param table - The database table from which to extract columns.
+ * @param tableName - The name of the table in the Drizzle schema.
+ * @param config - The schema build configuration.
  * @returns A record mapping column names to `true`, indicating selected columns.
  */
 export const extractSelectedColumnsFromTree = (
   tree: Record<string, ResolveTree>,
   table: Table,
+  tableName: string,
+  config: BuildSchemaConfig,
 ): Record<string, true> => {
-  const tableColumns = getTableColumns(table);
+  const tableColumns = getVisibleTableColumns(table, tableName, config);
   const selectedColumns: SelectedColumnsRaw = [];
   for (const [_fieldName, fieldData] of Object.entries(tree)) {
     if (tableColumns[fieldData.name]) {
@@ -176,6 +427,8 @@ export const extractSelectedColumnsFromTree = (
  * @template TColType - The expected column type.
  * @param tree - A record of ResolveTree objects representing the GraphQL query selection.
  * @param table - The database table from which to extract columns.
+ * @param tableName - The name of the table in the Drizzle schema.
+ * @param config - The schema build configuration.
  * @returns A record mapping column names to Column objects.
  */
 export const extractSelectedColumnsFromTreeSQLFormat = <
@@ -183,8 +436,10 @@ export const extractSelectedColumnsFromTreeSQLFormat = <
 >(
   tree: Record<string, ResolveTree>,
   table: Table,
+  tableName: string,
+  config: BuildSchemaConfig,
 ): Record<string, TColType> => {
-  const tableColumns = getTableColumns(table);
+  const tableColumns = getVisibleTableColumns(table, tableName, config);
   const selectedColumns: SelectedSQLColumns = [];
   for (const [_fieldName, fieldData] of Object.entries(tree)) {
     if (tableColumns[fieldData.name]) {
@@ -201,9 +456,10 @@ export const extractSelectedColumnsFromTreeSQLFormat = <
 /**
  * A GraphQL input object type representing ordering options for a column.
  *
- * Contains two fields:
+ * Contains three fields:
  * - direction: The sort direction (ascending or descending).
  * - priority: The priority of the field when sorting.
+ * - nulls: Whether null values sort first or last.
  */
 export const innerOrder = new GraphQLInputObjectType({
   name: "InnerOrder" as const,
@@ -230,25 +486,302 @@ export const innerOrder = new GraphQLInputObjectType({
       type: new GraphQLNonNull(GraphQLInt),
       description: "Priority of current field",
     },
+    nulls: {
+      type: new GraphQLEnumType({
+        name: "OrderNulls",
+        description: "Order by placement of null values",
+        values: {
+          first: {
+            value: "first",
+            description: "Nulls before other values",
+          },
+          last: {
+            value: "last",
+            description: "Nulls after other values",
+          },
+        },
+      }),
+      description:
+        "Placement of null values, last when ascending and first when descending if omitted",
+    },
+  } as const,
+});
+
+// The functions measuring the distance between vectors, keyed by metric. The inner product is
+// negated, so that closer vectors have smaller distances for every metric.
+const vectorDistanceFunctions = {
+  l2: l2Distance,
+  l1: l1Distance,
+  cosine: cosineDistance,
+  innerProduct,
+} as const;
+
+// The metric of the distance between vectors, shared by every vector filter and order.
+const vectorDistanceMetric = new GraphQLEnumType({
+  name: "VectorDistanceMetric",
+  description: "Metric of the distance between vectors",
+  values: {
+    l2: { value: "l2", description: "Euclidean distance" },
+    l1: { value: "l1", description: "Taxicab distance" },
+    cosine: { value: "cosine", description: "Cosine distance" },
+    innerProduct: {
+      value: "innerProduct",
+      description: "Negative inner product",
+    },
+  },
+});
+
+/**
+ * A GraphQL input object type representing ordering options for a vector column.
+ *
+ * Extends the fields of `innerOrder` with `distanceTo`, ordering by the distance to a vector
+ * instead of by the vectors themselves, and `metric`, the metric of that distance.
+ */
+const vectorOrder = new GraphQLInputObjectType({
+  name: "VectorOrder",
+  fields: () => ({
+    ...innerOrder.toConfig().fields,
+    distanceTo: {
+      type: new GraphQLList(new GraphQLNonNull(GraphQLFloat)),
+      description:
+        "Orders by the distance to the vector, nearest first when ascending",
+    },
+    metric: {
+      type: vectorDistanceMetric,
+      defaultValue: "l2",
+      description: "Metric of the distance to `distanceTo`",
+    },
+  }),
+});
+
+/**
+ * A GraphQL object type describing the returned page of a Relay connection.
+ */
+export const pageInfo = new GraphQLObjectType({
+  name: "PageInfo" as const,
+  fields: {
+    hasNextPage: {
+      type: new GraphQLNonNull(GraphQLBoolean),
+      description: "Whether more records follow the returned ones",
+    },
+    hasPreviousPage: {
+      type: new GraphQLNonNull(GraphQLBoolean),
+      description: "Whether more records precede the returned ones",
+    },
+    startCursor: {
+      type: GraphQLString,
+      description: "Cursor of the first returned record",
+    },
+    endCursor: {
+      type: GraphQLString,
+      description: "Cursor of the last returned record",
+    },
   } as const,
 });
 
+/**
+ * The aggregate functions exposed by aggregate queries, keyed by field name.
+ */
+const aggregateFunctions = { sum, avg, min, max } as const;
+
+// Operators comparing aggregates in having filters, and lengths in array filters.
+const aggregateOperators = { eq, ne, gt, gte, lt, lte } as const;
+
+// The input type comparing an aggregate with values, shared by every having filter.
+const aggregateFilters = new GraphQLInputObjectType({
+  name: "AggregateFilters",
+  fields: Object.fromEntries(
+    Object.keys(aggregateOperators).map((operator) => [
+      operator,
+      { type: GraphQLFloat },
+    ]),
+  ),
+});
+
+// Builds the input type matching the JSON value at a path, shared by every JSON filter.
+const generateJsonPathFilters = (name: string, valueType: GraphQLScalarType) =>
+  new GraphQLInputObjectType({
+    name,
+    fields: {
+      path: {
+        type: new GraphQLNonNull(
+          new GraphQLList(new GraphQLNonNull(GraphQLString)),
+        ),
+        description:
+          "Keys of objects and indexes of arrays leading to the value",
+      },
+      value: {
+        type: new GraphQLNonNull(valueType),
+        description: "JSON",
+      },
+    },
+  });
+const jsonPathFilters = generateJsonPathFilters(
+  "JsonPathFilters",
+  GraphQLString,
+);
+// The same input type when JSON values are represented by the `JSON` scalar.
+const jsonScalarPathFilters = generateJsonPathFilters(
+  "JsonScalarPathFilters",
+  GraphQLJSON,
+);
+
+// The input type comparing the distance of vectors to a vector, shared by every vector filter.
+const vectorDistanceFilters = new GraphQLInputObjectType({
+  name: "VectorDistanceFilters",
+  fields: {
+    to: {
+      type: new GraphQLNonNull(
+        new GraphQLList(new GraphQLNonNull(GraphQLFloat)),
+      ),
+      description: "Vector the distance is measured to",
+    },
+    metric: {
+      type: vectorDistanceMetric,
+      defaultValue: "l2",
+      description: "Metric of the distance",
+    },
+    ...Object.fromEntries(
+      Object.keys(aggregateOperators).map((operator) => [
+        operator,
+        { type: GraphQLFloat },
+      ]),
+    ),
+  },
+});
+
+// The input type comparing the length of an array with values, shared by every array filter.
+const arrayLengthFilters = new GraphQLInputObjectType({
+  name: "ArrayLengthFilters",
+  fields: Object.fromEntries(
+    Object.keys(aggregateOperators).map((operator) => [
+      operator,
+      { type: GraphQLInt },
+    ]),
+  ),
+});
+
+/**
+ * The pagination arguments of fields returning a Relay connection.
+ */
+const connectionArgs = {
+  first: {
+    type: GraphQLInt,
+    description: "Number of records to return after the `after` cursor",
+  },
+  after: {
+    type: GraphQLString,
+    description: "Cursor after which records are returned",
+  },
+  last: {
+    type: GraphQLInt,
+    description: "Number of records to return before the `before` cursor",
+  },
+  before: {
+    type: GraphQLString,
+    description: "Cursor before which records are returned",
+  },
+} as const;
+
+/**
+ * Generates the GraphQL Relay connection type for a node type.
+ *
+ * @param nodeType - The GraphQL object type of the connected records.
+ * @param typeName - The base name of the connection and edge types.
+ * @param config - The schema build configuration.
+ * @returns A non-null `{Type}Connection` type with `edges` and `pageInfo` fields, and a
+ * `totalCount` field if enabled.
+ */
+const generateConnectionType = (
+  nodeType: GraphQLObjectType,
+  typeName: string,
+  config: BuildSchemaConfig,
+): GraphQLNonNull<GraphQLObjectType> => {
+  const naming = getNaming(config);
+  const edgeType = new GraphQLObjectType({
+    name: naming.edge(typeName),
+    fields: {
+      cursor: { type: new GraphQLNonNull(GraphQLString) },
+      node: { type: new GraphQLNonNull(nodeType) },
+    },
+  });
+
+  return new GraphQLNonNull(
+    new GraphQLObjectType({
+      name: naming.connection(typeName),
+      fields: {
+        edges: { type: nonNullList(edgeType) },
+        pageInfo: { type: new GraphQLNonNull(pageInfo) },
+        ...(config.totalCount
+          ? {
+            totalCount: {
+              type: new GraphQLNonNull(GraphQLInt),
+              description: "Count of the records matching the filters",
+            },
+          }
+          : {}),
+      },
+    }),
+  );
+};
+
+/**
+ * Generates the fields nesting filters with logical operators.
+ *
+ * @param type - The filter input type the fields belong to.
+ * @returns The `AND` and `OR` fields taking lists of filters, and the `NOT` field.
+ */
+const generateLogicalFilterFields = (type: GraphQLInputObjectType) => ({
+  AND: {
+    type: new GraphQLList(new GraphQLNonNull(type)),
+    description: "Matches records matching every filter",
+  },
+  OR: {
+    type: new GraphQLList(new GraphQLNonNull(type)),
+    description: "Matches records matching any filter",
+  },
+  NOT: {
+    type,
+    description: "Matches records not matching the filter",
+  },
+});
+
+// The column types of JSON columns, which get the JSON operators in filters.
+const jsonColumnTypes = new Set(["PgJsonb", "MySqlJson", "SQLiteTextJson"]);
+
+// The column types of text columns, which get the string operators in filters.
+const textColumnTypes = new Set([
+  "PgText",
+  "PgVarchar",
+  "PgChar",
+  "MySqlText",
+  "MySqlVarChar",
+  "MySqlChar",
+  "SQLiteText",
+]);
+
 /**
  * Generates a GraphQL input type for filtering a specific column.
  *
  * This function creates an input object type that defines various filter operators (e.g. eq, ne, gt, lt)
- * for the provided column. It also includes an "OR" field for logical disjunction.
+ * for the provided column. Text columns also get string operators, with `ilike` and `notIlike` only on
+ * PostgreSQL. JSON columns also get JSON operators. Array columns get equality, array and length operators
+ * instead of the scalar ones, and vector columns equality and distance operators. It also includes the
+ * "AND", "OR" and "NOT" fields nesting operators.
  *
  * @param column - The database column to filter.
  * @param tableName - The name of the table containing the column.
  * @param columnName - The name of the column.
+ * @param config - The schema build configuration.
  * @returns A GraphQLInputObjectType defining filter operators for the column.
  */
 const generateColumnFilterValues = (
   column: Column,
   tableName: string,
   columnName: string,
+  config: BuildSchemaConfig,
 ): GraphQLInputObjectType => {
+  const naming = getNaming(config);
   const columnGraphQLType = drizzleColumnToGraphQLType(
     column,
     columnName,
@@ -256,10 +789,11 @@ const generateColumnFilterValues = (
     true,
     false,
     true,
+    config,
   );
   const columnArr = new GraphQLList(new GraphQLNonNull(columnGraphQLType.type));
 
-  const baseFields = {
+  const equalityFields = {
     eq: {
       type: columnGraphQLType.type,
       description: columnGraphQLType.description,
@@ -268,90 +802,178 @@ const generateColumnFilterValues = (
       type: columnGraphQLType.type,
       description: columnGraphQLType.description,
     },
-    lt: {
-      type: columnGraphQLType.type,
-      description: columnGraphQLType.description,
-    },
-    lte: {
-      type: columnGraphQLType.type,
-      description: columnGraphQLType.description,
-    },
-    gt: {
-      type: columnGraphQLType.type,
-      description: columnGraphQLType.description,
-    },
-    gte: {
-      type: columnGraphQLType.type,
-      description: columnGraphQLType.description,
-    },
-    like: { type: GraphQLString },
-    notLike: { type: GraphQLString },
-    ilike: { type: GraphQLString },
-    notIlike: { type: GraphQLString },
-    inArray: {
-      type: columnArr,
-      description: `Array<${columnGraphQLType.description}>`,
-    },
-    notInArray: {
-      type: columnArr,
-      description: `Array<${columnGraphQLType.description}>`,
-    },
+  };
+  const nullFields = {
     isNull: { type: GraphQLBoolean },
     isNotNull: { type: GraphQLBoolean },
   };
 
+  const baseFields = is(column, PgArray)
+    ? {
+      ...equalityFields,
+      arrayContains: {
+        type: columnGraphQLType.type,
+        description: "Matches arrays containing every element of the array",
+      },
+      arrayContained: {
+        type: columnGraphQLType.type,
+        description: "Matches arrays whose elements are all in the array",
+      },
+      arrayOverlaps: {
+        type: columnGraphQLType.type,
+        description: "Matches arrays sharing an element with the array",
+      },
+      length: {
+        type: arrayLengthFilters,
+        description: "Compares the number of elements of arrays",
+      },
+      ...nullFields,
+    }
+    : is(column, PgVector)
+    ? {
+      ...equalityFields,
+      distance: {
+        type: vectorDistanceFilters,
+        description: "Compares the distance of vectors to a vector",
+      },
+      ...nullFields,
+    }
+    : {
+      ...equalityFields,
+      lt: {
+        type: columnGraphQLType.type,
+        description: columnGraphQLType.description,
+      },
+      lte: {
+        type: columnGraphQLType.type,
+        description: columnGraphQLType.description,
+      },
+      gt: {
+        type: columnGraphQLType.type,
+        description: columnGraphQLType.description,
+      },
+      gte: {
+        type: columnGraphQLType.type,
+        description: columnGraphQLType.description,
+      },
+      ...(textColumnTypes.has(column.columnType)
+        ? {
+          like: { type: GraphQLString },
+          notLike: { type: GraphQLString },
+          ...(is(column, PgColumn)
+            ? {
+              ilike: { type: GraphQLString },
+              notIlike: { type: GraphQLString },
+            }
+            : {}),
+          startsWith: {
+            type: GraphQLString,
+            description: "Matches values starting with the string",
+          },
+          endsWith: {
+            type: GraphQLString,
+            description: "Matches values ending with the string",
+          },
+          contains: {
+            type: GraphQLString,
+            description: "Matches values containing the string",
+          },
+          containsInsensitive: {
+            type: GraphQLString,
+            description: "Matches values containing the string, ignoring case",
+          },
+        }
+        : {}),
+      ...(jsonColumnTypes.has(column.columnType)
+        ? {
+          pathEquals: {
+            type: isJsonScalar(config)
+              ? jsonScalarPathFilters
+              : jsonPathFilters,
+            description: "Matches values holding the JSON value at the path",
+          },
+          hasKey: {
+            type: GraphQLString,
+            description: "Matches objects holding the key",
+          },
+          jsonContains: {
+            type: isJsonScalar(config) ? GraphQLJSON : GraphQLString,
+            description: "Matches values containing the JSON value",
+          },
+        }
+        : {}),
+      inArray: {
+        type: columnArr,
+        description: `Array<${columnGraphQLType.description}>`,
+      },
+      notInArray: {
+        type: columnArr,
+        description: `Array<${columnGraphQLType.description}>`,
+      },
+      ...nullFields,
+    };
+
   const type: GraphQLInputObjectType = new GraphQLInputObjectType({
-    name: `${capitalize(tableName)}${capitalize(columnName)}Filters`,
-    fields: {
+    name: naming.columnFilters(tableName, columnName),
+    fields: () => ({
       ...baseFields,
-      OR: {
-        type: new GraphQLList(
-          new GraphQLNonNull(
-            new GraphQLInputObjectType({
-              name: `${capitalize(tableName)}${
-                capitalize(columnName)
-              }filtersOr`,
-              fields: {
-                ...baseFields,
-              },
-            }),
-          ),
-        ),
-      },
-    },
+      ...generateLogicalFilterFields(type),
+    }),
   });
 
   return type;
 };
 
 // Caches for table ordering fields.
-const orderMap = new WeakMap<object, Record<string, ConvertedInputColumn>>();
+const orderMap = new WeakMap<
+  BuildSchemaConfig,
+  WeakMap<object, Record<string, ConvertedInputColumn>>
+>();
 /**
  * Caches and returns a mapping of column names to their GraphQL order type for a table.
  *
  * If the mapping for the table is already cached, it returns the cached version.
- * Otherwise, it creates a new mapping where each column is assigned the innerOrder type.
+ * Otherwise, it creates a new mapping where each column is assigned the innerOrder type. Unless
+ * connections are enabled, whose cursors only hold column values, vector columns are assigned
+ * the vectorOrder type instead.
  *
  * @param table - The database table.
+ * @param tableName - The name of the table.
+ * @param config - The schema build configuration.
  * @returns A record mapping column names to ConvertedInputColumn representing order configuration.
  */
-const generateTableOrderCached = (table: Table) => {
-  if (orderMap.has(table)) return orderMap.get(table)!;
+const generateTableOrderCached = (
+  table: Table,
+  tableName: string,
+  config: BuildSchemaConfig,
+) => {
+  const cache = configScope(orderMap, config);
+  if (cache.has(table)) return cache.get(table)!;
 
-  const columns = getTableColumns(table);
+  const columns = getVisibleTableColumns(table, tableName, config);
   const columnEntries = Object.entries(columns);
 
   const remapped = Object.fromEntries(
-    columnEntries.map(([columnName, _]) => [columnName, { type: innerOrder }]),
+    columnEntries.map(([columnName, column]) => [
+      columnName,
+      {
+        type: is(column, PgVector) && !config.connections
+          ? vectorOrder
+          : innerOrder,
+      },
+    ]),
   );
 
-  orderMap.set(table, remapped);
+  cache.set(table, remapped);
 
   return remapped;
 };
 
 // Caches for table filter input types.
-const filterMap = new WeakMap<object, Record<string, ConvertedInputColumn>>();
+const filterMap = new WeakMap<
+  BuildSchemaConfig,
+  WeakMap<object, Record<string, ConvertedInputColumn>>
+>();
 /**
  * Caches and returns a mapping of column names to their GraphQL filter input types for a table.
  *
@@ -360,12 +982,18 @@ const filterMap = new WeakMap<object, Record<string, ConvertedInputColumn>>();
  *
  * @param table - The database table.
  * @param tableName - The name of the table.
+ * @param config - The schema build configuration.
  * @returns A record mapping column names to ConvertedInputColumn representing filter configuration.
  */
-const generateTableFilterValuesCached = (table: Table, tableName: string) => {
-  if (filterMap.has(table)) return filterMap.get(table)!;
+const generateTableFilterValuesCached = (
+  table: Table,
+  tableName: string,
+  config: BuildSchemaConfig,
+) => {
+  const cache = configScope(filterMap, config);
+  if (cache.has(table)) return cache.get(table)!;
 
-  const columns = getTableColumns(table);
+  const columns = getVisibleTableColumns(table, tableName, config);
   const columnEntries = Object.entries(columns);
 
   const remapped = Object.fromEntries(
@@ -376,18 +1004,22 @@ const generateTableFilterValuesCached = (table: Table, tableName: string) => {
           columnDescription,
           tableName,
           columnName,
+          config,
         ),
       },
     ]),
   );
 
-  filterMap.set(table, remapped);
+  cache.set(table, remapped);
 
   return remapped;
 };
 
 // Caches for table select type fields.
-const fieldMap = new WeakMap<object, Record<string, ConvertedColumn>>();
+const fieldMap = new WeakMap<
+  BuildSchemaConfig,
+  WeakMap<object, Record<string, ConvertedColumn>>
+>();
 /**
  * Caches and returns the GraphQL type fields for a table's select query.
  *
@@ -395,119 +1027,414 @@ const fieldMap = new WeakMap<object, Record<string, ConvertedColumn>>();
  *
  * @param table - The database table.
  * @param tableName - The name of the table.
+ * @param config - The schema build configuration.
  * @returns A record mapping column names to their corresponding ConvertedColumn.
  */
 const generateTableSelectTypeFieldsCached = (
   table: Table,
   tableName: string,
+  config: BuildSchemaConfig,
 ): Record<string, ConvertedColumn> => {
-  if (fieldMap.has(table)) return fieldMap.get(table)!;
+  const cache = configScope(fieldMap, config);
+  if (cache.has(table)) return cache.get(table)!;
 
-  const columns = getTableColumns(table);
+  const columns = getVisibleTableColumns(table, tableName, config);
   const columnEntries = Object.entries(columns);
 
   const remapped = Object.fromEntries(
     columnEntries.map(([columnName, columnDescription]) => [
       columnName,
-      drizzleColumnToGraphQLType(columnDescription, columnName, tableName),
+      drizzleColumnToGraphQLType(
+        columnDescription,
+        columnName,
+        tableName,
+        false,
+        false,
+        false,
+        config,
+      ),
     ]),
   );
 
-  fieldMap.set(table, remapped);
+  cache.set(table, remapped);
 
   return remapped;
 };
 
 // Caches for table order GraphQL input types.
-const orderTypeMap = new WeakMap<object, GraphQLInputObjectType>();
+const orderTypeMap = new WeakMap<
+  BuildSchemaConfig,
+  WeakMap<object, GraphQLInputObjectType>
+>();
 /**
  * Caches and returns the GraphQL input type for ordering a table.
  *
- * It builds the input type based on the cached order fields of the table.
+ * It builds the input type based on the cached order fields of the table. Unless connections
+ * are enabled, whose cursors only hold column values, it adds a field per relation ordering
+ * on the related records.
  *
  * @param table - The database table.
  * @param tableName - The name of the table.
+ * @param relationMap - A mapping of table names to their relation configurations.
+ * @param config - The schema build configuration.
  * @returns A GraphQLInputObjectType representing the table's order by input type.
  */
-const generateTableOrderTypeCached = (table: Table, tableName: string) => {
-  if (orderTypeMap.has(table)) return orderTypeMap.get(table)!;
+const generateTableOrderTypeCached = (
+  table: Table,
+  tableName: string,
+  relationMap: Record<string, Record<string, TableNamedRelations>>,
+  config: BuildSchemaConfig,
+): GraphQLInputObjectType => {
+  const cache = configScope(orderTypeMap, config);
+  if (cache.has(table)) return cache.get(table)!;
 
-  const orderColumns = generateTableOrderCached(table);
+  const orderColumns = generateTableOrderCached(table, tableName, config);
   const order = new GraphQLInputObjectType({
-    name: `${capitalize(tableName)}OrderBy`,
-    fields: orderColumns,
+    name: getNaming(config).orderBy(tableName),
+    fields: () =>
+      config.connections ? orderColumns : {
+        ...orderColumns,
+        ...generateRelationOrderFields(tableName, relationMap, config),
+      },
   });
 
-  orderTypeMap.set(table, order);
+  cache.set(table, order);
 
   return order;
 };
 
-// Caches for table filter GraphQL input types.
-const filterTypeMap = new WeakMap<object, GraphQLInputObjectType>();
+// Caches for the input types ordering records by the aggregates of their related records.
+const aggregateOrderTypeMap = new WeakMap<
+  BuildSchemaConfig,
+  WeakMap<object, Record<string, ConvertedInputColumn>>
+>();
 /**
- * Caches and returns the GraphQL input type for filtering a table.
+ * Caches and returns the fields ordering records by the aggregates of the records of a table.
  *
- * It builds the input type based on the cached filter fields of the table.
+ * Tables with numeric columns get `sum`, `avg`, `min` and `max` fields, each holding an order
+ * field per numeric column.
  *
  * @param table - The database table.
  * @param tableName - The name of the table.
- * @returns A GraphQLInputObjectType representing the table's filters input type.
+ * @param config - The schema build configuration.
+ * @returns A record mapping aggregate function names to their order input fields.
  */
-const generateTableFilterTypeCached = (table: Table, tableName: string) => {
-  if (filterTypeMap.has(table)) return filterTypeMap.get(table)!;
-
-  const filterColumns = generateTableFilterValuesCached(table, tableName);
-  const filters: GraphQLInputObjectType = new GraphQLInputObjectType({
-    name: `${capitalize(tableName)}Filters`,
-    fields: {
-      ...filterColumns,
-      OR: {
-        type: new GraphQLList(
-          new GraphQLNonNull(
-            new GraphQLInputObjectType({
-              name: `${capitalize(tableName)}FiltersOr`,
-              fields: filterColumns,
-            }),
-          ),
-        ),
-      },
-    },
-  });
+const generateAggregateOrderFieldsCached = (
+  table: Table,
+  tableName: string,
+  config: BuildSchemaConfig,
+): Record<string, ConvertedInputColumn> => {
+  const cache = configScope(aggregateOrderTypeMap, config);
+  if (cache.has(table)) return cache.get(table)!;
+
+  const naming = getNaming(config);
+  const numericColumns = Object.keys(
+    getNumericTableColumns(table, tableName, config),
+  );
+  const fields: Record<string, ConvertedInputColumn> = numericColumns.length
+    ? Object.fromEntries(
+      Object.keys(aggregateFunctions).map((functionName) => [
+        functionName,
+        {
+          type: new GraphQLInputObjectType({
+            name: naming.aggregateOrderBy(tableName, functionName),
+            fields: Object.fromEntries(
+              numericColumns.map((columnName) => [
+                columnName,
+                { type: innerOrder },
+              ]),
+            ),
+          }),
+        },
+      ]),
+    )
+    : {};
 
-  filterTypeMap.set(table, filters);
+  cache.set(table, fields);
 
-  return filters;
+  return fields;
 };
 
 /**
- * Recursively generates the field definitions for a table select query.
+ * Generates the fields ordering the records of a table by their related records.
  *
- * This function generates the GraphQL field definitions for selecting data from a table,
- * including nested relations up to a specified depth.
+ * One-relations take the order of the related table. Many-relations take a
+ * `{Table}{Relation}OrderBy` type ordering by the count and the aggregates of the related records.
  *
- * @template TWithOrder - Indicates whether ordering is enabled.
- * @param tables - A record mapping table names to Table definitions.
- * @param tableName - The name of the current table.
+ * @param tableName - The name of the table.
  * @param relationMap - A mapping of table names to their relation configurations.
- * @param typeName - The base type name for generating nested types.
- * @param withOrder - Whether to include order information.
- * @param relationsDepthLimit - The maximum depth for nested relation fields.
- * @param currentDepth - The current recursion depth (default is 0).
- * @param usedTables - A set of table names that have already been processed to avoid circular references.
- * @returns A SelectData object containing order type, filters type, table fields, and relation fields.
+ * @param config - The schema build configuration.
+ * @returns A record mapping relation names to their order input fields.
  */
-const generateSelectFields = <TWithOrder extends boolean>(
-  tables: Record<string, Table>,
+const generateRelationOrderFields = (
   tableName: string,
   relationMap: Record<string, Record<string, TableNamedRelations>>,
-  typeName: string,
-  withOrder: TWithOrder,
-  relationsDepthLimit: number | undefined,
-  currentDepth: number = 0,
-  usedTables: Set<string> = new Set(),
-): SelectData<TWithOrder> => {
-  const relations = relationMap[tableName];
+  config: BuildSchemaConfig,
+): Record<string, ConvertedInputColumn> => {
+  const naming = getNaming(config);
+  return Object.fromEntries(
+    Object.entries(relationMap[tableName] ?? {}).map((
+      [relationName, { relation, targetTableName }],
+    ) => {
+      if (is(relation, One)) {
+        return [relationName, {
+          type: generateTableOrderTypeCached(
+            relation.referencedTable,
+            targetTableName,
+            relationMap,
+            config,
+          ),
+        }];
+      }
+
+      return [relationName, {
+        type: new GraphQLInputObjectType({
+          name: naming.relationOrderBy(tableName, relationName),
+          fields: {
+            count: {
+              type: innerOrder,
+              description: "Order by the count of the related records",
+            },
+            ...generateAggregateOrderFieldsCached(
+              relation.referencedTable,
+              targetTableName,
+              config,
+            ),
+          },
+        }),
+      }];
+    }),
+  );
+};
+
+/**
+ * Generates the fields filtering the records of a table on their related records.
+ *
+ * One-relations take the filters of the related table. Many-relations take a
+ * `{Table}{Relation}Filters` type with `some`, `every` and `none` fields.
+ *
+ * @param tableName - The name of the table.
+ * @param relationMap - A mapping of table names to their relation configurations.
+ * @param config - The schema build configuration.
+ * @returns A record mapping relation names to their filter input fields.
+ */
+const generateRelationFilterFields = (
+  tableName: string,
+  relationMap: Record<string, Record<string, TableNamedRelations>>,
+  config: BuildSchemaConfig,
+): Record<string, ConvertedInputColumn> => {
+  const naming = getNaming(config);
+  return Object.fromEntries(
+    Object.entries(relationMap[tableName] ?? {}).map((
+      [relationName, { relation, targetTableName }],
+    ) => {
+      const targetFilters = generateTableFilterTypeCached(
+        relation.referencedTable,
+        targetTableName,
+        relationMap,
+        config,
+      );
+      if (is(relation, One)) return [relationName, { type: targetFilters }];
+
+      return [relationName, {
+        type: new GraphQLInputObjectType({
+          name: naming.relationFilters(tableName, relationName),
+          fields: {
+            some: {
+              type: targetFilters,
+              description:
+                "Matches records with a related record matching the filters",
+            },
+            every: {
+              type: targetFilters,
+              description:
+                "Matches records whose related records all match the filters",
+            },
+            none: {
+              type: targetFilters,
+              description:
+                "Matches records with no related record matching the filters",
+            },
+          },
+        }),
+      }];
+    }),
+  );
+};
+
+// Caches for table filter GraphQL input types.
+const filterTypeMap = new WeakMap<
+  BuildSchemaConfig,
+  WeakMap<object, GraphQLInputObjectType>
+>();
+/**
+ * Caches and returns the GraphQL input type for filtering a table.
+ *
+ * It builds the input type based on the cached filter fields of the table, and adds a field
+ * per relation filtering on the related records.
+ *
+ * @param table - The database table.
+ * @param tableName - The name of the table.
+ * @param relationMap - A mapping of table names to their relation configurations.
+ * @param config - The schema build configuration.
+ * @returns A GraphQLInputObjectType representing the table's filters input type.
+ */
+const generateTableFilterTypeCached = (
+  table: Table,
+  tableName: string,
+  relationMap: Record<string, Record<string, TableNamedRelations>>,
+  config: BuildSchemaConfig,
+): GraphQLInputObjectType => {
+  const cache = configScope(filterTypeMap, config);
+  if (cache.has(table)) return cache.get(table)!;
+
+  const filterColumns = generateTableFilterValuesCached(
+    table,
+    tableName,
+    config,
+  );
+  const naming = getNaming(config);
+  const filters: GraphQLInputObjectType = new GraphQLInputObjectType({
+    name: naming.filters(tableName),
+    fields: () => ({
+      ...filterColumns,
+      ...generateRelationFilterFields(tableName, relationMap, config),
+      ...generateLogicalFilterFields(filters),
+    }),
+  });
+
+  cache.set(table, filters);
+
+  return filters;
+};
+
+/**
+ * Returns the searched columns of a table according to the `search` config option.
+ *
+ * @param table - The database table.
+ * @param tableName - The name of the table in the Drizzle schema.
+ * @param config - The schema build configuration.
+ * @returns The searched columns, in the configured order.
+ * @throws Error if a searched column does not exist or is hidden, if no column is searched, or if a
+ * SQLite table lacks its FTS5 table or a single-column primary key.
+ */
+const getSearchColumns = (
+  table: Table,
+  tableName: string,
+  config: BuildSchemaConfig,
+): Column[] => {
+  const { columns: columnNames, ftsTable } = config.search![tableName]!;
+  if (!columnNames.length) {
+    throw new Error(
+      `Drizzle-GraphQL Error: config.search.${tableName} searches no columns!`,
+    );
+  }
+  const columns = getVisibleTableColumns(table, tableName, config);
+  for (const name of columnNames) {
+    if (!columns[name]) {
+      throw new Error(
+        `Drizzle-GraphQL Error: config.search.${tableName} references unknown or hidden column '${name}'!`,
+      );
+    }
+  }
+  if (!is(table, PgTable) && !is(table, MySqlTable)) {
+    if (!ftsTable) {
+      throw new Error(
+        `Drizzle-GraphQL Error: config.search.${tableName} requires ftsTable on SQLite!`,
+      );
+    }
+    const primaryKey = Object.values(getTableColumns(table)).filter((column) =>
+      column.primary
+    );
+    if (primaryKey.length !== 1) {
+      throw new Error(
+        `Drizzle-GraphQL Error: config.search.${tableName} requires a single-column primary key on SQLite!`,
+      );
+    }
+  }
+
+  return columnNames.map((name) => columns[name]!);
+};
+
+// Caches for table search GraphQL input types.
+const searchTypeMap = new WeakMap<
+  BuildSchemaConfig,
+  WeakMap<object, GraphQLInputObjectType>
+>();
+/**
+ * Returns the `search` argument of the queries of a table, if the table is searchable.
+ *
+ * The searched columns are validated when the input type is first built. Unless connections
+ * are enabled, whose cursors only hold column values, the input type can order by relevance.
+ *
+ * @param table - The database table.
+ * @param tableName - The name of the table.
+ * @param config - The schema build configuration.
+ * @returns The `search` argument, or no arguments if the table is not searchable.
+ * @throws Error if the `search` config option of the table is not valid.
+ */
+export const generateSearchArgs = (
+  table: Table,
+  tableName: string,
+  config: BuildSchemaConfig,
+): GraphQLFieldConfigArgumentMap => {
+  if (!config.search?.[tableName]) return {};
+
+  const cache = configScope(searchTypeMap, config);
+  if (!cache.has(table)) {
+    getSearchColumns(table, tableName, config);
+    cache.set(
+      table,
+      new GraphQLInputObjectType({
+        name: getNaming(config).search(tableName),
+        fields: {
+          query: {
+            type: new GraphQLNonNull(GraphQLString),
+            description: "Plain text query, whose words must all match",
+          },
+          ...(config.connections ? {} : {
+            relevance: {
+              type: innerOrder,
+              description:
+                "Order by relevance to the query, most relevant first when descending",
+            },
+          }),
+        },
+      }),
+    );
+  }
+
+  return { search: { type: cache.get(table)! } };
+};
+
+/**
+ * Recursively generates the field definitions for a table select query.
+ *
+ * This function generates the GraphQL field definitions for selecting data from a table,
+ * including nested relations up to a specified depth.
+ *
+ * @template TWithOrder - Indicates whether ordering is enabled.
+ * @param tables - A record mapping table names to Table definitions.
+ * @param tableName - The name of the current table.
+ * @param relationMap - A mapping of table names to their relation configurations.
+ * @param typeName - The base type name for generating nested types.
+ * @param withOrder - Whether to include order information.
+ * @param config - The schema build configuration, including the relation depth limit.
+ * @param currentDepth - The current recursion depth (default is 0).
+ * @param usedTables - A set of table names that have already been processed to avoid circular references.
+ * @returns A SelectData object containing order type, filters type, table fields, and relation fields.
+ */
+const generateSelectFields = <TWithOrder extends boolean>(
+  tables: Record<string, Table>,
+  tableName: string,
+  relationMap: Record<string, Record<string, TableNamedRelations>>,
+  typeName: string,
+  withOrder: TWithOrder,
+  config: BuildSchemaConfig,
+  currentDepth: number = 0,
+  usedTables: Set<string> = new Set(),
+): SelectData<TWithOrder> => {
+  const relations = relationMap[tableName];
   const relationEntries: [string, TableNamedRelations][] = relations
     ? Object.entries(relations)
     : [];
@@ -515,12 +1442,22 @@ const generateSelectFields = <TWithOrder extends boolean>(
   const table = tables[tableName]!;
 
   const order = withOrder
-    ? generateTableOrderTypeCached(table, tableName)
+    ? generateTableOrderTypeCached(table, tableName, relationMap, config)
     : undefined;
 
-  const filters = generateTableFilterTypeCached(table, tableName);
+  const filters = generateTableFilterTypeCached(
+    table,
+    tableName,
+    relationMap,
+    config,
+  );
 
-  const tableFields = generateTableSelectTypeFieldsCached(table, tableName);
+  const tableFields = generateTableSelectTypeFieldsCached(
+    table,
+    tableName,
+    config,
+  );
+  const { relationsDepthLimit } = config;
 
   if (
     usedTables.has(tableName) ||
@@ -541,7 +1478,7 @@ const generateSelectFields = <TWithOrder extends boolean>(
   const newDepth = currentDepth + 1;
 
   for (const [relationName, { targetTableName, relation }] of relationEntries) {
-    const relTypeName = `${typeName}${capitalize(relationName)}Relation`;
+    const relTypeName = getNaming(config).relation(typeName, relationName);
     const isOne = is(relation, One);
 
     const relData = generateSelectFields(
@@ -550,7 +1487,7 @@ const generateSelectFields = <TWithOrder extends boolean>(
       relationMap,
       relTypeName,
       !isOne,
-      relationsDepthLimit,
+      config,
       newDepth,
       updatedUsedTables,
     );
@@ -574,6 +1511,36 @@ const generateSelectFields = <TWithOrder extends boolean>(
       continue;
     }
 
+    if (config.connections) {
+      rawRelationFields.push([
+        relationName,
+        {
+          type: generateConnectionType(relType, relTypeName, config),
+          args: {
+            where: { type: relData.filters },
+            orderBy: { type: relData.order! },
+            ...connectionArgs,
+          },
+          resolve: (source, args, _context, info) =>
+            remapToConnection(
+              (source[relationName] ?? []) as Record<string, unknown>[],
+              tables[targetTableName]!,
+              targetTableName,
+              args,
+              config,
+              source[
+                relationCountKey(
+                  getNaming(config).relationCount(relationName),
+                  info.path.key as string,
+                )
+              ] as number | undefined,
+            ),
+        },
+      ]);
+
+      continue;
+    }
+
     rawRelationFields.push([
       relationName,
       {
@@ -586,6 +1553,28 @@ const generateSelectFields = <TWithOrder extends boolean>(
         },
       },
     ]);
+
+    if (config.totalCount) {
+      const countName = getNaming(config).relationCount(relationName);
+      if (countName in tableFields || relations![countName]) {
+        throw new Error(
+          `Drizzle-GraphQL Error: Count field ${countName} of relation ${tableName}.${relationName} conflicts with an existing field!`,
+        );
+      }
+      rawRelationFields.push([
+        countName,
+        {
+          type: new GraphQLNonNull(GraphQLInt),
+          description:
+            `Count of the ${relationName} records matching the filters, those of the ${relationName} field if omitted`,
+          args: {
+            where: { type: relData.filters },
+          },
+          resolve: (source, _args, _context, info) =>
+            source[relationCountKey(countName, info.path.key as string)],
+        },
+      ]);
+    }
   }
 
   const relationFields = Object.fromEntries(rawRelationFields);
@@ -595,6 +1584,214 @@ const generateSelectFields = <TWithOrder extends boolean>(
   >;
 };
 
+// The types of the columns holding 64-bit integers and decimals, beyond the precision of floats.
+// SQLite bigints are stored as blobs, so they are not aggregated.
+const exactNumericColumnTypes = new Set([
+  "PgBigInt64",
+  "PgBigSerial64",
+  "MySqlBigInt64",
+  "PgNumeric",
+  "MySqlDecimal",
+  "SQLiteNumeric",
+]);
+
+/**
+ * Returns whether a column holds 64-bit integers or decimals, whose sums and averages are
+ * returned as strings instead of floats.
+ *
+ * @param column - The column to check.
+ * @returns True if the column holds exact numbers beyond the precision of floats.
+ */
+const isExactNumericColumn = (column: Column): boolean =>
+  exactNumericColumnTypes.has(column.columnType);
+
+/**
+ * Returns the visible columns of a table that are mapped to numeric GraphQL types, or hold
+ * 64-bit integers or decimals.
+ *
+ * These columns are exposed by the `sum`, `avg`, `min` and `max` fields of aggregate queries.
+ *
+ * @param table - The table definition.
+ * @param tableName - The name of the table in the Drizzle schema.
+ * @param config - The schema build configuration.
+ * @returns A record mapping column names to their Column objects.
+ */
+const getNumericTableColumns = (
+  table: Table,
+  tableName: string,
+  config: BuildSchemaConfig,
+): Record<string, Column> =>
+  Object.fromEntries(
+    Object.entries(getVisibleTableColumns(table, tableName, config)).filter((
+      [columnName, column],
+    ) => {
+      const { type } = drizzleColumnToGraphQLType(
+        column,
+        columnName,
+        tableName,
+        true,
+        false,
+        false,
+        config,
+      );
+      return type === GraphQLInt || type === GraphQLFloat ||
+        isExactNumericColumn(column);
+    }),
+  );
+
+/**
+ * Returns the visible columns of a table that can be grouped by.
+ *
+ * Columns mapped to lists or objects, and JSON columns, are not comparable in every dialect
+ * and are left out.
+ *
+ * @param table - The table definition.
+ * @param tableName - The name of the table in the Drizzle schema.
+ * @param config - The schema build configuration.
+ * @returns A record mapping column names to their Column objects.
+ */
+const getGroupableTableColumns = (
+  table: Table,
+  tableName: string,
+  config: BuildSchemaConfig,
+): Record<string, Column> =>
+  Object.fromEntries(
+    Object.entries(getVisibleTableColumns(table, tableName, config)).filter((
+      [columnName, column],
+    ) => {
+      if (column.dataType === "json") return false;
+      const { type } = drizzleColumnToGraphQLType(
+        column,
+        columnName,
+        tableName,
+        true,
+        false,
+        false,
+        config,
+      );
+      return isLeafType(type);
+    }),
+  );
+
+/**
+ * Generates the fields holding the aggregates of the records of a table.
+ *
+ * The fields are shared by the results of the aggregate and group-by queries. There is always
+ * a `count` field. Tables with numeric columns also get `sum` and `avg` fields returning floats,
+ * and `min` and `max` fields returning the type of each column. The sums of 64-bit integer and
+ * decimal columns keep the type of the column, and their averages are `Decimal` scalars if
+ * enabled by `scalars.numerics`, or strings.
+ *
+ * @param table - The table definition.
+ * @param tableName - The name of the table in the Drizzle schema.
+ * @param config - The schema build configuration.
+ * @returns A record mapping field names to their GraphQL field configurations.
+ */
+const generateTableAggregateFields = (
+  table: Table,
+  tableName: string,
+  config: BuildSchemaConfig,
+): Record<string, { type: GraphQLOutputType }> => {
+  const naming = getNaming(config);
+  const numericColumns = Object.entries(
+    getNumericTableColumns(table, tableName, config),
+  );
+
+  const fields: Record<string, { type: GraphQLOutputType }> = {
+    count: { type: new GraphQLNonNull(GraphQLInt) },
+  };
+  if (numericColumns.length) {
+    for (const functionName of Object.keys(aggregateFunctions)) {
+      const isFloat = functionName === "sum" || functionName === "avg";
+      fields[functionName] = {
+        type: new GraphQLNonNull(
+          new GraphQLObjectType({
+            name: naming.aggregateFunction(tableName, functionName),
+            fields: Object.fromEntries(
+              numericColumns.map(([columnName, column]) => {
+                if (isFloat && !isExactNumericColumn(column)) {
+                  return [columnName, { type: GraphQLFloat }];
+                }
+                if (functionName === "avg") {
+                  return [columnName, {
+                    type: config.scalars?.numerics === "scalar"
+                      ? GraphQLDecimal
+                      : GraphQLString,
+                  }];
+                }
+                return [
+                  columnName,
+                  drizzleColumnToGraphQLType(
+                    column,
+                    columnName,
+                    tableName,
+                    true,
+                    false,
+                    false,
+                    config,
+                  ),
+                ];
+              }),
+            ),
+          }),
+        ),
+      };
+    }
+  }
+
+  return fields;
+};
+
+/**
+ * Generates the GraphQL output type of the group-by query of a table.
+ *
+ * Each group holds the values of the grouped columns under `key`, and the aggregates of its
+ * records.
+ *
+ * @param table - The table definition.
+ * @param tableName - The name of the table in the Drizzle schema.
+ * @param aggregateFields - The fields holding the aggregates of the records of the table.
+ * @param config - The schema build configuration.
+ * @returns A non-null list of non-null `{Table}Group` types.
+ */
+const generateTableGroupType = (
+  table: Table,
+  tableName: string,
+  aggregateFields: Record<string, { type: GraphQLOutputType }>,
+  config: BuildSchemaConfig,
+): GraphQLNonNull<GraphQLList<GraphQLNonNull<GraphQLObjectType>>> => {
+  const naming = getNaming(config);
+  const keyType = new GraphQLObjectType({
+    name: naming.groupKey(tableName),
+    fields: Object.fromEntries(
+      Object.entries(getGroupableTableColumns(table, tableName, config)).map((
+        [columnName, column],
+      ) => [
+        columnName,
+        drizzleColumnToGraphQLType(
+          column,
+          columnName,
+          tableName,
+          true,
+          false,
+          false,
+          config,
+        ),
+      ]),
+    ),
+  });
+
+  const groupType = new GraphQLObjectType({
+    name: naming.groupResult(tableName),
+    fields: {
+      key: { type: new GraphQLNonNull(keyType) },
+      ...aggregateFields,
+    },
+  });
+
+  return new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(groupType)));
+};
+
 /**
  * Generates GraphQL types for a database table.
  *
@@ -607,7 +1804,7 @@ const generateSelectFields = <TWithOrder extends boolean>(
  * @param tables - A record mapping table names to Table definitions.
  * @param relationMap - A mapping of table names to their relation configurations.
  * @param withReturning - Whether the mutations return detailed values.
- * @param relationsDepthLimit - Optional depth limit for nested relations.
+ * @param config - The schema build configuration.
  * @returns An object containing generated input types and output types for the table.
  */
 export const generateTableTypes = <
@@ -617,20 +1814,20 @@ export const generateTableTypes = <
   tables: Record<string, Table>,
   relationMap: Record<string, Record<string, TableNamedRelations>>,
   withReturning: WithReturning,
-  relationsDepthLimit: number | undefined,
+  config: BuildSchemaConfig,
 ): GeneratedTableTypes<WithReturning> => {
-  const stylizedName = capitalize(tableName);
+  const naming = getNaming(config);
   const { tableFields, relationFields, filters, order } = generateSelectFields(
     tables,
     tableName,
     relationMap,
-    stylizedName,
+    naming.tableType(tableName),
     true,
-    relationsDepthLimit,
+    config,
   );
 
   const table = tables[tableName]!;
-  const columns = getTableColumns(table);
+  const columns = getVisibleTableColumns(table, tableName, config);
   const columnEntries = Object.entries(columns);
 
   const insertFields = Object.fromEntries(
@@ -643,6 +1840,7 @@ export const generateTableTypes = <
         false,
         true,
         true,
+        config,
       ),
     ]),
   );
@@ -657,27 +1855,34 @@ export const generateTableTypes = <
         true,
         false,
         true,
+        config,
       ),
     ]),
   );
 
   const insertInput = new GraphQLInputObjectType({
-    name: `${stylizedName}InsertInput`,
+    name: naming.insertInput(tableName),
     fields: insertFields,
   });
 
   const selectSingleOutput = new GraphQLObjectType({
-    name: `${stylizedName}SelectItem`,
+    name: naming.selectItem(tableName),
     fields: { ...tableFields, ...relationFields },
   });
 
-  const selectArrOutput = new GraphQLNonNull(
-    new GraphQLList(new GraphQLNonNull(selectSingleOutput)),
-  );
+  const selectArrOutput = config.connections
+    ? generateConnectionType(
+      selectSingleOutput,
+      naming.tableType(tableName),
+      config,
+    )
+    : new GraphQLNonNull(
+      new GraphQLList(new GraphQLNonNull(selectSingleOutput)),
+    );
 
   const singleTableItemOutput = withReturning
     ? new GraphQLObjectType({
-      name: `${stylizedName}Item`,
+      name: naming.item(tableName),
       fields: tableFields,
     })
     : undefined;
@@ -689,10 +1894,28 @@ export const generateTableTypes = <
     : undefined;
 
   const updateInput = new GraphQLInputObjectType({
-    name: `${stylizedName}UpdateInput`,
+    name: naming.updateInput(tableName),
     fields: updateFields,
   });
 
+  const aggregateFields = generateTableAggregateFields(
+    table,
+    tableName,
+    config,
+  );
+  const aggregateOutput = new GraphQLNonNull(
+    new GraphQLObjectType({
+      name: naming.aggregateResult(tableName),
+      fields: aggregateFields,
+    }),
+  );
+  const groupByOutput = generateTableGroupType(
+    table,
+    tableName,
+    aggregateFields,
+    config,
+  );
+
   const inputs = {
     insertInput,
     updateInput,
@@ -705,12 +1928,16 @@ export const generateTableTypes = <
       ? {
         selectSingleOutput,
         selectArrOutput,
+        aggregateOutput,
+        groupByOutput,
         singleTableItemOutput: singleTableItemOutput!,
         arrTableItemOutput: arrTableItemOutput!,
       }
       : {
         selectSingleOutput,
         selectArrOutput,
+        aggregateOutput,
+        groupByOutput,
       }
   ) as GeneratedTableTypesOutputs<WithReturning>;
 
@@ -721,90 +1948,474 @@ export const generateTableTypes = <
 };
 
 /**
- * Extracts SQL ORDER BY clauses from GraphQL order arguments.
+ * Resolves the placement of nulls of a sort expression.
  *
- * For each field in the orderArgs, the function constructs a SQL clause based on the column's direction (asc/desc)
- * and priority. The resulting array of SQL expressions is returned.
+ * Databases place nulls differently by default, so nulls are always placed explicitly: last
+ * when sorting in ascending order and first when sorting in descending order, unless requested
+ * otherwise.
  *
- * @template TTable - The table type.
- * @param table - The table for which to generate ORDER BY clauses.
- * @param orderArgs - A record of order arguments keyed by column name.
- * @returns An array of SQL expressions representing the ORDER BY clauses.
+ * @param direction - The sort direction.
+ * @param nulls - The requested placement of nulls, if any.
+ * @returns Whether nulls sort first or last.
  */
-export const extractOrderBy = <
-  TTable extends Table,
-  TArgs extends OrderByArgs<TTable> = OrderByArgs<TTable>,
->(
-  table: TTable,
-  orderArgs: TArgs,
+const resolveNullsOrder = (
+  direction: "asc" | "desc",
+  nulls?: "first" | "last" | null,
+): "first" | "last" => nulls ?? (direction === "asc" ? "last" : "first");
+
+/**
+ * Builds the ORDER BY clauses sorting by an expression.
+ *
+ * PostgreSQL and SQLite place nulls with NULLS FIRST and NULLS LAST. MySQL lacks them, so
+ * nulls are placed by sorting on whether the expression is null beforehand. Columns
+ * without nulls are sorted as is.
+ *
+ * @param table - The table being queried, telling the dialect apart.
+ * @param expression - The sort expression.
+ * @param direction - The sort direction.
+ * @param nulls - Whether nulls sort first or last, as resolved by `resolveNullsOrder` if omitted.
+ * @returns The ORDER BY clauses, in order.
+ */
+const orderByExpression = (
+  table: Table,
+  expression: SQL | Column,
+  direction: "asc" | "desc",
+  nulls?: "first" | "last" | null,
 ): SQL[] => {
-  const columns = getTableColumns(table);
-  const sqlArray: SQL[] = [];
-  // Sort by descending priority.
-  for (
-    const [column, config] of Object.entries(orderArgs).sort(
-      (a, b) => (b[1]?.priority ?? 0) - (a[1]?.priority ?? 0),
-    )
-  ) {
-    if (!config) continue;
-    sqlArray.push(
-      config.direction === "asc"
-        ? asc(columns[column]!)
-        : desc(columns[column]!),
-    );
+  const sorted = direction === "asc" ? asc(expression) : desc(expression);
+  if (is(expression, Column) && expression.notNull) return [sorted];
+  const placement = resolveNullsOrder(direction, nulls);
+  if (is(table, MySqlTable)) {
+    const nullFirst = placement === "first"
+      ? desc(isNull(expression))
+      : asc(isNull(expression));
+    return [nullFirst, sorted];
   }
-  return sqlArray;
+  return [sql`${sorted} nulls ${sql.raw(placement)}`];
 };
 
 /**
- * Extracts a SQL filter expression for a specific column based on provided operators.
- *
- * This function processes the filter operators (e.g., eq, ne, gt) for a column and returns
- * a SQL expression. It supports logical OR compositions for operators.
+ * Measures the distance between the vectors of a column and a vector.
  *
- * @template TColumn - The column type.
+ * @param column - The vector column.
+ * @param columnName - The name of the column.
+ * @param vector - The vector the distance is measured to.
+ * @param metric - The metric of the distance, the Euclidean distance if omitted.
+ * @returns A SQL expression of the distance.
+ * @throws GraphQLError if the vector lacks the dimensions of the column.
+ */
+const vectorDistance = (
+  column: Column,
+  columnName: string,
+  vector: number[],
+  metric?: VectorDistanceMetric | null,
+): SQL => {
+  const dimensions = is(column, PgVector) ? column.dimensions : undefined;
+  if (dimensions && vector.length !== dimensions) {
+    throw new GraphQLError(
+      `${columnName}: Distances are supposed to be measured to vectors of ${dimensions} dimensions!`,
+    );
+  }
+  return vectorDistanceFunctions[metric ?? "l2"](column, vector);
+};
+
+/**
+ * Extracts the sort expressions of GraphQL order arguments.
+ *
+ * Columns sort by themselves, or vector columns by their distance to a vector. One-relations sort by the sort expressions of the related record,
+ * and many-relations by the count or the aggregates of the related records, all selected by
+ * correlated subqueries.
+ *
+ * @param table - The table for which to extract sort expressions.
+ * @param tableName - The name of the table.
+ * @param orderArgs - A record of order arguments keyed by column or relation name.
+ * @param relationMap - A mapping of table names to their relation configurations, required to order by relations.
+ * @returns The sort expressions, with their directions and priorities.
+ */
+const extractOrderTerms = (
+  table: Table,
+  tableName: string,
+  orderArgs: Record<string, unknown>,
+  relationMap?: Record<string, Record<string, TableNamedRelations>>,
+): OrderTerm[] => {
+  const columns = getTableColumns(table);
+  const terms: OrderTerm[] = [];
+  for (const [fieldName, fieldOrder] of Object.entries(orderArgs)) {
+    if (!fieldOrder) continue;
+    if (columns[fieldName]) {
+      const { distanceTo, metric, ...columnOrder } = fieldOrder as VectorOrder;
+      terms.push({
+        expression: distanceTo
+          ? vectorDistance(columns[fieldName], fieldName, distanceTo, metric)
+          : columns[fieldName],
+        ...columnOrder,
+      });
+      continue;
+    }
+
+    const namedRelation = relationMap?.[tableName]?.[fieldName];
+    if (!namedRelation) continue;
+    const { targetTable, subquery } = generateRelationSubquery(
+      table,
+      tableName,
+      fieldName,
+      namedRelation,
+      relationMap!,
+      "order",
+    );
+    if (is(namedRelation.relation, One)) {
+      const relationTerms = extractOrderTerms(
+        targetTable,
+        namedRelation.targetTableName,
+        fieldOrder as Record<string, unknown>,
+        relationMap,
+      );
+      for (const term of relationTerms) {
+        terms.push({ ...term, expression: subquery(sql`${term.expression}`) });
+      }
+      continue;
+    }
+
+    const { count: countOrder, ...aggregateOrders } =
+      fieldOrder as RelationOrderByArgs;
+    if (countOrder) {
+      terms.push({ expression: subquery(count()), ...countOrder });
+    }
+    const targetColumns = getTableColumns(targetTable);
+    for (
+      const [functionName, columnOrders] of Object.entries(aggregateOrders)
+    ) {
+      const aggregate =
+        aggregateFunctions[functionName as keyof typeof aggregateFunctions];
+      for (
+        const [columnName, columnOrder] of Object.entries(columnOrders ?? {})
+      ) {
+        if (!columnOrder) continue;
+        terms.push({
+          expression: subquery(aggregate(targetColumns[columnName]!)),
+          ...columnOrder,
+        });
+      }
+    }
+  }
+  return terms;
+};
+
+/**
+ * Extracts SQL ORDER BY clauses from GraphQL order arguments.
+ *
+ * For each sort expression of the orderArgs, the function constructs a SQL clause based on its
+ * direction (asc/desc) and priority. The resulting array of SQL expressions is returned.
+ *
+ * @template TTable - The table type.
+ * @param table - The table for which to generate ORDER BY clauses.
+ * @param tableName - The name of the table.
+ * @param orderArgs - A record of order arguments keyed by column or relation name.
+ * @param relationMap - A mapping of table names to their relation configurations, required to order by relations.
+ * @param relevance - The relevance of a full-text search, sorted by priority with the other expressions.
+ * @returns An array of SQL expressions representing the ORDER BY clauses.
+ */
+export const extractOrderBy = <
+  TTable extends Table,
+  TArgs extends OrderByArgs<TTable> = OrderByArgs<TTable>,
+>(
+  table: TTable,
+  tableName: string,
+  orderArgs: TArgs,
+  relationMap?: Record<string, Record<string, TableNamedRelations>>,
+  relevance?: OrderTerm,
+): SQL[] =>
+  // Sort by descending priority.
+  [
+    ...extractOrderTerms(table, tableName, orderArgs, relationMap),
+    ...(relevance ? [relevance] : []),
+  ]
+    .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0))
+    .flatMap(({ expression, direction, nulls }) =>
+      orderByExpression(table, expression, direction, nulls)
+    );
+
+/**
+ * Extracts the SQL conditions of the logical operators of filters.
+ *
+ * `AND` and `OR` combine lists of nested filters, and `NOT` negates nested filters. Nested
+ * filters without conditions are ignored.
+ *
+ * @template TFilters - The type of the nested filters.
+ * @param filters - The logical operators of the filters.
+ * @param extract - Extracts the SQL condition of nested filters.
+ * @returns The SQL conditions, one per logical operator.
+ */
+const extractLogicalFilters = <TFilters>(
+  filters: LogicalFilters<TFilters>,
+  extract: (filters: TFilters) => SQL | undefined,
+): SQL[] => {
+  const conditions: SQL[] = [];
+  const combinators = [["AND", and], ["OR", or]] as const;
+  for (const [operatorName, combine] of combinators) {
+    const variants = (filters[operatorName] ?? [])
+      .map(extract)
+      .filter(Boolean) as SQL[];
+    if (variants.length) {
+      conditions.push(
+        variants.length > 1 ? combine(...variants)! : variants[0]!,
+      );
+    }
+  }
+  if (filters.NOT) {
+    const negated = extract(filters.NOT);
+    if (negated) conditions.push(not(negated));
+  }
+  return conditions;
+};
+
+/**
+ * Escapes the wildcards of a string matched by LIKE with `!`, the escape character of
+ * `matchLiteral`.
+ *
+ * @param value - The string to match literally.
+ * @returns The escaped string.
+ */
+const escapeLikePattern = (value: string) =>
+  value.replace(/[!%_]/g, (char) => `!${char}`);
+
+/**
+ * Escapes the wildcards of a string matched by GLOB, wrapping them in brackets.
+ *
+ * @param value - The string to match literally.
+ * @returns The escaped string.
+ */
+const escapeGlobPattern = (value: string) =>
+  value.replace(/[*?[]/g, (char) => `[${char}]`);
+
+/**
+ * Builds a condition matching a column with a string, at its start, at its end or anywhere.
+ *
+ * Case-sensitive conditions use LIKE on PostgreSQL, LIKE against a binary pattern on MySQL,
+ * whose collations usually ignore case, and GLOB on SQLite, whose LIKE ignores case.
+ * Case-insensitive conditions use ILIKE on PostgreSQL, and compare lowercased values on
+ * MySQL and SQLite, which lack it.
+ *
+ * @param column - The column to match.
+ * @param value - The string to match literally.
+ * @param position - Where the string must be found in the values of the column.
+ * @param insensitive - Whether to ignore case.
+ * @returns A SQL expression matching the column with the string.
+ */
+const matchLiteral = (
+  column: Column,
+  value: string,
+  position: "start" | "end" | "any",
+  insensitive: boolean = false,
+): SQL => {
+  const wrap = (escaped: string, wildcard: string) =>
+    `${position === "start" ? "" : wildcard}${escaped}${
+      position === "end" ? "" : wildcard
+    }`;
+  const pattern = wrap(escapeLikePattern(value), "%");
+
+  if (insensitive) {
+    return is(column, PgColumn)
+      ? sql`${column} ilike ${pattern} escape '!'`
+      : sql`lower(${column}) like lower(${pattern}) escape '!'`;
+  }
+  if (is(column, PgColumn)) return sql`${column} like ${pattern} escape '!'`;
+  if (is(column, MySqlColumn)) {
+    return sql`${column} like cast(${pattern} as binary) escape '!'`;
+  }
+  return sql`${column} glob ${wrap(escapeGlobPattern(value), "*")}`;
+};
+
+/**
+ * Quotes a key of a JSON path, escaping its quotes and backslashes.
+ *
+ * @param key - The key to quote.
+ * @returns The quoted key.
+ */
+const quoteJsonKey = (key: string) => `"${key.replace(/["\\]/g, "\\$&")}"`;
+
+/**
+ * Builds the JSON path of MySQL and SQLite from keys and array indexes.
+ *
+ * @param path - Keys of objects and indexes of arrays, indexes being strings of digits.
+ * @returns The JSON path, e.g. `$."tags"[0]`.
+ */
+const jsonPath = (path: string[]) =>
+  `$${
+    path.map((key) => /^\d+$/.test(key) ? `[${key}]` : `.${quoteJsonKey(key)}`)
+      .join("")
+  }`;
+
+/**
+ * Builds the SQLite condition matching JSON documents containing a JSON value.
+ *
+ * SQLite lacks a containment operator, so the value is matched recursively with the semantics
+ * of PostgreSQL: objects contain the keys of the value with contained values, and arrays
+ * contain an element containing each element of the value. Elements are located by their
+ * full path in the document.
+ *
+ * @param document - The JSON document.
+ * @param location - The JSON path of the contained value in the document.
+ * @param value - The contained value.
+ * @param depth - The nesting depth of array elements, naming their aliases.
+ * @returns A SQL expression matching documents containing the value.
+ */
+const sqliteJsonContains = (
+  document: SQL,
+  location: SQL,
+  value: unknown,
+  depth: number = 0,
+): SQL => {
+  if (value === null) return sql`json_type(${document}, ${location}) = 'null'`;
+  if (typeof value === "boolean") {
+    return sql`json_type(${document}, ${location}) = ${String(value)}`;
+  }
+  if (typeof value !== "object") {
+    return sql`json_extract(${document}, ${location}) = ${value}`;
+  }
+
+  if (Array.isArray(value)) {
+    const alias = sql.identifier(`json_elements_${depth}`);
+    return and(
+      sql`json_type(${document}, ${location}) = 'array'`,
+      ...value.map((element) =>
+        sql`exists (select 1 from json_each(${document}, ${location}) ${alias} where ${
+          sqliteJsonContains(
+            document,
+            sql`${alias}.fullkey`,
+            element,
+            depth + 1,
+          )
+        })`
+      ),
+    )!;
+  }
+  return and(
+    sql`json_type(${document}, ${location}) = 'object'`,
+    ...Object.entries(value).map(([key, nested]) =>
+      sqliteJsonContains(
+        document,
+        sql`${location} || ${`.${quoteJsonKey(key)}`}`,
+        nested,
+        depth,
+      )
+    ),
+  )!;
+};
+
+/**
+ * Extracts the SQL condition of a JSON operator, translated to the JSON functions of the
+ * dialect of the column.
+ *
+ * @param column - The JSON column to filter.
+ * @param columnName - The name of the column.
+ * @param operatorName - The name of the JSON operator.
+ * @param value - The value of the operator.
+ * @param config - The schema build configuration.
+ * @returns A SQL expression representing the filter.
+ * @throws GraphQLError if a JSON value is not valid.
+ */
+const extractJsonFilter = (
+  column: Column,
+  columnName: string,
+  operatorName: keyof FilterJsonOperators,
+  value: unknown,
+  config: BuildSchemaConfig,
+): SQL => {
+  const isPg = is(column, PgColumn);
+  const isMySql = is(column, MySqlColumn);
+
+  if (operatorName === "hasKey") {
+    if (isPg) return sql`jsonb_exists(${column}, ${value})`;
+    const keyPath = `$.${quoteJsonKey(value as string)}`;
+    if (isMySql) {
+      return sql`json_contains_path(${column}, 'one', ${keyPath})`;
+    }
+    return sql`json_type(${column}, ${keyPath}) is not null`;
+  }
+
+  const { path, value: json } = operatorName === "pathEquals"
+    ? value as FilterJsonOperators<unknown>["pathEquals"]
+    : { path: [], value };
+  const parsed = remapFromGraphQLCore(json, column, columnName, config);
+  if (operatorName === "jsonContains") {
+    if (isPg) return sql`${column} @> ${JSON.stringify(parsed)}::jsonb`;
+    if (isMySql) {
+      return sql`json_contains(${column}, ${JSON.stringify(parsed)})`;
+    }
+    return sqliteJsonContains(sql`${column}`, sql`'$'`, parsed);
+  }
+
+  if (isPg) {
+    const pgPath = `{${path.map(quoteJsonKey).join(",")}}`;
+    return sql`${column} #> ${pgPath}::text[] = ${
+      JSON.stringify(parsed)
+    }::jsonb`;
+  }
+  if (isMySql) {
+    return sql`json_extract(${column}, ${jsonPath(path)}) = cast(${
+      JSON.stringify(parsed)
+    } as json)`;
+  }
+  return sql`json_extract(${column}, ${jsonPath(path)}) = json_extract(${
+    JSON.stringify(parsed)
+  }, '$')`;
+};
+
+/**
+ * Extracts a SQL filter expression for a specific column based on provided operators.
+ *
+ * This function processes the filter operators (e.g., eq, ne, gt) for a column and returns
+ * a SQL expression. Operators are combined with AND, along with the nested operators of the
+ * `AND`, `OR` and `NOT` fields. The values of `startsWith`, `endsWith`, `contains` and
+ * `containsInsensitive` are matched literally, escaping their wildcards, and only the latter
+ * ignores case. The `length` of arrays is their number of elements, counted with
+ * `cardinality`. JSON operators are translated to the JSON functions of each dialect.
+ *
+ * @template TColumn - The column type.
  * @param column - The column to filter.
  * @param columnName - The name of the column.
  * @param operators - An object specifying filter operators and their values.
+ * @param config - The schema build configuration.
  * @returns A SQL expression representing the filter, or undefined if no filters are applied.
- * @throws GraphQLError if both direct fields and OR conditions are specified.
  */
 export const extractFiltersColumn = <TColumn extends Column>(
   column: TColumn,
   columnName: string,
   operators: FilterColumnOperators<TColumn>,
+  config: BuildSchemaConfig,
 ): SQL | undefined => {
-  if (!operators.OR?.length) delete operators.OR;
-  const entries = Object.entries(
-    operators as FilterColumnOperatorsCore<TColumn>,
-  );
-  if (operators.OR) {
-    if (entries.length > 1) {
-      throw new GraphQLError(
-        `WHERE ${columnName}: Cannot specify both fields and 'OR' in column operators!`,
-      );
-    }
-    const variants = operators.OR
-      .map((variant) => extractFiltersColumn(column, columnName, variant))
-      .filter(Boolean) as SQL[];
-    return variants.length
-      ? (variants.length > 1 ? or(...variants) : variants[0])
-      : undefined;
-  }
+  const { AND, OR, NOT, ...coreOperators } = operators;
+  const entries = Object.entries(coreOperators);
+  // MySQL compares decimals with strings as floating-point numbers, so decimal values are cast.
+  const toValue = (col: TColumn, value: unknown) => {
+    const remapped = remapFromGraphQLCore(value, col, columnName, config);
+    return is(col, MySqlDecimal)
+      ? sql`cast(${remapped} as decimal(65, 30))`
+      : remapped;
+  };
   const operatorMap: Record<
-    keyof FilterColumnOperatorsCore<TColumn>,
-    (col: TColumn, value?: any) => SQL
+    | keyof FilterColumnOperatorsCore<Column>
+    | keyof FilterStringOperators
+    | keyof FilterArrayOperators<unknown>
+    | keyof FilterVectorOperators<unknown>
+    | keyof FilterJsonOperators,
+    (col: TColumn, value?: any) => SQL | undefined
   > = {
-    eq: (col, value) => eq(col, remapFromGraphQLCore(value, col, columnName)),
-    ne: (col, value) => ne(col, remapFromGraphQLCore(value, col, columnName)),
-    gt: (col, value) => gt(col, remapFromGraphQLCore(value, col, columnName)),
-    gte: (col, value) => gte(col, remapFromGraphQLCore(value, col, columnName)),
-    lt: (col, value) => lt(col, remapFromGraphQLCore(value, col, columnName)),
-    lte: (col, value) => lte(col, remapFromGraphQLCore(value, col, columnName)),
+    eq: (col, value) => eq(col, toValue(col, value)),
+    ne: (col, value) => ne(col, toValue(col, value)),
+    gt: (col, value) => gt(col, toValue(col, value)),
+    gte: (col, value) => gte(col, toValue(col, value)),
+    lt: (col, value) => lt(col, toValue(col, value)),
+    lte: (col, value) => lte(col, toValue(col, value)),
     like: (col, value) => like(col, value),
     notLike: (col, value) => notLike(col, value),
     ilike: (col, value) => ilike(col, value),
     notIlike: (col, value) => notIlike(col, value),
+    startsWith: (col, value) => matchLiteral(col, value, "start"),
+    endsWith: (col, value) => matchLiteral(col, value, "end"),
+    contains: (col, value) => matchLiteral(col, value, "any"),
+    containsInsensitive: (col, value) => matchLiteral(col, value, "any", true),
     inArray: (col, value: any[]) => {
       if (!value.length) {
         throw new GraphQLError(
@@ -813,7 +2424,7 @@ export const extractFiltersColumn = <TColumn extends Column>(
       }
       return inArray(
         col,
-        value.map((val) => remapFromGraphQLCore(val, col, columnName)),
+        value.map((val) => toValue(col, val)),
       );
     },
     notInArray: (col, value: any[]) => {
@@ -824,70 +2435,746 @@ export const extractFiltersColumn = <TColumn extends Column>(
       }
       return notInArray(
         col,
-        value.map((val) => remapFromGraphQLCore(val, col, columnName)),
+        value.map((val) => toValue(col, val)),
       );
     },
-    isNull: (col) => isNull(col),
-    isNotNull: (col) => isNotNull(col),
+    arrayContains: (col, value) =>
+      arrayContains(col, remapFromGraphQLCore(value, col, columnName, config)),
+    arrayContained: (col, value) =>
+      arrayContained(col, remapFromGraphQLCore(value, col, columnName, config)),
+    arrayOverlaps: (col, value) =>
+      arrayOverlaps(col, remapFromGraphQLCore(value, col, columnName, config)),
+    length: (col, value: AggregateFilterOperators) => {
+      const comparisons = Object.entries(value)
+        .filter(([_operatorName, operand]) => operand !== null)
+        .map(([operatorName, operand]) =>
+          aggregateOperators[operatorName as keyof typeof aggregateOperators](
+            sql`cardinality(${col})`,
+            operand,
+          )
+        );
+      return comparisons.length ? and(...comparisons) : undefined;
+    },
+    distance: (
+      col,
+      { to, metric, ...operators }: VectorDistanceFilterOperators,
+    ) => {
+      const distance = vectorDistance(col, columnName, to, metric);
+      const comparisons = Object.entries(operators)
+        .filter(([_operatorName, operand]) => operand !== null)
+        .map(([operatorName, operand]) =>
+          aggregateOperators[operatorName as keyof typeof aggregateOperators](
+            distance,
+            operand,
+          )
+        );
+      return comparisons.length ? and(...comparisons) : undefined;
+    },
+    pathEquals: (col, value) =>
+      extractJsonFilter(col, columnName, "pathEquals", value, config),
+    hasKey: (col, value) =>
+      extractJsonFilter(col, columnName, "hasKey", value, config),
+    jsonContains: (col, value) =>
+      extractJsonFilter(col, columnName, "jsonContains", value, config),
+    isNull: (col) => isNull(col),
+    isNotNull: (col) => isNotNull(col),
+  };
+  const variants: SQL[] = [];
+  for (const [operatorName, operatorValue] of entries) {
+    if (operatorValue === null || operatorValue === false) continue;
+    const filterFn = operatorMap[operatorName as keyof typeof operatorMap];
+    if (!filterFn) continue;
+    const condition = filterFn(column, operatorValue);
+    if (condition) variants.push(condition);
+  }
+  variants.push(
+    ...extractLogicalFilters(
+      { AND, OR, NOT },
+      (variant) => extractFiltersColumn(column, columnName, variant, config),
+    ),
+  );
+  return variants.length
+    ? (variants.length > 1 ? and(...variants) : variants[0])
+    : undefined;
+};
+
+/**
+ * Wraps SQL in a SQL wrapper, rendered in parentheses.
+ *
+ * Relational queries alias the columns found in the SQL of their filters. Wrapped SQL is left
+ * as is, which keeps the columns of the related tables of EXISTS subqueries on their aliases.
+ *
+ * @param query - The SQL to wrap.
+ * @returns The SQL wrapper.
+ */
+const preserveAliases = (query: SQL): SQLWrapper => ({ getSQL: () => query });
+
+/**
+ * Prepares correlated subqueries selecting from the related records of a relation.
+ *
+ * The related table is aliased after the parent table, the relation and the purpose of the
+ * subquery. Only the parent columns of the subquery are left to the aliasing of relational
+ * queries, so the subquery is correlated with the parent table however it is aliased.
+ *
+ * @param table - The parent table.
+ * @param tableName - The name of the parent table.
+ * @param relationName - The name of the relation.
+ * @param namedRelation - The relation and the name of the related table.
+ * @param relationMap - A mapping of table names to their relation configurations.
+ * @param purpose - The purpose of the subquery, suffixing the alias of the related table.
+ * @returns The aliased related table, and a function building a subquery selecting an
+ * expression from the related records matching an optional condition.
+ */
+const generateRelationSubquery = (
+  table: Table,
+  tableName: string,
+  relationName: string,
+  { relation, targetTableName }: TableNamedRelations,
+  relationMap: Record<string, Record<string, TableNamedRelations>>,
+  purpose: "filter" | "order",
+): {
+  targetTable: Table;
+  subquery: (selection: SQL, condition?: SQL) => SQL;
+} => {
+  const { fields, references } = extractRelationKeys(
+    relationMap,
+    tableName,
+    relationName,
+    relation,
+    targetTableName,
+  );
+  const alias = `${getTableName(table)}_${relationName}_${purpose}`;
+  const targetTable = aliasedTable(relation.referencedTable, alias);
+  const targetColumns = Object.entries(
+    getTableColumns(relation.referencedTable),
+  );
+  const aliasedColumns = getTableColumns(targetTable);
+  const parentColumns = getTableColumns(table);
+
+  const join = fields.map((columnName, index) => {
+    const [targetColumnName] = targetColumns.find(([_columnName, column]) =>
+      column === references[index]
+    )!;
+    return sql`${preserveAliases(sql`${aliasedColumns[targetColumnName]}`)} = ${
+      parentColumns[columnName]
+    }`;
+  });
+
+  return {
+    targetTable,
+    subquery: (selection, condition) =>
+      sql`(select ${
+        preserveAliases(selection)
+      } from ${relation.referencedTable} ${sql.identifier(alias)} where ${
+        sql.join(join, sql` and `)
+      }${condition ? sql` and ${preserveAliases(condition)}` : sql``}${
+        is(relation, One) ? sql` limit 1` : sql``
+      })`,
+  };
+};
+
+/**
+ * Builds an EXISTS subquery selecting the related records of a relation.
+ *
+ * @param table - The parent table.
+ * @param tableName - The name of the parent table.
+ * @param relationName - The name of the relation.
+ * @param namedRelation - The relation and the name of the related table.
+ * @param relationMap - A mapping of table names to their relation configurations.
+ * @param config - The schema build configuration.
+ * @param filters - The filters the related records must match.
+ * @param negateFilters - Whether the related records must not match the filters instead.
+ * @returns The EXISTS condition, or undefined if negated filters match no condition.
+ */
+const extractRelationExists = (
+  table: Table,
+  tableName: string,
+  relationName: string,
+  namedRelation: TableNamedRelations,
+  relationMap: Record<string, Record<string, TableNamedRelations>>,
+  config: BuildSchemaConfig,
+  filters?: Filters<Table> | null,
+  negateFilters: boolean = false,
+): SQL | undefined => {
+  const { targetTable, subquery } = generateRelationSubquery(
+    table,
+    tableName,
+    relationName,
+    namedRelation,
+    relationMap,
+    "filter",
+  );
+  const filter = filters
+    ? extractFilters(
+      targetTable,
+      namedRelation.targetTableName,
+      filters,
+      config,
+      relationMap,
+    )
+    : undefined;
+  if (negateFilters && !filter) return undefined;
+  const condition = filter && negateFilters ? not(filter) : filter;
+
+  return sql`exists ${subquery(sql`1`, condition)}`;
+};
+
+/**
+ * Extracts the SQL condition of the filters of a relation.
+ *
+ * Filters of one-relations select the parents having a related record matching them. Filters
+ * of many-relations select the parents having `some`, `every` or `none` of their related
+ * records matching the nested filters.
+ *
+ * @param table - The parent table.
+ * @param tableName - The name of the parent table.
+ * @param relationName - The name of the relation.
+ * @param namedRelation - The relation and the name of the related table.
+ * @param filters - The filters of the relation.
+ * @param relationMap - A mapping of table names to their relation configurations.
+ * @param config - The schema build configuration.
+ * @returns The SQL condition, or undefined if no filters were provided.
+ */
+const extractRelationFilters = (
+  table: Table,
+  tableName: string,
+  relationName: string,
+  namedRelation: TableNamedRelations,
+  filters: Filters<Table> | RelationFilters,
+  relationMap: Record<string, Record<string, TableNamedRelations>>,
+  config: BuildSchemaConfig,
+): SQL | undefined => {
+  const exists = (filters?: Filters<Table> | null, negateFilters?: boolean) =>
+    extractRelationExists(
+      table,
+      tableName,
+      relationName,
+      namedRelation,
+      relationMap,
+      config,
+      filters,
+      negateFilters,
+    );
+
+  if (is(namedRelation.relation, One)) return exists(filters as Filters<Table>);
+
+  const { some, every, none } = filters as RelationFilters;
+  const conditions: SQL[] = [];
+  if (some) conditions.push(exists(some)!);
+  // Every related record matches when none of them fails to match.
+  const failing = every ? exists(every, true) : undefined;
+  if (failing) conditions.push(not(failing));
+  if (none) conditions.push(not(exists(none)!));
+  return conditions.length
+    ? (conditions.length > 1 ? and(...conditions) : conditions[0])
+    : undefined;
+};
+
+/**
+ * Extracts SQL filters for a table based on provided filter arguments.
+ *
+ * Processes each filter condition for the table and returns a combined SQL expression.
+ * Column conditions are combined with AND, along with the relation filters, compiled into
+ * EXISTS subqueries, and the nested filters of the `AND`, `OR` and `NOT` fields, which are
+ * extracted recursively.
+ *
+ * @template TTable - The table type.
+ * @param table - The table to filter.
+ * @param tableName - The name of the table.
+ * @param filters - An object representing filter conditions.
+ * @param config - The schema build configuration.
+ * @param relationMap - A mapping of table names to their relation configurations, required to filter on relations.
+ * @returns A SQL expression representing the combined filters, or undefined if no filters are applied.
+ */
+export const extractFilters = <TTable extends Table>(
+  table: TTable,
+  tableName: string,
+  filters: Filters<TTable>,
+  config: BuildSchemaConfig,
+  relationMap?: Record<string, Record<string, TableNamedRelations>>,
+): SQL | undefined => {
+  const { AND, OR, NOT, ...fieldFilters } = filters;
+  const columns = getTableColumns(table);
+  const variants: SQL[] = [];
+  for (const [fieldName, operators] of Object.entries(fieldFilters)) {
+    if (operators === null || operators === undefined) continue;
+    const namedRelation = relationMap?.[tableName]?.[fieldName];
+    const condition = columns[fieldName]
+      ? extractFiltersColumn(
+        columns[fieldName],
+        fieldName,
+        operators as FilterColumnOperators<Column>,
+        config,
+      )
+      : namedRelation
+      ? extractRelationFilters(
+        table,
+        tableName,
+        fieldName,
+        namedRelation,
+        operators as Filters<Table> | RelationFilters,
+        relationMap!,
+        config,
+      )
+      : undefined;
+    if (condition) variants.push(condition);
+  }
+  variants.push(
+    ...extractLogicalFilters(
+      { AND, OR, NOT },
+      (variant) =>
+        extractFilters(table, tableName, variant, config, relationMap),
+    ),
+  );
+  return variants.length
+    ? (variants.length > 1 ? and(...variants) : variants[0])
+    : undefined;
+};
+
+/**
+ * Builds an FTS5 query matching every word of a plain text query in the given columns.
+ *
+ * Words are quoted as strings, so the FTS5 query syntax is never interpreted.
+ *
+ * @param columnNames - The names of the columns of the FTS5 table to match.
+ * @param query - The plain text query.
+ * @returns The FTS5 query, or undefined if the query has no words.
+ */
+const ftsQuery = (columnNames: string[], query: string) => {
+  const quote = (value: string) => `"${value.replaceAll('"', '""')}"`;
+  const words = query.match(/\S+/g);
+  return words
+    ? `{${columnNames.map(quote).join(" ")}} : (${words.map(quote).join(" ")})`
+    : undefined;
+};
+
+/**
+ * Extracts the full-text search of a table from GraphQL search arguments.
+ *
+ * PostgreSQL matches `to_tsvector` against `plainto_tsquery` and ranks with `ts_rank`, MySQL
+ * matches and ranks with `MATCH ... AGAINST` in natural language mode, and SQLite matches the
+ * FTS5 table of the table and ranks with the negated `bm25`, so higher is always more relevant.
+ *
+ * @param table - The table being searched.
+ * @param tableName - The name of the table.
+ * @param search - The search arguments of the query.
+ * @param config - The schema build configuration.
+ * @returns The search condition, and the relevance if the records are ordered by it.
+ */
+export const extractSearch = (
+  table: Table,
+  tableName: string,
+  search: SearchArgs,
+  config: BuildSchemaConfig,
+): { where: SQL; relevance?: OrderTerm } => {
+  const { language, ftsTable } = config.search![tableName]!;
+  const columns = getSearchColumns(table, tableName, config);
+  let where: SQL;
+  let relevance: SQL;
+  if (is(table, PgTable)) {
+    const regconfig = sql`${language ?? "simple"}::regconfig`;
+    const document = sql`to_tsvector(${regconfig}, concat_ws(' ', ${
+      sql.join(columns, sql`, `)
+    }))`;
+    const query = sql`plainto_tsquery(${regconfig}, ${search.query})`;
+    where = sql`${document} @@ ${query}`;
+    relevance = sql`ts_rank(${document}, ${query})`;
+  } else if (is(table, MySqlTable)) {
+    where = relevance = sql`match (${
+      sql.join(columns, sql`, `)
+    }) against (${search.query} in natural language mode)`;
+  } else {
+    const query = ftsQuery(columns.map((column) => column.name), search.query);
+    if (!query) return { where: sql`0 = 1` };
+    const fts = sql.identifier(ftsTable!);
+    const primaryKey = Object.values(getTableColumns(table)).find((column) =>
+      column.primary
+    )!;
+    where =
+      sql`${primaryKey} in (select rowid from ${fts} where ${fts} match ${query})`;
+    relevance =
+      sql`(select -bm25(${fts}) from ${fts} where ${fts} match ${query} and rowid = ${primaryKey})`;
+  }
+
+  return {
+    where,
+    relevance: search.relevance
+      ? { expression: relevance, ...search.relevance }
+      : undefined,
+  };
+};
+
+/**
+ * Determines the columns a connection of a table is ordered by.
+ *
+ * The columns of the order arguments, sorted by descending priority, are followed by the
+ * primary key columns so that every record gets a unique cursor. Tables whose primary key
+ * is not exposed are ordered by all of their visible columns instead.
+ *
+ * @param table - The table of the connection.
+ * @param tableName - The name of the table in the Drizzle schema.
+ * @param orderArgs - The order arguments of the query, if any.
+ * @param config - The schema build configuration.
+ * @returns The ordered column names with their directions and placements of nulls.
+ */
+const extractCursorOrder = (
+  table: Table,
+  tableName: string,
+  orderArgs: OrderByArgs<Table> | null | undefined,
+  config: BuildSchemaConfig,
+): CursorOrder => {
+  const order: CursorOrder = Object.entries(orderArgs ?? {})
+    .filter(([_columnName, columnOrder]) => columnOrder)
+    .sort((a, b) => (b[1]?.priority ?? 0) - (a[1]?.priority ?? 0))
+    .map(([columnName, columnOrder]) => [
+      columnName,
+      columnOrder!.direction,
+      resolveNullsOrder(columnOrder!.direction, columnOrder!.nulls),
+    ]);
+
+  const columns = getVisibleTableColumns(table, tableName, config);
+  const primaryKey = Object.values(getTableColumns(table)).filter((column) =>
+    column.primary
+  );
+  const uniqueColumns = primaryKey.length &&
+      primaryKey.every((column) => Object.values(columns).includes(column))
+    ? Object.keys(columns).filter((columnName) => columns[columnName]!.primary)
+    : Object.keys(columns);
+
+  for (const columnName of uniqueColumns) {
+    if (order.some(([orderedName]) => orderedName === columnName)) continue;
+    order.push([columnName, "asc", resolveNullsOrder("asc")]);
+  }
+  return order;
+};
+
+/**
+ * Encodes the cursor of a record as base64 JSON holding its values of the ordered columns.
+ *
+ * @param node - The record, already remapped to GraphQL output.
+ * @param order - The columns the connection is ordered by.
+ * @returns The opaque cursor of the record.
+ */
+const encodeCursor = (node: Record<string, unknown>, order: CursorOrder) =>
+  Buffer.from(
+    JSON.stringify(
+      Object.fromEntries(
+        order.map(([columnName]) => [columnName, node[columnName] ?? null]),
+      ),
+    ),
+  ).toString("base64");
+
+/**
+ * Decodes a cursor created by `encodeCursor`.
+ *
+ * @param cursor - The cursor received as a query argument.
+ * @param order - The columns the connection is ordered by.
+ * @returns The values of the ordered columns, in their GraphQL output format.
+ * @throws GraphQLError if the cursor is malformed or was created for a different order.
+ */
+const decodeCursor = (
+  cursor: string,
+  order: CursorOrder,
+): Record<string, unknown> => {
+  let values: unknown;
+  try {
+    values = JSON.parse(Buffer.from(cursor, "base64").toString());
+  } catch (_e) {
+    values = undefined;
+  }
+  if (
+    typeof values !== "object" || values === null || Array.isArray(values) ||
+    Object.keys(values).length !== order.length ||
+    order.some(([columnName]) => !Object.hasOwn(values, columnName))
+  ) {
+    throw new GraphQLError(
+      `Cursor '${cursor}' is not valid for the requested order!`,
+    );
+  }
+  return values as Record<string, unknown>;
+};
+
+/**
+ * Compares a column with a cursor value in its natural sort order.
+ *
+ * Nulls are placed explicitly in the order, so they are handled explicitly for nullable
+ * columns as either the largest or the smallest values.
+ *
+ * @param column - The column to compare.
+ * @param value - The cursor value, already remapped from GraphQL input.
+ * @param greater - Whether to match values sorted after the cursor value.
+ * @param nullsLargest - Whether the order sorts nulls as the largest values.
+ * @returns A SQL expression, or undefined if no value sorts on the requested side.
+ */
+const compareCursorValue = (
+  column: Column,
+  value: unknown,
+  greater: boolean,
+  nullsLargest: boolean,
+): SQL | undefined => {
+  if (value === null) {
+    return greater === nullsLargest ? undefined : isNotNull(column);
+  }
+  const comparison = greater ? gt(column, value) : lt(column, value);
+  return column.notNull || greater !== nullsLargest
+    ? comparison
+    : or(comparison, isNull(column));
+};
+
+/**
+ * Builds the keyset condition matching the records on one side of a cursor.
+ *
+ * @param table - The table of the connection.
+ * @param order - The columns the connection is ordered by.
+ * @param cursor - The cursor received as a query argument.
+ * @param side - Whether to match the records after or before the cursor.
+ * @param config - The schema build configuration.
+ * @returns A SQL expression matching the records on the requested side of the cursor.
+ * @throws GraphQLError if the cursor is not valid for the order.
+ */
+const extractCursorFilter = (
+  table: Table,
+  order: CursorOrder,
+  cursor: string,
+  side: "after" | "before",
+  config: BuildSchemaConfig,
+): SQL => {
+  const values = decodeCursor(cursor, order);
+  const columns = getTableColumns(table);
+
+  const variants: SQL[] = [];
+  const equalities: SQL[] = [];
+  for (const [columnName, direction, nulls] of order) {
+    const column = columns[columnName]!;
+    const value = values[columnName] === null
+      ? null
+      : remapFromGraphQLCore(values[columnName], column, columnName, config);
+
+    const comparison = compareCursorValue(
+      column,
+      value,
+      (direction === "asc") === (side === "after"),
+      (nulls === "last") === (direction === "asc"),
+    );
+    if (comparison) variants.push(and(...equalities, comparison)!);
+    equalities.push(value === null ? isNull(column) : eq(column, value));
+  }
+  return variants.length
+    ? (variants.length > 1 ? or(...variants)! : variants[0]!)
+    : sql`false`;
+};
+
+/**
+ * Extracts the query parameters of a Relay connection from its arguments.
+ *
+ * Records are fetched in keyset order: the cursors restrict the records to the requested
+ * side of them, and one record more than requested is fetched to detect further pages.
+ * When paginating with `last`, the order is reversed and restored by `remapToConnection`.
+ *
+ * @param table - The table of the connection.
+ * @param tableName - The name of the table in the Drizzle schema.
+ * @param args - The connection arguments of the query.
+ * @param config - The schema build configuration.
+ * @returns The columns required to build cursors, and the where, order and limit clauses.
+ * @throws GraphQLError if both `first` and `last` are given, either is negative, or a cursor is not valid.
+ */
+export const extractConnectionParams = (
+  table: Table,
+  tableName: string,
+  args: Partial<TableConnectionArgs>,
+  config: BuildSchemaConfig,
+): Partial<ProcessedTableSelectArgs> => {
+  const { first, after, last, before, orderBy } = args;
+  if (typeof first === "number" && typeof last === "number") {
+    throw new GraphQLError(
+      `${tableName}: Cannot specify both 'first' and 'last'!`,
+    );
+  }
+  const count = first ?? last;
+  if (typeof count === "number" && count < 0) {
+    throw new GraphQLError(
+      `${tableName}: '${
+        typeof first === "number" ? "first" : "last"
+      }' is supposed to be nonnegative!`,
+    );
+  }
+
+  const order = extractCursorOrder(table, tableName, orderBy, config);
+  const columns = getTableColumns(table);
+  const backward = typeof last === "number";
+  const conditions = [
+    after
+      ? extractCursorFilter(table, order, after, "after", config)
+      : undefined,
+    before
+      ? extractCursorFilter(table, order, before, "before", config)
+      : undefined,
+  ].filter(Boolean) as SQL[];
+
+  return {
+    columns: Object.fromEntries(
+      order.map(([columnName]) => [columnName, true]),
+    ),
+    where: conditions.length ? and(...conditions) : undefined,
+    orderBy: order.flatMap(([columnName, direction, nulls]) =>
+      orderByExpression(
+        table,
+        columns[columnName]!,
+        (direction === "asc") !== backward ? "asc" : "desc",
+        backward ? (nulls === "first" ? "last" : "first") : nulls,
+      )
+    ),
+    limit: typeof count === "number" ? count + 1 : undefined,
+  };
+};
+
+/**
+ * Remaps records fetched with `extractConnectionParams` to a Relay connection.
+ *
+ * `hasPreviousPage` is only reported when paginating with `after`, and `hasNextPage` when
+ * paginating with `before`, as allowed by the Relay specification.
+ *
+ * @param nodes - The fetched records, already remapped to GraphQL output.
+ * @param table - The table of the connection.
+ * @param tableName - The name of the table in the Drizzle schema.
+ * @param args - The connection arguments of the query.
+ * @param config - The schema build configuration.
+ * @param totalCount - The count of the records matching the filters, if requested.
+ * @returns The connection holding the requested page of records.
+ */
+export const remapToConnection = (
+  nodes: Record<string, unknown>[],
+  table: Table,
+  tableName: string,
+  args: Partial<TableConnectionArgs>,
+  config: BuildSchemaConfig,
+  totalCount?: number,
+) => {
+  const order = extractCursorOrder(table, tableName, args.orderBy, config);
+  const count = args.first ?? args.last;
+  const backward = typeof args.last === "number";
+  const hasMore = typeof count === "number" && nodes.length > count;
+
+  const page = hasMore ? nodes.slice(0, count) : [...nodes];
+  if (backward) page.reverse();
+  const edges = page.map((node) => ({
+    cursor: encodeCursor(node, order),
+    node,
+  }));
+
+  return {
+    edges,
+    pageInfo: {
+      hasNextPage: backward ? Boolean(args.before) : hasMore,
+      hasPreviousPage: backward ? hasMore : Boolean(args.after),
+      startCursor: edges[0]?.cursor ?? null,
+      endCursor: edges[edges.length - 1]?.cursor ?? null,
+    },
+    totalCount,
   };
-  const variants: SQL[] = [];
-  for (const [operatorName, operatorValue] of entries) {
-    if (operatorValue === null || operatorValue === false) continue;
-    const filterFn =
-      operatorMap[operatorName as keyof FilterColumnOperatorsCore<TColumn>];
-    if (!filterFn) continue;
-    variants.push(filterFn(column, operatorValue));
+};
+
+/**
+ * Unwraps the selection of the nodes of a Relay connection from a parsed GraphQL resolve tree.
+ *
+ * Connections nest the selected fields of their records under `edges.node`, so this returns
+ * a resolve tree selecting them directly on the node type, merged across aliases.
+ *
+ * @param field - The resolve tree of a field returning a connection.
+ * @param typeName - The base name of the connection and edge types.
+ * @param nodeTypeName - The name of the node type.
+ * @param config - The schema build configuration.
+ * @returns A resolve tree selecting the fields of the node type.
+ */
+export const extractConnectionNodeTree = (
+  field: ResolveTree,
+  typeName: string,
+  nodeTypeName: string,
+  config: BuildSchemaConfig,
+): ResolveTree => {
+  const naming = getNaming(config);
+  const nodeFields: Record<string, ResolveTree> = {};
+  const connectionFields =
+    field.fieldsByTypeName[naming.connection(typeName)] ?? {};
+  for (const edgesField of Object.values(connectionFields)) {
+    if (edgesField.name !== "edges") continue;
+    const edgeFields = edgesField.fieldsByTypeName[naming.edge(typeName)] ??
+      {};
+    for (const nodeField of Object.values(edgeFields)) {
+      if (nodeField.name !== "node") continue;
+      Object.assign(nodeFields, nodeField.fieldsByTypeName[nodeTypeName]);
+    }
   }
-  return variants.length
-    ? (variants.length > 1 ? and(...variants) : variants[0])
-    : undefined;
+  return { ...field, fieldsByTypeName: { [nodeTypeName]: nodeFields } };
 };
 
 /**
- * Extracts SQL filters for a table based on provided filter arguments.
+ * Resolves the columns joining the records of a relation to their parents.
  *
- * Processes each filter condition for the table and returns a combined SQL expression.
- * Supports logical OR compositions for the filter conditions.
+ * One-relations holding the foreign key define the columns themselves. Other relations are
+ * defined by the matching one-relation of the related table, which is looked up the same way
+ * as Drizzle does, by relation name or by referenced table.
  *
- * @template TTable - The table type.
- * @param table - The table to filter.
- * @param tableName - The name of the table.
- * @param filters - An object representing filter conditions.
- * @returns A SQL expression representing the combined filters, or undefined if no filters are applied.
- * @throws GraphQLError if both direct filter fields and OR conditions are specified.
+ * @param relationMap - A mapping of table names to their relation configurations.
+ * @param tableName - The name of the parent table.
+ * @param relationName - The name of the relation.
+ * @param relation - The relation.
+ * @param targetTableName - The name of the related table.
+ * @returns The names of the parent columns and the related columns matching them.
+ * @throws Error if the related table has no matching one-relation.
  */
-export const extractFilters = <TTable extends Table>(
-  table: TTable,
+const extractRelationKeys = (
+  relationMap: Record<string, Record<string, TableNamedRelations>>,
   tableName: string,
-  filters: Filters<TTable>,
-): SQL | undefined => {
-  if (!filters.OR?.length) delete filters.OR;
-  const entries = Object.entries(filters as FiltersCore<TTable>);
-  if (!entries.length) return;
-  if (filters.OR) {
-    if (entries.length > 1) {
-      throw new GraphQLError(
-        `WHERE ${tableName}: Cannot specify both fields and 'OR' in table filters!`,
-      );
-    }
-    const variants = filters.OR
-      .map((variant) => extractFilters(table, tableName, variant))
-      .filter(Boolean) as SQL[];
-    return variants.length
-      ? (variants.length > 1 ? or(...variants) : variants[0])
-      : undefined;
+  relationName: string,
+  relation: Relation,
+  targetTableName: string,
+): Pick<RelationCountRequest, "fields" | "references"> => {
+  const columnEntries = Object.entries(getTableColumns(relation.sourceTable));
+  const columnKey = (column: Column) =>
+    columnEntries.find(([_columnName, tableColumn]) => tableColumn === column)![
+      0
+    ];
+
+  if (is(relation, One) && relation.config) {
+    return {
+      fields: relation.config.fields.map(columnKey),
+      references: relation.config.references,
+    };
   }
-  const variants: SQL[] = [];
-  for (const [columnName, operators] of entries) {
-    if (operators === null) continue;
-    const column = getTableColumns(table)[columnName]!;
-    variants.push(extractFiltersColumn(column, columnName, operators)!);
+
+  const reverseRelation = Object.values(relationMap[targetTableName] ?? {})
+    .map(({ relation: candidate }) => candidate)
+    .find((candidate): candidate is One =>
+      is(candidate, One) && !!candidate.config &&
+      candidate.referencedTable === relation.sourceTable &&
+      (!relation.relationName ||
+        candidate.relationName === relation.relationName)
+    );
+  if (!reverseRelation) {
+    throw new Error(
+      `Drizzle-GraphQL Error: Relation ${tableName}.${relationName} has no matching one() relation in table ${targetTableName}!`,
+    );
   }
-  return variants.length
-    ? (variants.length > 1 ? and(...variants) : variants[0])
-    : undefined;
+
+  return {
+    fields: reverseRelation.config!.references.map(columnKey),
+    references: reverseRelation.config!.fields,
+  };
 };
 
+/**
+ * Returns the key a relation count is stored under in the queried records.
+ *
+ * Counts are keyed by the alias of the selected field, so that aliased counts with different filters don't overwrite each other.
+ *
+ * @param countName - The name of the count field.
+ * @param alias - The alias of the selected field in the response.
+ * @returns The key of the count in the queried records.
+ */
+const relationCountKey = (countName: string, alias: string) =>
+  `${countName}:${alias}`;
+
 /**
  * Recursively extracts relation parameters from a GraphQL resolve tree.
  *
@@ -899,7 +3186,11 @@ export const extractFilters = <TTable extends Table>(
  * @param tableName - The name of the current table.
  * @param typeName - The base type name used for generating nested relation types.
  * @param originField - The root ResolveTree from which to extract relation parameters.
+ * @param config - The schema build configuration.
  * @param isInitial - Whether this is the initial call (default is false).
+ * @param columns - The selected columns of the current table, extended with the columns required to count relations.
+ * @param counts - Collects the relation counts requested in the query.
+ * @param path - The relation names leading from the queried records to the current table.
  * @returns A record mapping relation names to partial ProcessedTableSelectArgs for each relation.
  */
 const extractRelationsParamsInner = (
@@ -908,11 +3199,16 @@ const extractRelationsParamsInner = (
   tableName: string,
   typeName: string,
   originField: ResolveTree,
+  config: BuildSchemaConfig,
   isInitial: boolean = false,
+  columns?: Record<string, true>,
+  counts?: RelationCountRequest[],
+  path: string[] = [],
 ) => {
   const relations = relationMap[tableName];
   if (!relations) return undefined;
 
+  const naming = getNaming(config);
   const baseField = Object.entries(originField.fieldsByTypeName).find(
     ([key, _value]) => key === typeName,
   )?.[1];
@@ -920,34 +3216,105 @@ const extractRelationsParamsInner = (
 
   const args: Record<string, Partial<ProcessedTableSelectArgs>> = {};
 
-  for (const [relName, { targetTableName }] of Object.entries(relations)) {
-    const relTypeName = `${isInitial ? capitalize(tableName) : typeName}${
-      capitalize(relName)
-    }Relation`;
-    const relFieldSelection = Object.values(baseField).find((field) =>
+  for (
+    const [relName, { targetTableName, relation }] of Object.entries(relations)
+  ) {
+    const relTypeName = naming.relation(
+      isInitial ? naming.tableType(tableName) : typeName,
+      relName,
+    );
+    const isConnection = config.connections && !is(relation, One);
+    const relationField = Object.values(baseField).find((field) =>
       field.name === relName
-    )?.fieldsByTypeName[relTypeName];
+    );
+    const nodeField = relationField && isConnection
+      ? extractConnectionNodeTree(
+        relationField,
+        relTypeName,
+        relTypeName,
+        config,
+      )
+      : relationField;
+
+    // Counts are selected with `totalCount` on connections, or with sibling fields on lists.
+    // Every aliased count field is counted separately, as each may have its own filters. Sibling
+    // count fields without filters count the records matching the filters of the list.
+    const countFields = !config.totalCount || is(relation, One)
+      ? []
+      : isConnection
+      ? Object.values(
+          relationField?.fieldsByTypeName[naming.connection(relTypeName)] ??
+            {},
+        ).some((field) => field.name === "totalCount")
+        ? [relationField!]
+        : []
+      : Object.values(baseField).filter((field) =>
+        field.name === naming.relationCount(relName)
+      );
+    if (countFields.length && columns && counts) {
+      const keys = extractRelationKeys(
+        relationMap,
+        tableName,
+        relName,
+        relation,
+        targetTableName,
+      );
+      for (const columnName of keys.fields) columns[columnName] = true;
+      for (const countField of countFields) {
+        const where = countField.args.where ?? relationField?.args.where;
+        counts.push({
+          ...keys,
+          path,
+          countKey: relationCountKey(
+            naming.relationCount(relName),
+            countField.alias,
+          ),
+          targetTable: tables[targetTableName]!,
+          where: where
+            ? extractFilters(
+              tables[targetTableName]!,
+              targetTableName,
+              where as Filters<Table>,
+              config,
+              relationMap,
+            )
+            : undefined,
+        });
+      }
+    }
+
+    const relFieldSelection = nodeField?.fieldsByTypeName[relTypeName];
     if (!relFieldSelection) continue;
 
-    const columns = extractSelectedColumnsFromTree(
+    const relColumns = extractSelectedColumnsFromTree(
       relFieldSelection,
       tables[targetTableName]!,
+      targetTableName,
+      config,
     );
 
     const thisRecord: Partial<ProcessedTableSelectArgs> = {};
-    thisRecord.columns = columns;
+    thisRecord.columns = relColumns;
 
-    const relationField = Object.values(baseField).find((e) =>
-      e.name === relName
-    );
     const relationArgs: Partial<TableSelectArgs> | undefined = relationField
       ?.args;
 
     const orderBy = relationArgs?.orderBy
-      ? extractOrderBy(tables[targetTableName]!, relationArgs.orderBy!)
+      ? extractOrderBy(
+        tables[targetTableName]!,
+        targetTableName,
+        relationArgs.orderBy!,
+        relationMap,
+      )
       : undefined;
     const where = relationArgs?.where
-      ? extractFilters(tables[targetTableName]!, relName, relationArgs.where)
+      ? extractFilters(
+        tables[targetTableName]!,
+        targetTableName,
+        relationArgs.where,
+        config,
+        relationMap,
+      )
       : undefined;
     const offset = relationArgs?.offset ?? undefined;
     const limit = relationArgs?.limit ?? undefined;
@@ -957,13 +3324,32 @@ const extractRelationsParamsInner = (
     thisRecord.offset = offset;
     thisRecord.limit = limit;
 
-    const relWith = relationField
+    if (isConnection) {
+      const connection = extractConnectionParams(
+        tables[targetTableName]!,
+        targetTableName,
+        relationField!.args,
+        config,
+      );
+      thisRecord.columns = { ...relColumns, ...connection.columns };
+      thisRecord.orderBy = connection.orderBy;
+      thisRecord.where = and(where, connection.where);
+      thisRecord.offset = undefined;
+      thisRecord.limit = connection.limit;
+    }
+
+    const relWith = nodeField
       ? extractRelationsParamsInner(
         relationMap,
         tables,
         targetTableName,
         relTypeName,
-        relationField,
+        nodeField,
+        config,
+        false,
+        thisRecord.columns,
+        counts,
+        [...path, relName],
       )
       : undefined;
     thisRecord.with = relWith;
@@ -985,6 +3371,9 @@ const extractRelationsParamsInner = (
  * @param tableName - The name of the table for which to extract relation parameters.
  * @param info - The ResolveTree obtained from parsing the GraphQL resolve info.
  * @param typeName - The base type name used for generating nested relation types.
+ * @param config - The schema build configuration.
+ * @param columns - The selected columns of the table, extended with the columns required to count relations.
+ * @param counts - Collects the relation counts requested in the query, to be resolved with `resolveRelationCounts`.
  * @returns A record mapping relation names to partial ProcessedTableSelectArgs, or undefined if no relations.
  */
 export const extractRelationsParams = (
@@ -993,6 +3382,9 @@ export const extractRelationsParams = (
   tableName: string,
   info: ResolveTree | undefined,
   typeName: string,
+  config: BuildSchemaConfig,
+  columns?: Record<string, true>,
+  counts?: RelationCountRequest[],
 ): Record<string, Partial<ProcessedTableSelectArgs>> | undefined => {
   if (!info) return undefined;
 
@@ -1002,16 +3394,138 @@ export const extractRelationsParams = (
     tableName,
     typeName,
     info,
+    config,
     true,
+    columns,
+    counts,
+  );
+};
+
+/**
+ * Runs a select statement of counts, aggregates or grouped rows on any supported database.
+ *
+ * The database is narrowed to its dialect, so that the statement is built by its typed query
+ * builder.
+ *
+ * @param db - The database instance.
+ * @param query - The select statement.
+ * @returns The selected rows.
+ */
+const selectRows = (
+  db: AnyDrizzleDB<Record<string, unknown>>,
+  { fields, table, where, groupBy = [], having, orderBy = [] }: SelectRowsQuery,
+): Promise<Record<string, unknown>[]> => {
+  if (is(db, PgDatabase)) {
+    return db.select(fields as PgSelectedFields).from(table as PgTable)
+      .where(where).groupBy(...groupBy as PgColumn[]).having(having)
+      .orderBy(...orderBy);
+  }
+  if (is(db, MySqlDatabase)) {
+    return db.select(fields as MySqlSelectedFields).from(table as MySqlTable)
+      .where(where).groupBy(...groupBy as MySqlColumn[]).having(having)
+      .orderBy(...orderBy);
+  }
+  return (db as BaseSQLiteDatabase<
+    "sync" | "async",
+    unknown,
+    Record<string, unknown>
+  >).select(fields as SQLiteSelectedFields).from(table as SQLiteTable)
+    .where(where).groupBy(...groupBy as SQLiteColumn[]).having(having)
+    .orderBy(...orderBy);
+};
+
+/**
+ * Counts the related records requested by `extractRelationsParams` and stores the counts on
+ * their parent records.
+ *
+ * Each requested relation is counted with a single grouped query over all of its parents,
+ * so counts are computed without the pagination of the relation itself.
+ *
+ * @param db - The database instance.
+ * @param result - The queried records, before they are remapped to GraphQL output.
+ * @param counts - The relation counts requested in the query.
+ */
+export const resolveRelationCounts = async (
+  db: AnyDrizzleDB<Record<string, unknown>>,
+  result: Record<string, unknown>[] | Record<string, unknown> | undefined,
+  counts: RelationCountRequest[],
+): Promise<void> => {
+  const records = Array.isArray(result) ? result : result ? [result] : [];
+  const keyOf = (values: unknown[]) =>
+    JSON.stringify(
+      values,
+      (_key, value) => typeof value === "bigint" ? value.toString() : value,
+    );
+
+  await Promise.all(
+    counts.map(async (
+      { path, countKey, fields, references, targetTable, where },
+    ) => {
+      const parents = path.reduce<Record<string, unknown>[]>(
+        (rows, relName) =>
+          rows.flatMap((row) =>
+            (row[relName] ?? []) as Record<string, unknown>[]
+          ),
+        records,
+      );
+      const keyedParents = parents.filter((parent) =>
+        fields.every((columnName) =>
+          parent[columnName] !== null && parent[columnName] !== undefined
+        )
+      );
+
+      const totals = new Map<string, number>();
+      if (keyedParents.length) {
+        const keyFilter = references.length === 1
+          ? inArray(references[0]!, [
+            ...new Set(keyedParents.map((parent) => parent[fields[0]!])),
+          ])
+          : or(
+            ...keyedParents.map((parent) =>
+              and(
+                ...references.map((column, index) =>
+                  eq(column, parent[fields[index]!])
+                ),
+              )
+            ),
+          );
+        const rows = await selectRows(db, {
+          fields: {
+            count: count(),
+            ...Object.fromEntries(
+              references.map((column, index) => [`key${index}`, column]),
+            ),
+          },
+          table: targetTable,
+          where: and(keyFilter, where),
+          groupBy: references,
+        });
+        for (const row of rows) {
+          totals.set(
+            keyOf(references.map((_column, index) => row[`key${index}`])),
+            row.count as number,
+          );
+        }
+      }
+
+      for (const parent of parents) {
+        parent[countKey] = totals.get(keyOf(fields.map((columnName) =>
+          parent[columnName]
+        ))) ??
+          0;
+      }
+    }),
   );
 };
 
 /**
- * Creates a GraphQL select resolver for a table.
+ * Creates a GraphQL resolver returning the records of a table as a Relay connection.
  *
- * This function returns a resolver that executes a select query on the specified table,
- * applying pagination, ordering, filtering, and relation parameters extracted from the GraphQL query.
- * The resolver then remaps the raw database result into GraphQL output using the provided remapping function.
+ * This function returns a resolver that pages through the table with keyset pagination, using
+ * cursors derived from the requested order and the primary key, and applies the filtering and
+ * relation parameters extracted from the GraphQL query. Searchable tables are searched without
+ * ordering by relevance. If `totalCount` is selected, the records matching the filters are
+ * counted alongside the page.
  *
  * @param db - The database instance.
  * @param tableName - The name of the table to query.
@@ -1019,282 +3533,477 @@ export const extractRelationsParams = (
  * @param relationMap - A mapping of table names to their relation configurations.
  * @param orderArgs - The GraphQL input type for order arguments.
  * @param filterArgs - The GraphQL input type for filter arguments.
- * @param queryMethod - Either "findMany" for multiple records or "findFirst" for a single record.
- * @param remapFn - A function that remaps the raw database result to GraphQL output.
+ * @param config - The schema build configuration.
  * @returns A CreatedResolver containing the field name, arguments, and resolver function.
+ * @throws Error if the query builder for the specified table is not found.
  */
-export function createSelectResolver<TDbClient extends AnyDrizzleDB<any>>(
-  db: TDbClient,
+export function createConnectionResolver(
+  db: AnyDrizzleDB<Record<string, unknown>>,
   tableName: string,
   tables: Record<string, Table>,
   relationMap: Record<string, Record<string, TableNamedRelations>>,
-  orderArgs: any,
-  filterArgs: any,
-  queryMethod: "findMany" | "findFirst",
-  remapFn: (
-    result: any,
-    tableName: string,
-    table: Table,
-    relationMap?: Record<string, any>,
-  ) => any,
+  orderArgs: GraphQLInputObjectType,
+  filterArgs: GraphQLInputObjectType,
+  config: BuildSchemaConfig,
 ): CreatedResolver {
-  const queryName = uncapitalize(tableName) +
-    (queryMethod === "findMany" ? "" : "Single");
-  const queryBase = (db.query as any)[tableName];
+  const naming = getNaming(config);
+  const queryBase = db.query[tableName as keyof typeof db.query] as unknown as
+    | AnyQueryBuiler
+    | undefined;
   if (!queryBase) {
     throw new Error(
       `Drizzle-GraphQL Error: Table ${tableName} not found in drizzle instance.`,
     );
   }
 
-  const queryArgs: Record<string, any> = {
-    offset: { type: GraphQLInt },
-    orderBy: { type: orderArgs },
-    where: { type: filterArgs },
-  };
-  if (queryMethod === "findMany") {
-    queryArgs.limit = { type: GraphQLInt };
-  }
-  const typeName = `${capitalize(tableName)}SelectItem`;
+  const typeName = naming.selectItem(tableName);
   const table = tables[tableName]!;
 
   return {
-    name: queryName,
-    args: queryArgs,
-    resolver: async (
-      _source,
-      args: Partial<TableSelectArgs>,
-      _context,
-      info,
-    ) => {
-      try {
-        const { offset, limit, orderBy, where } = args;
-        const parsedInfo = parseResolveInfo(info, { deep: true }) as any;
-        const selectInfo = parsedInfo.fieldsByTypeName[typeName];
-        const queryOptions: any = {
-          columns: extractSelectedColumnsFromTree(selectInfo, table),
-          offset,
-          orderBy: orderBy ? extractOrderBy(table, orderBy) : undefined,
-          where: where ? extractFilters(table, tableName, where) : undefined,
-          with: relationMap[tableName]
-            ? extractRelationsParams(
-              relationMap,
-              tables,
-              tableName,
-              parsedInfo,
-              typeName,
-            )
+    name: naming.query(tableName),
+    args: {
+      orderBy: { type: orderArgs },
+      where: { type: filterArgs },
+      ...generateSearchArgs(table, tableName, config),
+      ...connectionArgs,
+    },
+    resolver: withGraphQLError(
+      async (_source, args: Partial<TableConnectionArgs>, _context, info) => {
+        const connectionInfo = parseResolveInfo(info, {
+          deep: true,
+        }) as ResolveTree;
+        const parsedInfo = extractConnectionNodeTree(
+          connectionInfo,
+          naming.tableType(tableName),
+          typeName,
+          config,
+        );
+        const connection = extractConnectionParams(
+          table,
+          tableName,
+          args,
+          config,
+        );
+        const filters = and(
+          args.where
+            ? extractFilters(table, tableName, args.where, config, relationMap)
             : undefined,
+          args.search
+            ? extractSearch(table, tableName, args.search, config).where
+            : undefined,
+        );
+        const withTotalCount = Object.values(
+          connectionInfo.fieldsByTypeName[
+            naming.connection(naming.tableType(tableName))
+          ] ?? {},
+        ).some((field) => field.name === "totalCount");
+
+        const columns = {
+          ...extractSelectedColumnsFromTree(
+            parsedInfo.fieldsByTypeName[typeName]!,
+            table,
+            tableName,
+            config,
+          ),
+          ...connection.columns,
         };
-        if (queryMethod === "findMany") queryOptions.limit = limit;
-        const query = queryBase[queryMethod](queryOptions);
-        const result = await query;
-        return remapFn(result, tableName, table, relationMap);
-      } catch (e: any) {
-        throw new GraphQLError(e?.message || e.toString());
-      }
-    },
+        const counts: RelationCountRequest[] = [];
+
+        const [result, totals] = await Promise.all([
+          queryBase.findMany({
+            columns,
+            orderBy: connection.orderBy,
+            where: and(filters, connection.where),
+            limit: connection.limit,
+            with: relationMap[tableName]
+              ? extractRelationsParams(
+                relationMap,
+                tables,
+                tableName,
+                parsedInfo,
+                typeName,
+                config,
+                columns,
+                counts,
+              )
+              : undefined,
+          }),
+          withTotalCount
+            ? selectRows(db, {
+              fields: { count: count() },
+              table,
+              where: filters,
+            })
+            : undefined,
+        ]);
+        await resolveRelationCounts(db, result, counts);
+
+        return remapToConnection(
+          remapToGraphQLArrayOutput(
+            result,
+            tableName,
+            table,
+            config,
+            relationMap,
+          ),
+          table,
+          tableName,
+          args,
+          config,
+          totals?.[0]?.count as number | undefined,
+        );
+      },
+    ),
   };
 }
 
 /**
- * Creates a GraphQL insert resolver for a table.
+ * Builds the selection of the aggregates requested in a GraphQL query.
  *
- * This function returns a resolver that handles insert operations.
- * It remaps GraphQL input to the database input, executes the insert,
- * and optionally returns the inserted values after remapping them to GraphQL output.
+ * `count` is always selected, the other aggregates only for the columns selected in the query.
  *
- * @param db - The database instance.
- * @param tableName - The name of the table into which to insert.
+ * @param selectedFields - The fields selected on the aggregate or group type.
+ * @param tableName - The name of the table in the Drizzle schema.
+ * @param numericColumns - The numeric columns of the table.
+ * @param config - The schema build configuration.
+ * @returns The selection passed to the select builder.
+ */
+const extractAggregateSelection = (
+  selectedFields: ResolveTree[],
+  tableName: string,
+  numericColumns: Record<string, Column>,
+  config: BuildSchemaConfig,
+): Record<string, SQL | Record<string, SQL>> => {
+  const naming = getNaming(config);
+  const selection: Record<string, SQL | Record<string, SQL>> = {
+    count: count(),
+  };
+  for (const [functionName, aggregate] of Object.entries(aggregateFunctions)) {
+    const typeName = naming.aggregateFunction(tableName, functionName);
+    const columnNames = selectedFields
+      .filter((field) => field.name === functionName)
+      .flatMap((field) => Object.values(field.fieldsByTypeName[typeName] ?? {}))
+      .map((field) => field.name)
+      .filter((columnName) => numericColumns[columnName]);
+    if (!columnNames.length) continue;
+    selection[functionName] = Object.fromEntries(
+      columnNames.map((columnName) => [
+        columnName,
+        aggregate(numericColumns[columnName]!),
+      ]),
+    );
+  }
+  return selection;
+};
+
+/**
+ * Remaps a row selected with `extractAggregateSelection` to GraphQL output.
+ *
+ * @param result - The selected row.
+ * @param tableName - The name of the table in the Drizzle schema.
  * @param table - The table definition.
- * @param baseType - The GraphQL input type for the insert.
- * @param withReturning - Indicates whether to return inserted values.
- * @param remapFromInput - A function to remap GraphQL input to database format.
- * @param remapFn - A function to remap the database result to GraphQL output.
- * @param extractColumns - (Optional) A function to extract columns for the returning clause.
- * @param relationMap - (Optional) The relation map used for remapping.
- * @returns A CreatedResolver containing the insert resolver.
- */
-export function createInsertResolver<TDbClient extends AnyDrizzleDB<any>>(
-  db: TDbClient,
+ * @param numericColumns - The numeric columns of the table.
+ * @param config - The schema build configuration.
+ * @returns The count and the aggregates of the row.
+ */
+const remapAggregateOutput = (
+  result: Record<string, unknown>,
   tableName: string,
   table: Table,
-  baseType: any,
-  withReturning: boolean,
-  remapFromInput: (input: any, table: Table) => any,
-  remapFn: (
-    result: any,
-    tableName: string,
-    table: Table,
-    relationMap?: Record<string, any>,
-  ) => any,
-  extractColumns?: (selectInfo: any, table: Table) => any,
-  relationMap?: Record<string, Record<string, TableNamedRelations>>,
-): CreatedResolver {
-  const queryName = withReturning
-    ? `insertInto${capitalize(tableName)}Single`
-    : `insertInto${capitalize(tableName)}`;
-  const queryArgs = {
-    values: {
-      type: new GraphQLNonNull(
-        withReturning
-          ? baseType
-          : new GraphQLList(new GraphQLNonNull(baseType)),
-      ),
-    },
-  };
+  numericColumns: Record<string, Column>,
+  config: BuildSchemaConfig,
+): Record<string, unknown> => {
+  const output: Record<string, unknown> = { count: result.count };
+  for (const functionName of Object.keys(aggregateFunctions)) {
+    const values = (result[functionName] ?? {}) as Record<string, unknown>;
+    // Sums and averages are returned as strings by some drivers, and kept as strings for
+    // 64-bit integer and decimal columns.
+    output[functionName] = functionName === "sum" || functionName === "avg"
+      ? Object.fromEntries(
+        Object.entries(values).map(([columnName, value]) => [
+          columnName,
+          value === null
+            ? null
+            : isExactNumericColumn(numericColumns[columnName]!)
+            ? String(value)
+            : Number(value),
+        ]),
+      )
+      : remapToGraphQLSingleOutput(values, tableName, table, config);
+  }
+  return output;
+};
 
-  return {
-    name: queryName,
-    args: queryArgs,
-    resolver: async (_source, args: any, _context, info) => {
-      try {
-        const input = remapFromInput(args.values, table);
-        if (Array.isArray(input) && !input.length) {
-          throw new GraphQLError("No values were provided!");
-        }
-        let query = (db.insert as any)(table).values(input);
-        if (withReturning && extractColumns) {
-          const typeName = `${capitalize(tableName)}Item`;
-          const parsedInfo = parseResolveInfo(info, { deep: true }) as any;
-          const selectInfo = parsedInfo.fieldsByTypeName[typeName];
-          const columns = extractColumns(selectInfo, table);
-          query = query.returning(columns).onConflictDoNothing();
-        }
-        const result = await query;
-        return remapFn(result, tableName, table, relationMap);
-      } catch (e: any) {
-        throw new GraphQLError(e?.message || e.toString());
-      }
-    },
-  };
-}
+/**
+ * Extracts SQL conditions comparing an aggregate with the given operators.
+ *
+ * @param aggregate - The SQL expression of the aggregate.
+ * @param operators - The operators and the values to compare the aggregate with.
+ * @returns The SQL conditions, one per operator.
+ */
+const extractAggregateFilters = (
+  aggregate: SQL,
+  operators: AggregateFilterOperators,
+): SQL[] =>
+  Object.entries(operators)
+    .filter(([_operator, value]) => value !== null && value !== undefined)
+    .map(([operator, value]) =>
+      aggregateOperators[operator as keyof AggregateFilterOperators](
+        aggregate,
+        value,
+      )
+    );
+
+/**
+ * Extracts the SQL HAVING clause of a group-by query from GraphQL having filters.
+ *
+ * Aggregate conditions are combined with AND, along with the nested filters of the `AND`, `OR`
+ * and `NOT` fields, which are extracted recursively.
+ *
+ * @param tableName - The name of the table in the Drizzle schema.
+ * @param having - The having filters provided in the GraphQL query.
+ * @param numericColumns - The numeric columns of the table.
+ * @returns The SQL condition, or undefined if no filters were provided.
+ */
+export const extractHaving = (
+  tableName: string,
+  having: HavingFilters,
+  numericColumns: Record<string, Column>,
+): SQL | undefined => {
+  const { AND, OR, NOT, ...aggregates } = having;
+  const conditions: SQL[] = aggregates.count
+    ? extractAggregateFilters(count(), aggregates.count)
+    : [];
+  for (const [functionName, aggregate] of Object.entries(aggregateFunctions)) {
+    const columnOperators =
+      aggregates[functionName as keyof typeof aggregateFunctions];
+    for (
+      const [columnName, operators] of Object.entries(columnOperators ?? {})
+    ) {
+      conditions.push(
+        ...extractAggregateFilters(
+          aggregate(numericColumns[columnName]!),
+          operators,
+        ),
+      );
+    }
+  }
+  conditions.push(
+    ...extractLogicalFilters(
+      { AND, OR, NOT },
+      (variant) => extractHaving(tableName, variant, numericColumns),
+    ),
+  );
+  return conditions.length
+    ? (conditions.length > 1 ? and(...conditions) : conditions[0])
+    : undefined;
+};
 
 /**
- * Creates a GraphQL update resolver for a table.
+ * Creates a GraphQL resolver counting and aggregating the records of a table.
  *
- * This function returns a resolver that handles update operations.
- * It remaps GraphQL input to database format, applies the update with optional filters,
- * and returns the updated values after remapping to GraphQL output.
+ * This function returns a resolver that applies the filters of the `where` argument and
+ * computes only the aggregates selected in the GraphQL query, in a single select statement.
  *
  * @param db - The database instance.
- * @param tableName - The name of the table to update.
+ * @param tableName - The name of the table to aggregate.
  * @param table - The table definition.
- * @param setType - The GraphQL input type for the update set.
- * @param filterArgs - The GraphQL input type for filter conditions.
- * @param remapFromInput - A function to remap GraphQL update input to database format.
- * @param remapFn - A function to remap the database result to GraphQL output.
- * @param extractColumns - (Optional) A function to extract columns for the returning clause.
- * @param relationMap - (Optional) The relation map used for remapping.
- * @returns A CreatedResolver containing the update resolver.
- */
-export function createUpdateResolver<TDbClient extends AnyDrizzleDB<any>>(
-  db: TDbClient,
+ * @param filterArgs - The GraphQL input type for filter arguments.
+ * @param relationMap - A mapping of table names to their relation configurations.
+ * @param config - The schema build configuration.
+ * @returns A CreatedResolver containing the field name, arguments, and resolver function.
+ */
+export function createAggregateResolver(
+  db: AnyDrizzleDB<Record<string, unknown>>,
   tableName: string,
   table: Table,
-  setType: any,
-  filterArgs: any,
-  remapFromInput: (input: any, table: Table) => any,
-  remapFn: (
-    result: any,
-    tableName: string,
-    table: Table,
-    relationMap?: Record<string, any>,
-  ) => any,
-  extractColumns?: (selectInfo: any, table: Table) => any,
-  relationMap?: Record<string, Record<string, TableNamedRelations>>,
+  filterArgs: GraphQLInputObjectType,
+  relationMap: Record<string, Record<string, TableNamedRelations>>,
+  config: BuildSchemaConfig,
 ): CreatedResolver {
-  const queryName = `update${capitalize(tableName)}`;
-  const queryArgs = {
-    set: { type: new GraphQLNonNull(setType) },
-    where: { type: filterArgs },
-  };
+  const naming = getNaming(config);
+  const numericColumns = getNumericTableColumns(table, tableName, config);
+
   return {
-    name: queryName,
-    args: queryArgs,
-    resolver: async (_source, args: any, _context, info) => {
-      try {
-        const { set, where } = args;
-        const input = remapFromInput(set, table);
-        if (!Object.keys(input).length) {
-          throw new GraphQLError("Unable to update with no values specified!");
-        }
-        let query = (db.update as any)(table).set(input);
-        if (where) {
-          query = query.where(extractFilters(table, tableName, where));
-        }
-        if (extractColumns) {
-          const typeName = `${capitalize(tableName)}Item`;
-          const parsedInfo = parseResolveInfo(info, { deep: true }) as any;
-          const selectInfo = parsedInfo.fieldsByTypeName[typeName];
-          const columns = extractColumns(selectInfo, table);
-          query = query.returning(columns);
-        }
-        const result = await query;
-        return remapFn(result, tableName, table, relationMap);
-      } catch (e: any) {
-        throw new GraphQLError(e?.message || e.toString());
-      }
+    name: naming.aggregate(tableName),
+    args: {
+      where: { type: filterArgs },
     },
+    resolver: withGraphQLError(
+      async (_source, args: Partial<TableSelectArgs>, _context, info) => {
+        const parsedInfo = parseResolveInfo(info, {
+          deep: true,
+        }) as ResolveTree;
+
+        const [result] = await selectRows(db, {
+          fields: extractAggregateSelection(
+            Object.values(
+              parsedInfo.fieldsByTypeName[naming.aggregateResult(tableName)] ??
+                {},
+            ),
+            tableName,
+            numericColumns,
+            config,
+          ),
+          table,
+          where: args.where
+            ? extractFilters(
+              table,
+              tableName,
+              args.where,
+              config,
+              relationMap,
+            )
+            : undefined,
+        });
+
+        return remapAggregateOutput(
+          result!,
+          tableName,
+          table,
+          numericColumns,
+          config,
+        );
+      },
+    ),
   };
 }
 
 /**
- * Creates a GraphQL delete resolver for a table.
+ * Creates a GraphQL resolver grouping the records of a table and aggregating each group.
  *
- * This function returns a resolver that handles delete operations.
- * It applies optional filters to determine which records to delete, and returns the deleted values
- * after remapping them to GraphQL output.
+ * This function returns a resolver that groups the records matching the `where` argument by
+ * the columns of the `by` argument, keeps the groups matching the `having` argument, and
+ * computes only the aggregates selected in the GraphQL query. Groups are ordered by their key.
  *
  * @param db - The database instance.
- * @param tableName - The name of the table to delete from.
+ * @param tableName - The name of the table to aggregate.
  * @param table - The table definition.
- * @param filterArgs - The GraphQL input type for filter conditions.
- * @param remapFn - A function to remap the database result to GraphQL output.
- * @param extractColumns - (Optional) A function to extract columns for the returning clause.
- * @param relationMap - (Optional) The relation map used for remapping.
- * @returns A CreatedResolver containing the delete resolver.
- */
-export function createDeleteResolver<TDbClient extends AnyDrizzleDB<any>>(
-  db: TDbClient,
+ * @param filterArgs - The GraphQL input type for filter arguments.
+ * @param relationMap - A mapping of table names to their relation configurations.
+ * @param config - The schema build configuration.
+ * @returns A CreatedResolver containing the field name, arguments, and resolver function.
+ */
+export function createGroupByResolver(
+  db: AnyDrizzleDB<Record<string, unknown>>,
   tableName: string,
   table: Table,
-  filterArgs: any,
-  remapFn: (
-    result: any,
-    tableName: string,
-    table: Table,
-    relationMap?: Record<string, any>,
-  ) => any,
-  extractColumns?: (selectInfo: any, table: Table) => any,
-  relationMap?: Record<string, Record<string, TableNamedRelations>>,
+  filterArgs: GraphQLInputObjectType,
+  relationMap: Record<string, Record<string, TableNamedRelations>>,
+  config: BuildSchemaConfig,
 ): CreatedResolver {
-  const queryName = `deleteFrom${capitalize(tableName)}`;
-  const queryArgs = {
-    where: { type: filterArgs },
-  } as const satisfies GraphQLFieldConfigArgumentMap;
+  const naming = getNaming(config);
+  const numericColumns = getNumericTableColumns(table, tableName, config);
+  const groupableColumns = getGroupableTableColumns(table, tableName, config);
+
+  const columnType = new GraphQLEnumType({
+    name: naming.groupByColumn(tableName),
+    values: Object.fromEntries(
+      Object.keys(groupableColumns).map((columnName) => [
+        columnName,
+        { value: columnName },
+      ]),
+    ),
+  });
+
+  const havingFields: GraphQLInputFieldConfigMap = {
+    count: { type: aggregateFilters },
+  };
+  if (Object.keys(numericColumns).length) {
+    for (const functionName of Object.keys(aggregateFunctions)) {
+      havingFields[functionName] = {
+        type: new GraphQLInputObjectType({
+          name: naming.havingFunction(tableName, functionName),
+          fields: Object.fromEntries(
+            Object.keys(numericColumns).map((columnName) => [
+              columnName,
+              { type: aggregateFilters },
+            ]),
+          ),
+        }),
+      };
+    }
+  }
+  const havingType: GraphQLInputObjectType = new GraphQLInputObjectType({
+    name: naming.having(tableName),
+    fields: () => ({
+      ...havingFields,
+      ...generateLogicalFilterFields(havingType),
+    }),
+  });
+
   return {
-    name: queryName,
-    args: queryArgs,
-    resolver: async (_source, args: any, _context, info) => {
-      try {
-        const { where } = args;
-        let query = (db.delete as any)(table);
-        if (where) {
-          query = query.where(extractFilters(table, tableName, where));
-        }
-        if (extractColumns) {
-          const typeName = `${capitalize(tableName)}Item`;
-          const parsedInfo = parseResolveInfo(info, { deep: true }) as any;
-          const selectInfo = parsedInfo.fieldsByTypeName[typeName];
-          const columns = extractColumns(selectInfo, table);
-          query = query.returning(columns);
-        }
-        const result = await query;
-        return remapFn(result, tableName, table, relationMap);
-      } catch (e: any) {
-        throw new GraphQLError(e?.message || e.toString());
-      }
+    name: naming.groupBy(tableName),
+    args: {
+      by: {
+        type: new GraphQLNonNull(
+          new GraphQLList(new GraphQLNonNull(columnType)),
+        ),
+      },
+      where: { type: filterArgs },
+      having: { type: havingType },
     },
+    resolver: withGraphQLError(
+      async (_source, args: Partial<TableGroupByArgs>, _context, info) => {
+        const by = [...new Set(args.by ?? [])];
+        if (!by.length) {
+          throw new GraphQLError(
+            "'by' is supposed to contain at least one column!",
+          );
+        }
+        const parsedInfo = parseResolveInfo(info, {
+          deep: true,
+        }) as ResolveTree;
+        const columns = by.map((columnName) => groupableColumns[columnName]!);
+
+        const result = await selectRows(db, {
+          fields: {
+            ...extractAggregateSelection(
+              Object.values(
+                parsedInfo.fieldsByTypeName[naming.groupResult(tableName)] ??
+                  {},
+              ),
+              tableName,
+              numericColumns,
+              config,
+            ),
+            key: Object.fromEntries(
+              by.map((columnName, index) => [columnName, columns[index]!]),
+            ),
+          },
+          table,
+          where: args.where
+            ? extractFilters(
+              table,
+              tableName,
+              args.where,
+              config,
+              relationMap,
+            )
+            : undefined,
+          groupBy: columns,
+          having: args.having
+            ? extractHaving(tableName, args.having, numericColumns)
+            : undefined,
+          orderBy: columns.map((column) => asc(column)),
+        });
+
+        return result.map((row) => ({
+          ...remapAggregateOutput(
+            row,
+            tableName,
+            table,
+            numericColumns,
+            config,
+          ),
+          key: remapToGraphQLSingleOutput(
+            row.key as Record<string, unknown>,
+            tableName,
+            table,
+            config,
+          ),
+        }));
+      },
+    ),
   };
 }
@@ -1,4 +1,5 @@
 import {
+  and,
   createTableRelationsHelpers,
   is,
   type Relation,
@@ -17,13 +18,21 @@ import {
 } from "graphql";
 
 import {
+  createAggregateResolver,
+  createConnectionResolver,
+  createGroupByResolver,
   extractFilters,
   extractOrderBy,
   extractRelationsParams,
+  extractSearch,
   extractSelectedColumnsFromTree,
+  filterTableEntries,
+  generateSearchArgs,
   generateTableTypes,
+  getTableOperations,
+  resolveRelationCounts,
 } from "./common.ts";
-import { capitalize, uncapitalize } from "../case-ops.ts";
+import { getNaming } from "../naming.ts";
 import {
   remapFromGraphQLArrayInput,
   remapFromGraphQLSingleInput,
@@ -32,7 +41,7 @@ import {
 } from "../data-mappers.ts";
 import { parseResolveInfo } from "graphql-parse-resolve-info";
 
-import type { GeneratedEntities } from "../../types.ts";
+import type { BuildSchemaConfig, GeneratedEntities } from "../../types.ts";
 import type { RelationalQueryBuilder } from "drizzle-orm/mysql-core/query-builders/query";
 import type {
   GraphQLFieldConfig,
@@ -43,6 +52,7 @@ import type { ResolveTree } from "graphql-parse-resolve-info";
 import type {
   CreatedResolver,
   Filters,
+  RelationCountRequest,
   TableNamedRelations,
   TableSelectArgs,
 } from "./types.ts";
@@ -62,6 +72,7 @@ import type {
  * @param relationMap - A mapping of table names to their relation configurations.
  * @param orderArgs - The GraphQL input type defining ordering arguments.
  * @param filterArgs - The GraphQL input type defining filtering arguments.
+ * @param config - The schema build configuration.
  * @returns A CreatedResolver containing the field name, expected arguments, and the resolver function.
  * @throws Error if the query builder for the table is not found.
  */
@@ -72,8 +83,10 @@ const generateSelectArray = (
   relationMap: Record<string, Record<string, TableNamedRelations>>,
   orderArgs: GraphQLInputObjectType,
   filterArgs: GraphQLInputObjectType,
+  config: BuildSchemaConfig,
 ): CreatedResolver => {
-  const queryName = `${uncapitalize(tableName)}`;
+  const naming = getNaming(config);
+  const queryName = naming.query(tableName);
   const queryBase = db.query[tableName as keyof typeof db.query] as unknown as
     | RelationalQueryBuilder<any, any, any>
     | undefined;
@@ -83,6 +96,9 @@ const generateSelectArray = (
     );
   }
 
+  const typeName = naming.selectItem(tableName);
+  const table = tables[tableName]!;
+
   const queryArgs = {
     offset: {
       type: GraphQLInt,
@@ -96,11 +112,9 @@ const generateSelectArray = (
     where: {
       type: filterArgs,
     },
+    ...generateSearchArgs(table, tableName, config),
   } as GraphQLFieldConfigArgumentMap;
 
-  const typeName = `${capitalize(tableName)}SelectItem`;
-  const table = tables[tableName]!;
-
   return {
     name: queryName,
     resolver: async (
@@ -110,21 +124,43 @@ const generateSelectArray = (
       info,
     ) => {
       try {
-        const { offset, limit, orderBy, where } = args;
+        const { offset, limit, orderBy, where, search } = args;
+
+        const searchClause = search
+          ? extractSearch(table, tableName, search, config)
+          : undefined;
 
         const parsedInfo = parseResolveInfo(info, {
           deep: true,
         }) as ResolveTree;
 
+        const columns = extractSelectedColumnsFromTree(
+          parsedInfo.fieldsByTypeName[typeName]!,
+          table,
+          tableName,
+          config,
+        );
+        const counts: RelationCountRequest[] = [];
+
         const query = queryBase.findMany({
-          columns: extractSelectedColumnsFromTree(
-            parsedInfo.fieldsByTypeName[typeName]!,
-            table,
-          ),
+          columns,
           offset,
           limit,
-          orderBy: orderBy ? extractOrderBy(table, orderBy) : undefined,
-          where: where ? extractFilters(table, tableName, where) : undefined,
+          orderBy: orderBy || searchClause?.relevance
+            ? extractOrderBy(
+              table,
+              tableName,
+              orderBy ?? {},
+              relationMap,
+              searchClause?.relevance,
+            )
+            : undefined,
+          where: and(
+            where
+              ? extractFilters(table, tableName, where, config, relationMap)
+              : undefined,
+            searchClause?.where,
+          ),
           with: relationMap[tableName]
             ? extractRelationsParams(
               relationMap,
@@ -132,13 +168,23 @@ const generateSelectArray = (
               tableName,
               parsedInfo,
               typeName,
+              config,
+              columns,
+              counts,
             )
             : undefined,
         });
 
         const result = await query;
+        await resolveRelationCounts(db, result, counts);
 
-        return remapToGraphQLArrayOutput(result, tableName, table, relationMap);
+        return remapToGraphQLArrayOutput(
+          result,
+          tableName,
+          table,
+          config,
+          relationMap,
+        );
       } catch (e) {
         if (typeof e === "object" && typeof (<any> e).message === "string") {
           throw new GraphQLError((<any> e).message);
@@ -164,6 +210,7 @@ const generateSelectArray = (
  * @param relationMap - A mapping of table names to their relation configurations.
  * @param orderArgs - The GraphQL input type defining ordering arguments.
  * @param filterArgs - The GraphQL input type defining filtering arguments.
+ * @param config - The schema build configuration.
  * @returns A CreatedResolver containing the field name, expected arguments, and the resolver function.
  * @throws Error if the query builder for the table is not found.
  */
@@ -174,8 +221,10 @@ const generateSelectSingle = (
   relationMap: Record<string, Record<string, TableNamedRelations>>,
   orderArgs: GraphQLInputObjectType,
   filterArgs: GraphQLInputObjectType,
+  config: BuildSchemaConfig,
 ): CreatedResolver => {
-  const queryName = `${uncapitalize(tableName)}Single`;
+  const naming = getNaming(config);
+  const queryName = naming.querySingle(tableName);
   const queryBase = db.query[tableName as keyof typeof db.query] as unknown as
     | RelationalQueryBuilder<any, any, any>
     | undefined;
@@ -185,6 +234,9 @@ const generateSelectSingle = (
     );
   }
 
+  const typeName = naming.selectItem(tableName);
+  const table = tables[tableName]!;
+
   const queryArgs = {
     offset: {
       type: GraphQLInt,
@@ -195,11 +247,9 @@ const generateSelectSingle = (
     where: {
       type: filterArgs,
     },
+    ...generateSearchArgs(table, tableName, config),
   } as GraphQLFieldConfigArgumentMap;
 
-  const typeName = `${capitalize(tableName)}SelectItem`;
-  const table = tables[tableName]!;
-
   return {
     name: queryName,
     resolver: async (
@@ -209,20 +259,42 @@ const generateSelectSingle = (
       info,
     ) => {
       try {
-        const { offset, orderBy, where } = args;
+        const { offset, orderBy, where, search } = args;
+
+        const searchClause = search
+          ? extractSearch(table, tableName, search, config)
+          : undefined;
 
         const parsedInfo = parseResolveInfo(info, {
           deep: true,
         }) as ResolveTree;
 
+        const columns = extractSelectedColumnsFromTree(
+          parsedInfo.fieldsByTypeName[typeName]!,
+          table,
+          tableName,
+          config,
+        );
+        const counts: RelationCountRequest[] = [];
+
         const query = queryBase.findFirst({
-          columns: extractSelectedColumnsFromTree(
-            parsedInfo.fieldsByTypeName[typeName]!,
-            table,
-          ),
+          columns,
           offset,
-          orderBy: orderBy ? extractOrderBy(table, orderBy) : undefined,
-          where: where ? extractFilters(table, tableName, where) : undefined,
+          orderBy: orderBy || searchClause?.relevance
+            ? extractOrderBy(
+              table,
+              tableName,
+              orderBy ?? {},
+              relationMap,
+              searchClause?.relevance,
+            )
+            : undefined,
+          where: and(
+            where
+              ? extractFilters(table, tableName, where, config, relationMap)
+              : undefined,
+            searchClause?.where,
+          ),
           with: relationMap[tableName]
             ? extractRelationsParams(
               relationMap,
@@ -230,17 +302,22 @@ const generateSelectSingle = (
               tableName,
               parsedInfo,
               typeName,
+              config,
+              columns,
+              counts,
             )
             : undefined,
         });
 
         const result = await query;
+        await resolveRelationCounts(db, result, counts);
         if (!result) return undefined;
 
         return remapToGraphQLSingleOutput(
           result,
           tableName,
           table,
+          config,
           relationMap,
         );
       } catch (e) {
@@ -265,6 +342,7 @@ const generateSelectSingle = (
  * @param tableName - The name of the table to insert into.
  * @param table - The MySqlTable definition representing the target table.
  * @param baseType - The GraphQL input type representing the insert input schema.
+ * @param config - The schema build configuration.
  * @returns A CreatedResolver containing the resolver name, expected arguments, and the resolver function.
  * @throws GraphQLError if no values are provided for insertion.
  */
@@ -273,8 +351,10 @@ const generateInsertArray = (
   tableName: string,
   table: MySqlTable,
   baseType: GraphQLInputObjectType,
+  config: BuildSchemaConfig,
 ): CreatedResolver => {
-  const queryName = `insertInto${capitalize(tableName)}`;
+  const naming = getNaming(config);
+  const queryName = naming.insert(tableName);
 
   const queryArgs: GraphQLFieldConfigArgumentMap = {
     values: {
@@ -291,7 +371,7 @@ const generateInsertArray = (
       _info,
     ) => {
       try {
-        const input = remapFromGraphQLArrayInput(args.values, table);
+        const input = remapFromGraphQLArrayInput(args.values, table, config);
         if (!input.length) throw new GraphQLError("No values were provided!");
 
         await db.insert(table).values(input);
@@ -319,6 +399,7 @@ const generateInsertArray = (
  * @param tableName - The name of the table to insert into.
  * @param table - The MySqlTable definition representing the target table.
  * @param baseType - The GraphQL input type representing the insert input schema.
+ * @param config - The schema build configuration.
  * @returns A CreatedResolver containing the resolver name, expected arguments, and the resolver function.
  */
 const generateInsertSingle = (
@@ -326,8 +407,10 @@ const generateInsertSingle = (
   tableName: string,
   table: MySqlTable,
   baseType: GraphQLInputObjectType,
+  config: BuildSchemaConfig,
 ): CreatedResolver => {
-  const queryName = `insertInto${capitalize(tableName)}Single`;
+  const naming = getNaming(config);
+  const queryName = naming.insertSingle(tableName);
 
   const queryArgs: GraphQLFieldConfigArgumentMap = {
     values: {
@@ -344,7 +427,7 @@ const generateInsertSingle = (
       _info,
     ) => {
       try {
-        const input = remapFromGraphQLSingleInput(args.values, table);
+        const input = remapFromGraphQLSingleInput(args.values, table, config);
 
         await db.insert(table).values(input);
 
@@ -372,6 +455,8 @@ const generateInsertSingle = (
  * @param table - The MySqlTable definition representing the target table.
  * @param setArgs - The GraphQL input type representing the update input schema.
  * @param filterArgs - The GraphQL input type representing the filtering criteria.
+ * @param relationMap - A mapping of table names to their relation configurations.
+ * @param config - The schema build configuration.
  * @returns A CreatedResolver containing the resolver name, expected arguments, and the resolver function.
  * @throws GraphQLError if no update values are specified.
  */
@@ -381,8 +466,11 @@ const generateUpdate = (
   table: MySqlTable,
   setArgs: GraphQLInputObjectType,
   filterArgs: GraphQLInputObjectType,
+  relationMap: Record<string, Record<string, TableNamedRelations>>,
+  config: BuildSchemaConfig,
 ): CreatedResolver => {
-  const queryName = `update${capitalize(tableName)}`;
+  const naming = getNaming(config);
+  const queryName = naming.update(tableName);
 
   const queryArgs = {
     set: {
@@ -404,14 +492,20 @@ const generateUpdate = (
       try {
         const { where, set } = args;
 
-        const input = remapFromGraphQLSingleInput(set, table);
+        const input = remapFromGraphQLSingleInput(set, table, config);
         if (!Object.keys(input).length) {
           throw new GraphQLError("Unable to update with no values specified!");
         }
 
         let query = db.update(table).set(input);
         if (where) {
-          const filters = extractFilters(table, tableName, where);
+          const filters = extractFilters(
+            table,
+            tableName,
+            where,
+            config,
+            relationMap,
+          );
           query = query.where(filters) as any;
         }
 
@@ -440,6 +534,8 @@ const generateUpdate = (
  * @param tableName - The name of the table from which to delete records.
  * @param table - The MySqlTable definition representing the target table.
  * @param filterArgs - The GraphQL input type representing the filtering criteria.
+ * @param relationMap - A mapping of table names to their relation configurations.
+ * @param config - The schema build configuration.
  * @returns A CreatedResolver containing the resolver name, expected arguments, and the resolver function.
  */
 const generateDelete = (
@@ -447,8 +543,11 @@ const generateDelete = (
   tableName: string,
   table: MySqlTable,
   filterArgs: GraphQLInputObjectType,
+  relationMap: Record<string, Record<string, TableNamedRelations>>,
+  config: BuildSchemaConfig,
 ): CreatedResolver => {
-  const queryName = `deleteFrom${tableName}`;
+  const naming = getNaming(config);
+  const queryName = naming.delete(tableName);
 
   const queryArgs = {
     where: {
@@ -469,7 +568,13 @@ const generateDelete = (
 
         let query = db.delete(table);
         if (where) {
-          const filters = extractFilters(table, tableName, where);
+          const filters = extractFilters(
+            table,
+            tableName,
+            where,
+            config,
+            relationMap,
+          );
           query = query.where(filters) as any;
         }
 
@@ -503,7 +608,7 @@ const generateDelete = (
  * @template TSchema - The Drizzle-ORM schema object mapping table names to table definitions.
  * @param db - The MySQL database instance.
  * @param schema - The Drizzle-ORM schema object.
- * @param relationsDepthLimit - Optional limit for the depth of generated relation fields in queries.
+ * @param config - The schema build configuration (relation depth limit, exposed tables, etc.).
  * @returns An object containing the generated queries, mutations, input types, and output types.
  * @throws Error if no tables are detected in the provided schema.
  */
@@ -513,24 +618,31 @@ export const generateSchemaData = <
 >(
   db: TDrizzleInstance,
   schema: TSchema,
-  relationsDepthLimit: number | undefined,
+  config: BuildSchemaConfig = {},
 ): GeneratedEntities<TDrizzleInstance, TSchema> => {
   const rawSchema = schema;
   const schemaEntries = Object.entries(rawSchema);
 
-  const tableEntries = schemaEntries.filter(([_key, value]) =>
+  const schemaTableEntries = schemaEntries.filter(([_key, value]) =>
     is(value, MySqlTable)
   ) as [string, MySqlTable][];
-  const tables = Object.fromEntries(tableEntries);
 
-  if (!tableEntries.length) {
+  if (!schemaTableEntries.length) {
     throw new Error(
       "Drizzle-GraphQL Error: No tables detected in Drizzle-ORM's database instance. Did you forget to pass schema to drizzle constructor?",
     );
   }
 
+  const tableEntries = filterTableEntries(schemaTableEntries, config);
+  const tables = Object.fromEntries(tableEntries);
+
   const rawRelations = schemaEntries
-    .filter(([_key, value]) => is(value, Relations))
+    .filter(([_key, value]) =>
+      is(value, Relations) &&
+      tableEntries.some(([_tableName, tableValue]) =>
+        tableValue === (value as Relations).table
+      )
+    )
     .map<[string, Relations]>(([_key, value]) => [
       tableEntries.find(
         ([_tableName, tableValue]) => tableValue === (value as Relations).table,
@@ -543,18 +655,21 @@ export const generateSchemaData = <
     ]);
 
   const namedRelations = Object.fromEntries(
-    rawRelations.map(([relName, config]) => {
+    rawRelations.map(([relName, relConfig]) => {
       const namedConfig: Record<string, TableNamedRelations> = Object
         .fromEntries(
-          Object.entries(config).map(([innerRelName, innerRelValue]) => {
-            const targetTableName =
-              tableEntries.find(([_tableName, tableValue]) =>
-                tableValue === innerRelValue.referencedTable
-              )![0];
-            return [
+          Object.entries(relConfig).flatMap<[string, TableNamedRelations]>((
+            [innerRelName, innerRelValue],
+          ) => {
+            // Relations pointing at tables that are not exposed are dropped.
+            const targetTableName = tableEntries.find((
+              [_tableName, tableValue],
+            ) => tableValue === innerRelValue.referencedTable)?.[0];
+            if (!targetTableName) return [];
+            return [[
               innerRelName,
               { relation: innerRelValue, targetTableName },
-            ];
+            ]];
           }),
         );
       return [relName, namedConfig];
@@ -571,7 +686,7 @@ export const generateSchemaData = <
         tables,
         namedRelations,
         false,
-        relationsDepthLimit,
+        config,
       ),
     ]),
   );
@@ -593,35 +708,70 @@ export const generateSchemaData = <
   for (const [tableName, tableTypes] of Object.entries(gqlSchemaTypes)) {
     const { insertInput, updateInput, tableFilters, tableOrder } =
       tableTypes.inputs;
-    const { selectSingleOutput, selectArrOutput } = tableTypes.outputs;
-
-    const selectArrGenerated = generateSelectArray(
+    const {
+      selectSingleOutput,
+      selectArrOutput,
+      aggregateOutput,
+      groupByOutput,
+    } = tableTypes.outputs;
+
+    const selectArrGenerated = config.connections
+      ? createConnectionResolver(
+        db,
+        tableName,
+        tables,
+        namedRelations,
+        tableOrder,
+        tableFilters,
+        config,
+      )
+      : generateSelectArray(
+        db,
+        tableName,
+        tables,
+        namedRelations,
+        tableOrder,
+        tableFilters,
+        config,
+      );
+    const selectSingleGenerated = generateSelectSingle(
       db,
       tableName,
       tables,
       namedRelations,
       tableOrder,
       tableFilters,
+      config,
     );
-    const selectSingleGenerated = generateSelectSingle(
+    const aggregateGenerated = createAggregateResolver(
       db,
       tableName,
-      tables,
+      schema[tableName] as MySqlTable,
+      tableFilters,
       namedRelations,
-      tableOrder,
+      config,
+    );
+    const groupByGenerated = createGroupByResolver(
+      db,
+      tableName,
+      schema[tableName] as MySqlTable,
       tableFilters,
+      namedRelations,
+      config,
     );
     const insertArrGenerated = generateInsertArray(
       db,
       tableName,
       schema[tableName] as MySqlTable,
       insertInput,
+      config,
     );
     const insertSingleGenerated = generateInsertSingle(
       db,
       tableName,
       schema[tableName] as MySqlTable,
       insertInput,
+      config,
     );
     const updateGenerated = generateUpdate(
       db,
@@ -629,44 +779,88 @@ export const generateSchemaData = <
       schema[tableName] as MySqlTable,
       updateInput,
       tableFilters,
+      namedRelations,
+      config,
     );
     const deleteGenerated = generateDelete(
       db,
       tableName,
       schema[tableName] as MySqlTable,
       tableFilters,
+      namedRelations,
+      config,
     );
 
-    queries[selectArrGenerated.name] = {
-      type: selectArrOutput,
-      args: selectArrGenerated.args,
-      resolve: selectArrGenerated.resolver,
-    };
-    queries[selectSingleGenerated.name] = {
-      type: selectSingleOutput,
-      args: selectSingleGenerated.args,
-      resolve: selectSingleGenerated.resolver,
-    };
-    mutations[insertArrGenerated.name] = {
-      type: mutationReturnType,
-      args: insertArrGenerated.args,
-      resolve: insertArrGenerated.resolver,
-    };
-    mutations[insertSingleGenerated.name] = {
-      type: mutationReturnType,
-      args: insertSingleGenerated.args,
-      resolve: insertSingleGenerated.resolver,
-    };
-    mutations[updateGenerated.name] = {
-      type: mutationReturnType,
-      args: updateGenerated.args,
-      resolve: updateGenerated.resolver,
-    };
-    mutations[deleteGenerated.name] = {
-      type: mutationReturnType,
-      args: deleteGenerated.args,
-      resolve: deleteGenerated.resolver,
-    };
+    const operations = getTableOperations(tableName, config);
+    if (operations.query) {
+      queries[selectArrGenerated.name] = {
+        type: selectArrOutput,
+        args: selectArrGenerated.args,
+        resolve: selectArrGenerated.resolver,
+      };
+    }
+    if (operations.querySingle) {
+      queries[selectSingleGenerated.name] = {
+        type: selectSingleOutput,
+        args: selectSingleGenerated.args,
+        resolve: selectSingleGenerated.resolver,
+      };
+    }
+    if (operations.aggregate) {
+      queries[aggregateGenerated.name] = {
+        type: aggregateOutput,
+        args: aggregateGenerated.args,
+        resolve: aggregateGenerated.resolver,
+      };
+    }
+    if (operations.groupBy) {
+      queries[groupByGenerated.name] = {
+        type: groupByOutput,
+        args: groupByGenerated.args,
+        resolve: groupByGenerated.resolver,
+      };
+    }
+    if (operations.insert) {
+      mutations[insertArrGenerated.name] = {
+        type: mutationReturnType,
+        args: insertArrGenerated.args,
+        resolve: insertArrGenerated.resolver,
+      };
+    }
+    if (operations.insertSingle) {
+      mutations[insertSingleGenerated.name] = {
+        type: mutationReturnType,
+        args: insertSingleGenerated.args,
+        resolve: insertSingleGenerated.resolver,
+      };
+    }
+    if (operations.update) {
+      mutations[updateGenerated.name] = {
+        type: mutationReturnType,
+        args: updateGenerated.args,
+        resolve: updateGenerated.resolver,
+      };
+    }
+    if (operations.delete) {
+      mutations[deleteGenerated.name] = {
+        type: mutationReturnType,
+        args: deleteGenerated.args,
+        resolve: deleteGenerated.resolver,
+      };
+      // Earlier versions did not capitalize the table name of MySQL delete mutations.
+      const legacyDeleteName = `deleteFrom${tableName}`;
+      if (
+        config.naming?.legacyAliases &&
+        legacyDeleteName !== deleteGenerated.name
+      ) {
+        mutations[legacyDeleteName] = {
+          type: mutationReturnType,
+          args: deleteGenerated.args,
+          resolve: deleteGenerated.resolver,
+          deprecationReason: `Use ${deleteGenerated.name} instead.`,
+        };
+      }
+    }
     [insertInput, updateInput, tableFilters, tableOrder].forEach(
       (e) => (inputs[e.name] = e),
     );
@@ -1,4 +1,5 @@
 import {
+  and,
   createTableRelationsHelpers,
   is,
   type Relation,
@@ -16,14 +17,22 @@ import {
 } from "graphql";
 
 import {
+  createAggregateResolver,
+  createConnectionResolver,
+  createGroupByResolver,
   extractFilters,
   extractOrderBy,
   extractRelationsParams,
+  extractSearch,
   extractSelectedColumnsFromTree,
   extractSelectedColumnsFromTreeSQLFormat,
+  filterTableEntries,
+  generateSearchArgs,
   generateTableTypes,
+  getTableOperations,
+  resolveRelationCounts,
 } from "./common.ts";
-import { capitalize, uncapitalize } from "../case-ops.ts";
+import { getNaming } from "../naming.ts";
 import {
   remapFromGraphQLArrayInput,
   remapFromGraphQLSingleInput,
@@ -32,7 +41,7 @@ import {
 } from "../data-mappers.ts";
 import { parseResolveInfo } from "graphql-parse-resolve-info";
 
-import type { GeneratedEntities } from "../../types.ts";
+import type { BuildSchemaConfig, GeneratedEntities } from "../../types.ts";
 import type { RelationalQueryBuilder } from "drizzle-orm/pg-core/query-builders/query";
 import type {
   GraphQLFieldConfig,
@@ -43,6 +52,7 @@ import type { ResolveTree } from "graphql-parse-resolve-info";
 import type {
   CreatedResolver,
   Filters,
+  RelationCountRequest,
   TableNamedRelations,
   TableSelectArgs,
 } from "./types.ts";
@@ -61,6 +71,7 @@ import type {
  * @param relationMap - A mapping of table names to their relations (with inner relation configurations).
  * @param orderArgs - The GraphQL input type defining ordering arguments.
  * @param filterArgs - The GraphQL input type defining filtering arguments.
+ * @param config - The schema build configuration.
  * @returns A CreatedResolver object containing the resolver name, arguments, and the resolver function.
  * @throws Error if the query builder for the specified table is not found.
  */
@@ -71,8 +82,10 @@ const generateSelectArray = (
   relationMap: Record<string, Record<string, TableNamedRelations>>,
   orderArgs: GraphQLInputObjectType,
   filterArgs: GraphQLInputObjectType,
+  config: BuildSchemaConfig,
 ): CreatedResolver => {
-  const queryName = `${uncapitalize(tableName)}`;
+  const naming = getNaming(config);
+  const queryName = naming.query(tableName);
   const queryBase = db.query[tableName as keyof typeof db.query] as unknown as
     | RelationalQueryBuilder<any, any>
     | undefined;
@@ -82,6 +95,9 @@ const generateSelectArray = (
     );
   }
 
+  const typeName = naming.selectItem(tableName);
+  const table = tables[tableName]!;
+
   const queryArgs = {
     offset: {
       type: GraphQLInt,
@@ -95,11 +111,9 @@ const generateSelectArray = (
     where: {
       type: filterArgs,
     },
+    ...generateSearchArgs(table, tableName, config),
   } as GraphQLFieldConfigArgumentMap;
 
-  const typeName = `${capitalize(tableName)}SelectItem`;
-  const table = tables[tableName]!;
-
   return {
     name: queryName,
     resolver: async (
@@ -109,21 +123,43 @@ const generateSelectArray = (
       info,
     ) => {
       try {
-        const { offset, limit, orderBy, where } = args;
+        const { offset, limit, orderBy, where, search } = args;
+
+        const searchClause = search
+          ? extractSearch(table, tableName, search, config)
+          : undefined;
 
         const parsedInfo = parseResolveInfo(info, {
           deep: true,
         }) as ResolveTree;
 
+        const columns = extractSelectedColumnsFromTree(
+          parsedInfo.fieldsByTypeName[typeName]!,
+          table,
+          tableName,
+          config,
+        );
+        const counts: RelationCountRequest[] = [];
+
         const query = queryBase.findMany({
-          columns: extractSelectedColumnsFromTree(
-            parsedInfo.fieldsByTypeName[typeName]!,
-            table,
-          ),
+          columns,
           offset,
           limit,
-          orderBy: orderBy ? extractOrderBy(table, orderBy) : undefined,
-          where: where ? extractFilters(table, tableName, where) : undefined,
+          orderBy: orderBy || searchClause?.relevance
+            ? extractOrderBy(
+              table,
+              tableName,
+              orderBy ?? {},
+              relationMap,
+              searchClause?.relevance,
+            )
+            : undefined,
+          where: and(
+            where
+              ? extractFilters(table, tableName, where, config, relationMap)
+              : undefined,
+            searchClause?.where,
+          ),
           with: relationMap[tableName]
             ? extractRelationsParams(
               relationMap,
@@ -131,13 +167,23 @@ const generateSelectArray = (
               tableName,
               parsedInfo,
               typeName,
+              config,
+              columns,
+              counts,
             )
             : undefined,
         });
 
         const result = await query;
+        await resolveRelationCounts(db, result, counts);
 
-        return remapToGraphQLArrayOutput(result, tableName, table, relationMap);
+        return remapToGraphQLArrayOutput(
+          result,
+          tableName,
+          table,
+          config,
+          relationMap,
+        );
       } catch (e) {
         if (typeof e === "object" && typeof (<any> e).message === "string") {
           throw new GraphQLError((<any> e).message);
@@ -163,6 +209,7 @@ const generateSelectArray = (
  * @param relationMap - A mapping of table names to their relations (with inner relation configurations).
  * @param orderArgs - The GraphQL input type defining ordering arguments.
  * @param filterArgs - The GraphQL input type defining filtering arguments.
+ * @param config - The schema build configuration.
  * @returns A CreatedResolver object containing the resolver name, arguments, and the resolver function.
  * @throws Error if the query builder for the specified table is not found.
  */
@@ -173,8 +220,10 @@ const generateSelectSingle = (
   relationMap: Record<string, Record<string, TableNamedRelations>>,
   orderArgs: GraphQLInputObjectType,
   filterArgs: GraphQLInputObjectType,
+  config: BuildSchemaConfig,
 ): CreatedResolver => {
-  const queryName = `${uncapitalize(tableName)}Single`;
+  const naming = getNaming(config);
+  const queryName = naming.querySingle(tableName);
   const queryBase = db.query[tableName as keyof typeof db.query] as unknown as
     | RelationalQueryBuilder<any, any>
     | undefined;
@@ -184,6 +233,9 @@ const generateSelectSingle = (
     );
   }
 
+  const typeName = naming.selectItem(tableName);
+  const table = tables[tableName]!;
+
   const queryArgs = {
     offset: {
       type: GraphQLInt,
@@ -194,11 +246,9 @@ const generateSelectSingle = (
     where: {
       type: filterArgs,
     },
+    ...generateSearchArgs(table, tableName, config),
   } as GraphQLFieldConfigArgumentMap;
 
-  const typeName = `${capitalize(tableName)}SelectItem`;
-  const table = tables[tableName]!;
-
   return {
     name: queryName,
     resolver: async (
@@ -208,20 +258,42 @@ const generateSelectSingle = (
       info,
     ) => {
       try {
-        const { offset, orderBy, where } = args;
+        const { offset, orderBy, where, search } = args;
+
+        const searchClause = search
+          ? extractSearch(table, tableName, search, config)
+          : undefined;
 
         const parsedInfo = parseResolveInfo(info, {
           deep: true,
         }) as ResolveTree;
 
+        const columns = extractSelectedColumnsFromTree(
+          parsedInfo.fieldsByTypeName[typeName]!,
+          table,
+          tableName,
+          config,
+        );
+        const counts: RelationCountRequest[] = [];
+
         const query = queryBase.findFirst({
-          columns: extractSelectedColumnsFromTree(
-            parsedInfo.fieldsByTypeName[typeName]!,
-            table,
-          ),
+          columns,
           offset,
-          orderBy: orderBy ? extractOrderBy(table, orderBy) : undefined,
-          where: where ? extractFilters(table, tableName, where) : undefined,
+          orderBy: orderBy || searchClause?.relevance
+            ? extractOrderBy(
+              table,
+              tableName,
+              orderBy ?? {},
+              relationMap,
+              searchClause?.relevance,
+            )
+            : undefined,
+          where: and(
+            where
+              ? extractFilters(table, tableName, where, config, relationMap)
+              : undefined,
+            searchClause?.where,
+          ),
           with: relationMap[tableName]
             ? extractRelationsParams(
               relationMap,
@@ -229,17 +301,22 @@ const generateSelectSingle = (
               tableName,
               parsedInfo,
               typeName,
+              config,
+              columns,
+              counts,
             )
             : undefined,
         });
 
         const result = await query;
+        await resolveRelationCounts(db, result, counts);
         if (!result) return undefined;
 
         return remapToGraphQLSingleOutput(
           result,
           tableName,
           table,
+          config,
           relationMap,
         );
       } catch (e) {
@@ -265,6 +342,7 @@ const generateSelectSingle = (
  * @param tableName - The name of the table into which data will be inserted.
  * @param table - The PostgreSQL table definition.
  * @param baseType - The GraphQL input type representing the table's insert input.
+ * @param config - The schema build configuration.
  * @returns A CreatedResolver object containing the resolver name, arguments, and the resolver function.
  * @throws GraphQLError if no values are provided for insertion.
  */
@@ -273,9 +351,11 @@ const generateInsertArray = (
   tableName: string,
   table: PgTable,
   baseType: GraphQLInputObjectType,
+  config: BuildSchemaConfig,
 ): CreatedResolver => {
-  const queryName = `insertInto${capitalize(tableName)}`;
-  const typeName = `${capitalize(tableName)}Item`;
+  const naming = getNaming(config);
+  const queryName = naming.insert(tableName);
+  const typeName = naming.item(tableName);
 
   const queryArgs: GraphQLFieldConfigArgumentMap = {
     values: {
@@ -292,7 +372,7 @@ const generateInsertArray = (
       info,
     ) => {
       try {
-        const input = remapFromGraphQLArrayInput(args.values, table);
+        const input = remapFromGraphQLArrayInput(args.values, table, config);
         if (!input.length) throw new GraphQLError("No values were provided!");
 
         const parsedInfo = parseResolveInfo(info, {
@@ -302,12 +382,14 @@ const generateInsertArray = (
         const columns = extractSelectedColumnsFromTreeSQLFormat<PgColumn>(
           parsedInfo.fieldsByTypeName[typeName]!,
           table,
+          tableName,
+          config,
         );
 
         const result = await db.insert(table).values(input).returning(columns)
           .onConflictDoNothing();
 
-        return remapToGraphQLArrayOutput(result, tableName, table);
+        return remapToGraphQLArrayOutput(result, tableName, table, config);
       } catch (e) {
         if (typeof e === "object" && typeof (<any> e).message === "string") {
           throw new GraphQLError((<any> e).message);
@@ -330,6 +412,7 @@ const generateInsertArray = (
  * @param tableName - The name of the table into which data will be inserted.
  * @param table - The PostgreSQL table definition.
  * @param baseType - The GraphQL input type representing the table's insert input.
+ * @param config - The schema build configuration.
  * @returns A CreatedResolver object containing the resolver name, arguments, and the resolver function.
  */
 const generateInsertSingle = (
@@ -337,9 +420,11 @@ const generateInsertSingle = (
   tableName: string,
   table: PgTable,
   baseType: GraphQLInputObjectType,
+  config: BuildSchemaConfig,
 ): CreatedResolver => {
-  const queryName = `insertInto${capitalize(tableName)}Single`;
-  const typeName = `${capitalize(tableName)}Item`;
+  const naming = getNaming(config);
+  const queryName = naming.insertSingle(tableName);
+  const typeName = naming.item(tableName);
 
   const queryArgs: GraphQLFieldConfigArgumentMap = {
     values: {
@@ -356,7 +441,7 @@ const generateInsertSingle = (
       info,
     ) => {
       try {
-        const input = remapFromGraphQLSingleInput(args.values, table);
+        const input = remapFromGraphQLSingleInput(args.values, table, config);
 
         const parsedInfo = parseResolveInfo(info, {
           deep: true,
@@ -365,6 +450,8 @@ const generateInsertSingle = (
         const columns = extractSelectedColumnsFromTreeSQLFormat<PgColumn>(
           parsedInfo.fieldsByTypeName[typeName]!,
           table,
+          tableName,
+          config,
         );
 
         const result = await db.insert(table).values(input).returning(columns)
@@ -372,7 +459,7 @@ const generateInsertSingle = (
 
         if (!result[0]) return undefined;
 
-        return remapToGraphQLSingleOutput(result[0], tableName, table);
+        return remapToGraphQLSingleOutput(result[0], tableName, table, config);
       } catch (e) {
         if (typeof e === "object" && typeof (<any> e).message === "string") {
           throw new GraphQLError((<any> e).message);
@@ -397,6 +484,8 @@ const generateInsertSingle = (
  * @param table - The PostgreSQL table definition.
  * @param setArgs - The GraphQL input type representing the update input.
  * @param filterArgs - The GraphQL input type representing filter arguments.
+ * @param relationMap - A mapping of table names to their relation configurations.
+ * @param config - The schema build configuration.
  * @returns A CreatedResolver object containing the resolver name, arguments, and the resolver function.
  * @throws GraphQLError if no update values are specified.
  */
@@ -406,9 +495,12 @@ const generateUpdate = (
   table: PgTable,
   setArgs: GraphQLInputObjectType,
   filterArgs: GraphQLInputObjectType,
+  relationMap: Record<string, Record<string, TableNamedRelations>>,
+  config: BuildSchemaConfig,
 ): CreatedResolver => {
-  const queryName = `update${capitalize(tableName)}`;
-  const typeName = `${capitalize(tableName)}Item`;
+  const naming = getNaming(config);
+  const queryName = naming.update(tableName);
+  const typeName = naming.item(tableName);
 
   const queryArgs = {
     set: {
@@ -437,16 +529,24 @@ const generateUpdate = (
         const columns = extractSelectedColumnsFromTreeSQLFormat<PgColumn>(
           parsedInfo.fieldsByTypeName[typeName]!,
           table,
+          tableName,
+          config,
         );
 
-        const input = remapFromGraphQLSingleInput(set, table);
+        const input = remapFromGraphQLSingleInput(set, table, config);
         if (!Object.keys(input).length) {
           throw new GraphQLError("Unable to update with no values specified!");
         }
 
         let query = db.update(table).set(input);
         if (where) {
-          const filters = extractFilters(table, tableName, where);
+          const filters = extractFilters(
+            table,
+            tableName,
+            where,
+            config,
+            relationMap,
+          );
           query = query.where(filters) as any;
         }
 
@@ -454,7 +554,7 @@ const generateUpdate = (
 
         const result = await query;
 
-        return remapToGraphQLArrayOutput(result, tableName, table);
+        return remapToGraphQLArrayOutput(result, tableName, table, config);
       } catch (e) {
         if (typeof e === "object" && typeof (<any> e).message === "string") {
           throw new GraphQLError((<any> e).message);
@@ -477,6 +577,8 @@ const generateUpdate = (
  * @param tableName - The name of the table from which to delete records.
  * @param table - The PostgreSQL table definition.
  * @param filterArgs - The GraphQL input type representing filter arguments.
+ * @param relationMap - A mapping of table names to their relation configurations.
+ * @param config - The schema build configuration.
  * @returns A CreatedResolver object containing the resolver name, arguments, and the resolver function.
  */
 const generateDelete = (
@@ -484,9 +586,12 @@ const generateDelete = (
   tableName: string,
   table: PgTable,
   filterArgs: GraphQLInputObjectType,
+  relationMap: Record<string, Record<string, TableNamedRelations>>,
+  config: BuildSchemaConfig,
 ): CreatedResolver => {
-  const queryName = `deleteFrom${capitalize(tableName)}`;
-  const typeName = `${capitalize(tableName)}Item`;
+  const naming = getNaming(config);
+  const queryName = naming.delete(tableName);
+  const typeName = naming.item(tableName);
 
   const queryArgs = {
     where: {
@@ -512,11 +617,19 @@ const generateDelete = (
         const columns = extractSelectedColumnsFromTreeSQLFormat<PgColumn>(
           parsedInfo.fieldsByTypeName[typeName]!,
           table,
+          tableName,
+          config,
         );
 
         let query = db.delete(table);
         if (where) {
-          const filters = extractFilters(table, tableName, where);
+          const filters = extractFilters(
+            table,
+            tableName,
+            where,
+            config,
+            relationMap,
+          );
           query = query.where(filters) as any;
         }
 
@@ -524,7 +637,7 @@ const generateDelete = (
 
         const result = await query;
 
-        return remapToGraphQLArrayOutput(result, tableName, table);
+        return remapToGraphQLArrayOutput(result, tableName, table, config);
       } catch (e) {
         if (typeof e === "object" && typeof (<any> e).message === "string") {
           throw new GraphQLError((<any> e).message);
@@ -551,7 +664,7 @@ const generateDelete = (
  * @template TSchema - The Drizzle-ORM schema object mapping table names to table definitions.
  * @param db - The PostgreSQL database instance.
  * @param schema - The Drizzle-ORM schema object.
- * @param relationsDepthLimit - Optional limit for the depth of generated relation fields in queries.
+ * @param config - The schema build configuration (relation depth limit, exposed tables, etc.).
  * @returns An object containing the generated queries, mutations, inputs, and output types.
  * @throws Error if no tables are detected in the provided schema.
  */
@@ -561,27 +674,34 @@ export const generateSchemaData = <
 >(
   db: TDrizzleInstance,
   schema: TSchema,
-  relationsDepthLimit: number | undefined,
+  config: BuildSchemaConfig = {},
 ): GeneratedEntities<TDrizzleInstance, TSchema> => {
   const rawSchema = schema;
   const schemaEntries = Object.entries(rawSchema);
 
-  const tableEntries = schemaEntries.filter(([_key, value]) =>
+  const schemaTableEntries = schemaEntries.filter(([_key, value]) =>
     is(value, PgTable)
   ) as [string, PgTable][];
-  const tables = Object.fromEntries(tableEntries) as Record<
-    string,
-    PgTable
-  >;
 
-  if (!tableEntries.length) {
+  if (!schemaTableEntries.length) {
     throw new Error(
       "Drizzle-GraphQL Error: No tables detected in Drizzle-ORM's database instance. Did you forget to pass schema to drizzle constructor?",
     );
   }
 
+  const tableEntries = filterTableEntries(schemaTableEntries, config);
+  const tables = Object.fromEntries(tableEntries) as Record<
+    string,
+    PgTable
+  >;
+
   const rawRelations = schemaEntries
-    .filter(([_key, value]) => is(value, Relations))
+    .filter(([_key, value]) =>
+      is(value, Relations) &&
+      tableEntries.some(([_tableName, tableValue]) =>
+        tableValue === (value as Relations).table
+      )
+    )
     .map<[string, Relations]>(([_key, value]) => [
       tableEntries.find(
         ([_tableName, tableValue]) => tableValue === (value as Relations).table,
@@ -594,18 +714,21 @@ export const generateSchemaData = <
     ]);
 
   const namedRelations = Object.fromEntries(
-    rawRelations.map(([relName, config]) => {
+    rawRelations.map(([relName, relConfig]) => {
       const namedConfig: Record<string, TableNamedRelations> = Object
         .fromEntries(
-          Object.entries(config).map(([innerRelName, innerRelValue]) => {
-            const targetTableName =
-              tableEntries.find(([_tableName, tableValue]) =>
-                tableValue === innerRelValue.referencedTable
-              )![0];
-            return [
+          Object.entries(relConfig).flatMap<[string, TableNamedRelations]>((
+            [innerRelName, innerRelValue],
+          ) => {
+            // Relations pointing at tables that are not exposed are dropped.
+            const targetTableName = tableEntries.find((
+              [_tableName, tableValue],
+            ) => tableValue === innerRelValue.referencedTable)?.[0];
+            if (!targetTableName) return [];
+            return [[
               innerRelName,
               { relation: innerRelValue, targetTableName },
-            ];
+            ]];
           }),
         );
       return [relName, namedConfig];
@@ -622,7 +745,7 @@ export const generateSchemaData = <
         tables,
         namedRelations,
         true,
-        relationsDepthLimit,
+        config,
       ),
     ]),
   );
@@ -636,37 +759,69 @@ export const generateSchemaData = <
     const {
       selectSingleOutput,
       selectArrOutput,
+      aggregateOutput,
+      groupByOutput,
       singleTableItemOutput,
       arrTableItemOutput,
     } = tableTypes.outputs;
 
-    const selectArrGenerated = generateSelectArray(
+    const selectArrGenerated = config.connections
+      ? createConnectionResolver(
+        db,
+        tableName,
+        tables,
+        namedRelations,
+        tableOrder,
+        tableFilters,
+        config,
+      )
+      : generateSelectArray(
+        db,
+        tableName,
+        tables,
+        namedRelations,
+        tableOrder,
+        tableFilters,
+        config,
+      );
+    const selectSingleGenerated = generateSelectSingle(
       db,
       tableName,
       tables,
       namedRelations,
       tableOrder,
       tableFilters,
+      config,
     );
-    const selectSingleGenerated = generateSelectSingle(
+    const aggregateGenerated = createAggregateResolver(
       db,
       tableName,
-      tables,
+      schema[tableName] as PgTable,
+      tableFilters,
       namedRelations,
-      tableOrder,
+      config,
+    );
+    const groupByGenerated = createGroupByResolver(
+      db,
+      tableName,
+      schema[tableName] as PgTable,
       tableFilters,
+      namedRelations,
+      config,
     );
     const insertArrGenerated = generateInsertArray(
       db,
       tableName,
       schema[tableName] as PgTable,
       insertInput,
+      config,
     );
     const insertSingleGenerated = generateInsertSingle(
       db,
       tableName,
       schema[tableName] as PgTable,
       insertInput,
+      config,
     );
     const updateGenerated = generateUpdate(
       db,
@@ -674,44 +829,75 @@ export const generateSchemaData = <
       schema[tableName] as PgTable,
       updateInput,
       tableFilters,
+      namedRelations,
+      config,
     );
     const deleteGenerated = generateDelete(
       db,
       tableName,
       schema[tableName] as PgTable,
       tableFilters,
+      namedRelations,
+      config,
     );
 
-    queries[selectArrGenerated.name] = {
-      type: selectArrOutput,
-      args: selectArrGenerated.args,
-      resolve: selectArrGenerated.resolver,
-    };
-    queries[selectSingleGenerated.name] = {
-      type: selectSingleOutput,
-      args: selectSingleGenerated.args,
-      resolve: selectSingleGenerated.resolver,
-    };
-    mutations[insertArrGenerated.name] = {
-      type: arrTableItemOutput,
-      args: insertArrGenerated.args,
-      resolve: insertArrGenerated.resolver,
-    };
-    mutations[insertSingleGenerated.name] = {
-      type: singleTableItemOutput,
-      args: insertSingleGenerated.args,
-      resolve: insertSingleGenerated.resolver,
-    };
-    mutations[updateGenerated.name] = {
-      type: arrTableItemOutput,
-      args: updateGenerated.args,
-      resolve: updateGenerated.resolver,
-    };
-    mutations[deleteGenerated.name] = {
-      type: arrTableItemOutput,
-      args: deleteGenerated.args,
-      resolve: deleteGenerated.resolver,
-    };
+    const operations = getTableOperations(tableName, config);
+    if (operations.query) {
+      queries[selectArrGenerated.name] = {
+        type: selectArrOutput,
+        args: selectArrGenerated.args,
+        resolve: selectArrGenerated.resolver,
+      };
+    }
+    if (operations.querySingle) {
+      queries[selectSingleGenerated.name] = {
+        type: selectSingleOutput,
+        args: selectSingleGenerated.args,
+        resolve: selectSingleGenerated.resolver,
+      };
+    }
+    if (operations.aggregate) {
+      queries[aggregateGenerated.name] = {
+        type: aggregateOutput,
+        args: aggregateGenerated.args,
+        resolve: aggregateGenerated.resolver,
+      };
+    }
+    if (operations.groupBy) {
+      queries[groupByGenerated.name] = {
+        type: groupByOutput,
+        args: groupByGenerated.args,
+        resolve: groupByGenerated.resolver,
+      };
+    }
+    if (operations.insert) {
+      mutations[insertArrGenerated.name] = {
+        type: arrTableItemOutput,
+        args: insertArrGenerated.args,
+        resolve: insertArrGenerated.resolver,
+      };
+    }
+    if (operations.insertSingle) {
+      mutations[insertSingleGenerated.name] = {
+        type: singleTableItemOutput,
+        args: insertSingleGenerated.args,
+        resolve: insertSingleGenerated.resolver,
+      };
+    }
+    if (operations.update) {
+      mutations[updateGenerated.name] = {
+        type: arrTableItemOutput,
+        args: updateGenerated.args,
+        resolve: updateGenerated.resolver,
+      };
+    }
+    if (operations.delete) {
+      mutations[deleteGenerated.name] = {
+        type: arrTableItemOutput,
+        args: deleteGenerated.args,
+        resolve: deleteGenerated.resolver,
+      };
+    }
     [insertInput, updateInput, tableFilters, tableOrder].forEach(
       (e) => (inputs[e.name] = e),
     );
@@ -1,4 +1,5 @@
 import {
+  and,
   createTableRelationsHelpers,
   is,
   type Relation,
@@ -25,15 +26,23 @@ import { parseResolveInfo } from "graphql-parse-resolve-info";
 import type { ResolveTree } from "graphql-parse-resolve-info";
 
 import {
+  createAggregateResolver,
+  createConnectionResolver,
+  createGroupByResolver,
   extractFilters,
   extractOrderBy,
   extractRelationsParams,
+  extractSearch,
   extractSelectedColumnsFromTree,
   extractSelectedColumnsFromTreeSQLFormat,
+  filterTableEntries,
+  generateSearchArgs,
   generateTableTypes,
+  getTableOperations,
+  resolveRelationCounts,
   withGraphQLError,
 } from "./common.ts";
-import { capitalize, uncapitalize } from "../case-ops.ts";
+import { getNaming } from "../naming.ts";
 import {
   remapFromGraphQLArrayInput,
   remapFromGraphQLSingleInput,
@@ -41,11 +50,12 @@ import {
   remapToGraphQLSingleOutput,
 } from "../data-mappers.ts";
 
-import type { GeneratedEntities } from "../../types.ts";
+import type { BuildSchemaConfig, GeneratedEntities } from "../../types.ts";
 import type { RelationalQueryBuilder } from "drizzle-orm/sqlite-core/query-builders/query";
 import type {
   CreatedResolver,
   Filters,
+  RelationCountRequest,
   TableNamedRelations,
   TableSelectArgs,
 } from "./types.ts";
@@ -92,6 +102,7 @@ function getQueryBase(
  * @param orderArgs - The GraphQL input object type defining ordering arguments.
  * @param filterArgs - The GraphQL input object type defining filter arguments.
  * @param single - A boolean flag indicating whether to query a single record (true) or multiple records (false).
+ * @param config - The schema build configuration.
  * @returns A CreatedResolver object containing the resolver name, arguments, and resolver function.
  */
 const generateSelect = (
@@ -102,24 +113,27 @@ const generateSelect = (
   orderArgs: GraphQLInputObjectType,
   filterArgs: GraphQLInputObjectType,
   single: boolean,
+  config: BuildSchemaConfig,
 ): CreatedResolver => {
+  const naming = getNaming(config);
   const queryBase = getQueryBase(db, tableName);
-  const typeName = `${capitalize(tableName)}SelectItem`;
+  const typeName = naming.selectItem(tableName);
   const table = tables[tableName]!;
 
   const args: GraphQLFieldConfigArgumentMap = {
     offset: { type: GraphQLInt },
     orderBy: { type: orderArgs },
     where: { type: filterArgs },
+    ...generateSearchArgs(table, tableName, config),
     ...(!single && { limit: { type: GraphQLInt } }),
   };
 
   return {
-    name: single ? `${uncapitalize(tableName)}Single` : uncapitalize(tableName),
+    name: single ? naming.querySingle(tableName) : naming.query(tableName),
     args,
     resolver: withGraphQLError(
       async (source, args: Partial<TableSelectArgs>, context, info) => {
-        const { offset, limit, orderBy, where } = args;
+        const { offset, limit, orderBy, where, search } = args;
         const parsedInfo = parseResolveInfo(info, {
           deep: true,
         }) as ResolveTree;
@@ -127,15 +141,35 @@ const generateSelect = (
         // Extract the selected fields from the parsed resolve info.
         const selectedFields = parsedInfo.fieldsByTypeName[typeName]!;
         // Determine which columns are selected based on the GraphQL query.
-        const columns = extractSelectedColumnsFromTree(selectedFields, table);
+        const columns = extractSelectedColumnsFromTree(
+          selectedFields,
+          table,
+          tableName,
+          config,
+        );
+        // Collect the relation counts requested in the query.
+        const counts: RelationCountRequest[] = [];
+        // Build the full-text search if provided.
+        const searchClause = search
+          ? extractSearch(table, tableName, search, config)
+          : undefined;
         // Build the order by clause if provided.
-        const orderByClause = orderBy
-          ? extractOrderBy(table, orderBy)
+        const orderByClause = orderBy || searchClause?.relevance
+          ? extractOrderBy(
+            table,
+            tableName,
+            orderBy ?? {},
+            relationMap,
+            searchClause?.relevance,
+          )
           : undefined;
         // Build the where clause if provided.
-        const whereClause = where
-          ? extractFilters(table, tableName, where)
-          : undefined;
+        const whereClause = and(
+          where
+            ? extractFilters(table, tableName, where, config, relationMap)
+            : undefined,
+          searchClause?.where,
+        );
         // Extract relation parameters for nested queries if available.
         const withClause = relationMap[tableName]
           ? extractRelationsParams(
@@ -144,6 +178,9 @@ const generateSelect = (
             tableName,
             parsedInfo,
             typeName,
+            config,
+            columns,
+            counts,
           )
           : undefined;
 
@@ -166,17 +203,25 @@ const generateSelect = (
           });
 
         const result = await query;
+        await resolveRelationCounts(db, result, counts);
         // Remap the query result to the appropriate GraphQL output format.
         if (Array.isArray(result)) {
           return remapToGraphQLArrayOutput(
             result,
             tableName,
             table,
+            config,
             relationMap,
           );
         }
         return result
-          ? remapToGraphQLSingleOutput(result, tableName, table, relationMap)
+          ? remapToGraphQLSingleOutput(
+            result,
+            tableName,
+            table,
+            config,
+            relationMap,
+          )
           : undefined;
       },
     ),
@@ -197,6 +242,7 @@ const generateSelect = (
  * @param table - The SQLite table definition.
  * @param baseType - The GraphQL input object type representing the table insert input.
  * @param single - A boolean flag indicating whether the insert is for a single record (true) or multiple records (false).
+ * @param config - The schema build configuration.
  * @returns A CreatedResolver object containing the resolver name, arguments, and resolver function.
  */
 const generateInsert = (
@@ -205,11 +251,13 @@ const generateInsert = (
   table: SQLiteTable,
   baseType: GraphQLInputObjectType,
   single: boolean,
+  config: BuildSchemaConfig,
 ): CreatedResolver => {
+  const naming = getNaming(config);
   const queryName = single
-    ? `insertInto${capitalize(tableName)}Single`
-    : `insertInto${capitalize(tableName)}`;
-  const typeName = `${capitalize(tableName)}Item`;
+    ? naming.insertSingle(tableName)
+    : naming.insert(tableName);
+  const typeName = naming.item(tableName);
 
   const queryArgs: GraphQLFieldConfigArgumentMap = {
     values: {
@@ -226,8 +274,8 @@ const generateInsert = (
       async (source, args: { values: any }, context, info) => {
         // Remap input data from GraphQL to the database format.
         const input = single
-          ? remapFromGraphQLSingleInput(args.values, table)
-          : remapFromGraphQLArrayInput(args.values, table);
+          ? remapFromGraphQLSingleInput(args.values, table, config)
+          : remapFromGraphQLArrayInput(args.values, table, config);
         if (!single && !input.length) {
           throw new GraphQLError("No values were provided!");
         }
@@ -239,6 +287,8 @@ const generateInsert = (
         const columns = extractSelectedColumnsFromTreeSQLFormat<SQLiteColumn>(
           selectedFields,
           table,
+          tableName,
+          config,
         );
 
         const result = await db
@@ -249,9 +299,9 @@ const generateInsert = (
 
         return single
           ? result[0]
-            ? remapToGraphQLSingleOutput(result[0], tableName, table)
+            ? remapToGraphQLSingleOutput(result[0], tableName, table, config)
             : undefined
-          : remapToGraphQLArrayOutput(result, tableName, table);
+          : remapToGraphQLArrayOutput(result, tableName, table, config);
       },
     ),
   };
@@ -271,6 +321,8 @@ const generateInsert = (
  * @param filterArgs - The GraphQL input object type representing filter arguments.
  * @param inputType - The GraphQL input object type representing update input (only applicable for update operations).
  * @param operation - The type of operation: either "update" or "delete".
+ * @param relationMap - A mapping of table relations keyed by table name.
+ * @param config - The schema build configuration.
  * @returns A CreatedResolver object containing the resolver name, arguments, and resolver function.
  */
 const generateModify = (
@@ -280,11 +332,14 @@ const generateModify = (
   filterArgs: GraphQLInputObjectType,
   inputType: GraphQLInputObjectType | undefined, // only for update
   operation: "update" | "delete",
+  relationMap: Record<string, Record<string, TableNamedRelations>>,
+  config: BuildSchemaConfig,
 ): CreatedResolver => {
+  const naming = getNaming(config);
   const queryName = operation === "update"
-    ? `update${capitalize(tableName)}`
-    : `deleteFrom${capitalize(tableName)}`;
-  const typeName = `${capitalize(tableName)}Item`;
+    ? naming.update(tableName)
+    : naming.delete(tableName);
+  const typeName = naming.item(tableName);
 
   const queryArgs: GraphQLFieldConfigArgumentMap = operation === "update"
     ? {
@@ -311,12 +366,14 @@ const generateModify = (
         const columns = extractSelectedColumnsFromTreeSQLFormat<SQLiteColumn>(
           selectedFields,
           table,
+          tableName,
+          config,
         );
 
         let query;
         if (operation === "update") {
           // Remap the update input data from GraphQL format.
-          const input = remapFromGraphQLSingleInput(args.set!, table);
+          const input = remapFromGraphQLSingleInput(args.set!, table, config);
           if (!Object.keys(input).length) {
             throw new GraphQLError(
               "Unable to update with no values specified!",
@@ -328,12 +385,18 @@ const generateModify = (
         }
 
         if (args.where) {
-          const filters = extractFilters(table, tableName, args.where);
+          const filters = extractFilters(
+            table,
+            tableName,
+            args.where,
+            config,
+            relationMap,
+          );
           query = query.where(filters) as any;
         }
         query = query.returning(columns) as any;
         const result = await query;
-        return remapToGraphQLArrayOutput(result, tableName, table);
+        return remapToGraphQLArrayOutput(result, tableName, table, config);
       },
     ),
   };
@@ -354,7 +417,7 @@ const generateModify = (
  * @template TSchema - The Drizzle-ORM schema object, mapping table names to table definitions.
  * @param db - The SQLite database instance.
  * @param schema - The Drizzle-ORM schema object.
- * @param relationsDepthLimit - Optional limit for the depth of generated relation fields in queries.
+ * @param config - The schema build configuration (relation depth limit, exposed tables, etc.).
  * @returns An object containing the generated queries, mutations, inputs, and output types.
  * @throws Error if no tables are detected in the provided schema.
  */
@@ -364,24 +427,31 @@ export const generateSchemaData = <
 >(
   db: TDrizzleInstance,
   schema: TSchema,
-  relationsDepthLimit?: number,
+  config: BuildSchemaConfig = {},
 ): GeneratedEntities<TDrizzleInstance, TSchema> => {
   const schemaEntries = Object.entries(schema);
 
   // Filter out table entries.
-  const tableEntries = schemaEntries.filter(([_key, value]) =>
+  const schemaTableEntries = schemaEntries.filter(([_key, value]) =>
     is(value, SQLiteTable)
   ) as [string, SQLiteTable][];
-  if (!tableEntries.length) {
+  if (!schemaTableEntries.length) {
     throw new Error(
       "Drizzle-GraphQL Error: No tables detected in Drizzle-ORM's database instance. Did you forget to pass schema to the drizzle constructor?",
     );
   }
+  // Keep only the tables exposed by the config.
+  const tableEntries = filterTableEntries(schemaTableEntries, config);
   const tables = Object.fromEntries(tableEntries);
 
-  // Process relations from the schema.
+  // Process relations from the schema, skipping those of hidden tables.
   const rawRelations = schemaEntries
-    .filter(([_key, value]) => is(value, Relations))
+    .filter(([_key, value]) =>
+      is(value, Relations) &&
+      tableEntries.some(([_tableName, tableValue]) =>
+        tableValue === (value as Relations).table
+      )
+    )
     .map<[string, Relations]>(([_key, value]) => {
       const tableName = tableEntries.find(
         ([_tableName, tableValue]) => tableValue === (value as Relations).table,
@@ -394,18 +464,21 @@ export const generateSchemaData = <
     ]);
 
   const namedRelations = Object.fromEntries(
-    rawRelations.map(([relName, config]) => {
+    rawRelations.map(([relName, relConfig]) => {
       const namedConfig: Record<string, TableNamedRelations> = Object
         .fromEntries(
-          Object.entries(config).map(([innerRelName, innerRelValue]) => {
-            const targetTableName = tableEntries.find(
-              ([_tableName, tableValue]) =>
-                tableValue === innerRelValue.referencedTable,
-            )![0];
-            return [
+          Object.entries(relConfig).flatMap<[string, TableNamedRelations]>((
+            [innerRelName, innerRelValue],
+          ) => {
+            // Relations pointing at tables that are not exposed are dropped.
+            const targetTableName = tableEntries.find((
+              [_tableName, tableValue],
+            ) => tableValue === innerRelValue.referencedTable)?.[0];
+            if (!targetTableName) return [];
+            return [[
               innerRelName,
               { relation: innerRelValue, targetTableName },
-            ];
+            ]];
           }),
         );
       return [relName, namedConfig];
@@ -422,7 +495,7 @@ export const generateSchemaData = <
         tables,
         namedRelations,
         true,
-        relationsDepthLimit,
+        config,
       ),
     ]),
   );
@@ -436,27 +509,57 @@ export const generateSchemaData = <
     const {
       selectSingleOutput,
       selectArrOutput,
+      aggregateOutput,
+      groupByOutput,
       singleTableItemOutput,
       arrTableItemOutput,
     } = tableTypes.outputs;
 
-    const selectArrResolver = generateSelect(
+    const selectArrResolver = config.connections
+      ? createConnectionResolver(
+        db,
+        tableName,
+        tables,
+        namedRelations,
+        tableOrder,
+        tableFilters,
+        config,
+      )
+      : generateSelect(
+        db,
+        tableName,
+        tables,
+        namedRelations,
+        tableOrder,
+        tableFilters,
+        false,
+        config,
+      );
+    const selectSingleResolver = generateSelect(
       db,
       tableName,
       tables,
       namedRelations,
       tableOrder,
       tableFilters,
-      false,
+      true,
+      config,
     );
-    const selectSingleResolver = generateSelect(
+    const aggregateResolver = createAggregateResolver(
       db,
       tableName,
-      tables,
+      schema[tableName] as SQLiteTable,
+      tableFilters,
       namedRelations,
-      tableOrder,
+      config,
+    );
+    const groupByResolver = createGroupByResolver(
+      db,
+      tableName,
+      schema[tableName] as SQLiteTable,
       tableFilters,
-      true,
+      namedRelations,
+      config,
     );
     const insertArrResolver = generateInsert(
       db,
@@ -464,6 +567,7 @@ export const generateSchemaData = <
       schema[tableName] as SQLiteTable,
       insertInput,
       false,
+      config,
     );
     const insertSingleResolver = generateInsert(
       db,
@@ -471,6 +575,7 @@ export const generateSchemaData = <
       schema[tableName] as SQLiteTable,
       insertInput,
       true,
+      config,
     );
     const updateResolver = generateModify(
       db,
@@ -479,6 +584,8 @@ export const generateSchemaData = <
       tableFilters,
       updateInput,
       "update",
+      namedRelations,
+      config,
     );
     const deleteResolver = generateModify(
       db,
@@ -487,38 +594,67 @@ export const generateSchemaData = <
       tableFilters,
       undefined,
       "delete",
+      namedRelations,
+      config,
     );
 
-    queries[selectArrResolver.name] = {
-      type: selectArrOutput,
-      args: selectArrResolver.args,
-      resolve: selectArrResolver.resolver,
-    };
-    queries[selectSingleResolver.name] = {
-      type: selectSingleOutput,
-      args: selectSingleResolver.args,
-      resolve: selectSingleResolver.resolver,
-    };
-    mutations[insertArrResolver.name] = {
-      type: arrTableItemOutput,
-      args: insertArrResolver.args,
-      resolve: insertArrResolver.resolver,
-    };
-    mutations[insertSingleResolver.name] = {
-      type: singleTableItemOutput,
-      args: insertSingleResolver.args,
-      resolve: insertSingleResolver.resolver,
-    };
-    mutations[updateResolver.name] = {
-      type: arrTableItemOutput,
-      args: updateResolver.args,
-      resolve: updateResolver.resolver,
-    };
-    mutations[deleteResolver.name] = {
-      type: arrTableItemOutput,
-      args: deleteResolver.args,
-      resolve: deleteResolver.resolver,
-    };
+    const operations = getTableOperations(tableName, config);
+    if (operations.query) {
+      queries[selectArrResolver.name] = {
+        type: selectArrOutput,
+        args: selectArrResolver.args,
+        resolve: selectArrResolver.resolver,
+      };
+    }
+    if (operations.querySingle) {
+      queries[selectSingleResolver.name] = {
+        type: selectSingleOutput,
+        args: selectSingleResolver.args,
+        resolve: selectSingleResolver.resolver,
+      };
+    }
+    if (operations.aggregate) {
+      queries[aggregateResolver.name] = {
+        type: aggregateOutput,
+        args: aggregateResolver.args,
+        resolve: aggregateResolver.resolver,
+      };
+    }
+    if (operations.groupBy) {
+      queries[groupByResolver.name] = {
+        type: groupByOutput,
+        args: groupByResolver.args,
+        resolve: groupByResolver.resolver,
+      };
+    }
+    if (operations.insert) {
+      mutations[insertArrResolver.name] = {
+        type: arrTableItemOutput,
+        args: insertArrResolver.args,
+        resolve: insertArrResolver.resolver,
+      };
+    }
+    if (operations.insertSingle) {
+      mutations[insertSingleResolver.name] = {
+        type: singleTableItemOutput,
+        args: insertSingleResolver.args,
+        resolve: insertSingleResolver.resolver,
+      };
+    }
+    if (operations.update) {
+      mutations[updateResolver.name] = {
+        type: arrTableItemOutput,
+        args: updateResolver.args,
+        resolve: updateResolver.resolver,
+      };
+    }
+    if (operations.delete) {
+      mutations[deleteResolver.name] = {
+        type: arrTableItemOutput,
+        args: deleteResolver.args,
+        resolve: deleteResolver.resolver,
+      };
+    }
 
     // Collect common inputs and outputs.
     [insertInput, updateInput, tableFilters, tableOrder].forEach((input) => {
@@ -12,6 +12,7 @@ import type {
   ConvertedColumn,
   ConvertedRelationColumnWithArgs,
 } from "../type-converter/index.ts";
+import type { BuildSchemaConfig } from "../../types.ts";
 
 /**
  * Represents a relation for a table with an associated target table name.
@@ -28,12 +29,126 @@ export type TableNamedRelations = {
  * @property limit - The maximum number of records to return.
  * @property where - Filtering conditions to apply.
  * @property orderBy - Ordering rules for the returned records.
+ * @property search - The full-text search of the records.
  */
 export type TableSelectArgs = {
   offset: number;
   limit: number;
   where: Filters<Table>;
   orderBy: OrderByArgs<Table>;
+  search: SearchArgs;
+};
+
+/**
+ * Defines the arguments for a table select operation returning a Relay connection.
+ *
+ * @property first - The maximum number of records to return after the `after` cursor.
+ * @property after - The cursor after which records are returned.
+ * @property last - The maximum number of records to return before the `before` cursor.
+ * @property before - The cursor before which records are returned.
+ * @property where - Filtering conditions to apply.
+ * @property orderBy - Ordering rules for the returned records.
+ * @property search - The full-text search of the records.
+ */
+export type TableConnectionArgs = {
+  first: number;
+  after: string;
+  last: number;
+  before: string;
+  where: Filters<Table>;
+  orderBy: OrderByArgs<Table>;
+  search: SearchArgs;
+};
+
+/**
+ * Defines the arguments for a group-by operation.
+ *
+ * @property by - The names of the columns to group the records by.
+ * @property where - Filtering conditions to apply to the records.
+ * @property having - Filtering conditions to apply to the groups.
+ */
+export type TableGroupByArgs = {
+  by: string[];
+  where: Filters<Table>;
+  having: HavingFilters;
+};
+
+/**
+ * Defines the operators comparing an aggregate, or the length of an array, with values.
+ */
+export type AggregateFilterOperators = Partial<
+  Record<"eq" | "ne" | "gt" | "gte" | "lt" | "lte", number | null>
+>;
+
+/**
+ * Defines the filters applied to the groups of a group-by operation.
+ *
+ * `count` compares the number of records of each group, the other aggregates hold operators
+ * keyed by column name. Nested filters are combined with `AND`, `OR` and `NOT`, as in table
+ * filters.
+ */
+export type HavingFilters = {
+  count?: AggregateFilterOperators;
+  sum?: Record<string, AggregateFilterOperators>;
+  avg?: Record<string, AggregateFilterOperators>;
+  min?: Record<string, AggregateFilterOperators>;
+  max?: Record<string, AggregateFilterOperators>;
+  AND?: HavingFilters[] | null;
+  OR?: HavingFilters[] | null;
+  NOT?: HavingFilters | null;
+};
+
+/**
+ * The columns a connection is ordered by, with their directions and placements of nulls, in
+ * order of priority.
+ *
+ * Cursors hold the values of these columns for a record.
+ */
+export type CursorOrder = [
+  columnName: string,
+  direction: "asc" | "desc",
+  nulls: "first" | "last",
+][];
+
+/**
+ * A count of the records of a many-relation requested in a select operation.
+ *
+ * @property path - The relation names leading from the queried records to the parents of the relation.
+ * @property countKey - The key under which the count is stored on each parent record, derived from the alias of the count field.
+ * @property fields - The names of the parent columns referenced by the related records.
+ * @property references - The columns of the related table referencing the parent columns.
+ * @property targetTable - The related table.
+ * @property where - The SQL representation of the filter conditions applied to the related records.
+ */
+export type RelationCountRequest = {
+  path: string[];
+  countKey: string;
+  fields: string[];
+  references: Column[];
+  targetTable: Table;
+  where?: SQL;
+};
+
+/**
+ * A select statement of counts, aggregates or grouped rows, run on any supported database.
+ *
+ * @property fields - The selected expressions, keyed by name, possibly nested in objects.
+ * @property table - The table to select from.
+ * @property where - The SQL condition the records must match.
+ * @property groupBy - The columns the records are grouped by.
+ * @property having - The SQL condition the groups must match.
+ * @property orderBy - The SQL expressions the rows are ordered by.
+ */
+export type SelectRowsQuery = {
+  fields: Record<
+    string,
+    SQL | SQL.Aliased | Column | Record<string, SQL | SQL.Aliased | Column>
+  >;
+  table: Table;
+  where?: SQL;
+  groupBy?: Column[];
+  having?: SQL;
+  orderBy?: SQL[];
 };
 
 /**
@@ -145,6 +260,54 @@ export type ColTypeIsNullOrUndefinedWithDefault<
   : TColType | null | undefined
   : TColType | null | undefined;
 
+/**
+ * Determines the GraphQL data type of a JSON column according to the `scalars.json` config option:
+ * the `$type<>` of the column in `"typed"` mode, any JSON value in `"scalar"` mode and a JSON
+ * string otherwise.
+ *
+ * @template TColumn - The JSON column being mapped.
+ * @template TConfig - The schema build configuration.
+ */
+export type GetJsonColumnGqlDataType<
+  TColumn extends Column,
+  TConfig extends BuildSchemaConfig,
+> = TConfig["scalars"] extends { json?: infer TMode }
+  ? [TMode] extends ["typed"] ? TColumn["_"]["data"]
+  : [TMode] extends ["scalar"] ? unknown
+  : string
+  : string;
+
+/**
+ * Determines the GraphQL data type of a binary column according to the `scalars.bytes` config
+ * option: an encoded string with the `Bytes` scalar and an array of bytes otherwise.
+ *
+ * @template TConfig - The schema build configuration.
+ */
+export type GetBufferColumnGqlDataType<TConfig extends BuildSchemaConfig> =
+  TConfig["scalars"] extends { bytes?: infer TMode }
+    ? [TMode] extends ["base64"] | ["hex"] ? string : number[]
+    : number[];
+
+/**
+ * Determines the value type of the JSON filter operators according to the `scalars.json` config
+ * option.
+ *
+ * @template TConfig - The schema build configuration.
+ */
+export type GetJsonFilterValueType<TConfig extends BuildSchemaConfig> =
+  TConfig["scalars"] extends { json?: infer TMode }
+    ? [TMode] extends ["typed"] | ["scalar"] ? unknown : string
+    : string;
+
+/**
+ * A point accepted by the `GeoJSONPoint` scalar: a GeoJSON Point geometry, an `{ x, y }` object
+ * or an `[x, y]` tuple.
+ */
+export type GeoJSONPointInput =
+  | { type: "Point"; coordinates: [number, number] }
+  | { x: number; y: number }
+  | [number, number];
+
 /**
  * Determines the GraphQL data type for a given column when selecting data.
  *
@@ -152,40 +315,45 @@ export type ColTypeIsNullOrUndefinedWithDefault<
  * the column's nullability.
  *
  * @template TColumn - The column being mapped.
+ * @template TConfig - The schema build configuration.
  */
-export type GetColumnGqlDataType<TColumn extends Column> =
-  TColumn["dataType"] extends "boolean" ? ColTypeIsNull<TColumn, boolean>
-    : TColumn["dataType"] extends "json"
-      ? TColumn["_"]["columnType"] extends "PgGeometryObject"
-        ? ColTypeIsNull<TColumn, {
-          x: number;
-          y: number;
-        }>
-      : ColTypeIsNull<TColumn, string>
-    : TColumn["dataType"] extends "date" | "string" | "bigint"
-      ? TColumn["enumValues"] extends [string, ...string[]]
-        ? ColTypeIsNull<TColumn, TColumn["enumValues"][number]>
-      : ColTypeIsNull<TColumn, string>
-    : TColumn["dataType"] extends "number" ? ColTypeIsNull<TColumn, number>
-    : TColumn["dataType"] extends "buffer" ? ColTypeIsNull<TColumn, number[]>
-    : TColumn["dataType"] extends "array"
-      ? TColumn["columnType"] extends "PgVector"
-        ? ColTypeIsNull<TColumn, number[]>
-      : TColumn["columnType"] extends "PgGeometry"
-        ? ColTypeIsNullOrUndefinedWithDefault<TColumn, [number, number]>
-      : ColTypeIsNull<
-        TColumn,
-        Array<
-          GetColumnGqlDataType<
-            TColumn extends { baseColumn: Column } ? TColumn["baseColumn"]
-              : never
-          > extends infer InnerColType
-            ? InnerColType extends null | undefined ? never
-            : InnerColType
-            : never
-        >
+export type GetColumnGqlDataType<
+  TColumn extends Column,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
+> = TColumn["dataType"] extends "boolean" ? ColTypeIsNull<TColumn, boolean>
+  : TColumn["dataType"] extends "json"
+    ? TColumn["_"]["columnType"] extends "PgGeometryObject"
+      ? ColTypeIsNull<TColumn, {
+        x: number;
+        y: number;
+      }>
+    : ColTypeIsNull<TColumn, GetJsonColumnGqlDataType<TColumn, TConfig>>
+  : TColumn["dataType"] extends "date" | "string" | "bigint"
+    ? TColumn["enumValues"] extends [string, ...string[]]
+      ? ColTypeIsNull<TColumn, TColumn["enumValues"][number]>
+    : ColTypeIsNull<TColumn, string>
+  : TColumn["dataType"] extends "number" ? ColTypeIsNull<TColumn, number>
+  : TColumn["dataType"] extends "buffer"
+    ? ColTypeIsNull<TColumn, GetBufferColumnGqlDataType<TConfig>>
+  : TColumn["dataType"] extends "array"
+    ? TColumn["columnType"] extends "PgVector"
+      ? ColTypeIsNull<TColumn, number[]>
+    : TColumn["columnType"] extends "PgGeometry"
+      ? ColTypeIsNullOrUndefinedWithDefault<TColumn, [number, number]>
+    : ColTypeIsNull<
+      TColumn,
+      Array<
+        GetColumnGqlDataType<
+          TColumn extends { baseColumn: Column } ? TColumn["baseColumn"]
+            : never,
+          TConfig
+        > extends infer InnerColType
+          ? InnerColType extends null | undefined ? never
+          : InnerColType
+          : never
       >
-    : never;
+    >
+  : never;
 
 /**
  * Determines the GraphQL data type for a given column when inserting data.
@@ -194,46 +362,52 @@ export type GetColumnGqlDataType<TColumn extends Column> =
  * nullability and default values for insert operations.
  *
  * @template TColumn - The column being mapped.
+ * @template TConfig - The schema build configuration.
  */
-export type GetColumnGqlInsertDataType<TColumn extends Column> =
-  TColumn["dataType"] extends "boolean"
-    ? ColTypeIsNullOrUndefinedWithDefault<TColumn, boolean>
-    : TColumn["dataType"] extends "json"
-      ? TColumn["_"]["columnType"] extends "PgGeometryObject"
-        ? ColTypeIsNullOrUndefinedWithDefault<TColumn, {
-          x: number;
-          y: number;
-        }>
-      : ColTypeIsNullOrUndefinedWithDefault<TColumn, string>
-    : TColumn["dataType"] extends "date" | "string" | "bigint"
-      ? TColumn["enumValues"] extends [string, ...string[]]
-        ? ColTypeIsNullOrUndefinedWithDefault<
-          TColumn,
-          TColumn["enumValues"][number]
-        >
-      : ColTypeIsNullOrUndefinedWithDefault<TColumn, string>
-    : TColumn["dataType"] extends "number"
-      ? ColTypeIsNullOrUndefinedWithDefault<TColumn, number>
-    : TColumn["dataType"] extends "buffer"
-      ? ColTypeIsNullOrUndefinedWithDefault<TColumn, number[]>
-    : TColumn["dataType"] extends "array"
-      ? TColumn["columnType"] extends "PgVector"
-        ? ColTypeIsNullOrUndefinedWithDefault<TColumn, number[]>
-      : TColumn["columnType"] extends "PgGeometry"
-        ? ColTypeIsNullOrUndefinedWithDefault<TColumn, [number, number]>
-      : ColTypeIsNullOrUndefinedWithDefault<
+export type GetColumnGqlInsertDataType<
+  TColumn extends Column,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
+> = TColumn["dataType"] extends "boolean"
+  ? ColTypeIsNullOrUndefinedWithDefault<TColumn, boolean>
+  : TColumn["dataType"] extends "json"
+    ? TColumn["_"]["columnType"] extends "PgGeometryObject"
+      ? ColTypeIsNullOrUndefinedWithDefault<TColumn, GeoJSONPointInput>
+    : ColTypeIsNullOrUndefinedWithDefault<
+      TColumn,
+      GetJsonColumnGqlDataType<TColumn, TConfig>
+    >
+  : TColumn["dataType"] extends "date" | "string" | "bigint"
+    ? TColumn["enumValues"] extends [string, ...string[]]
+      ? ColTypeIsNullOrUndefinedWithDefault<
         TColumn,
-        Array<
-          GetColumnGqlDataType<
-            TColumn extends { baseColumn: Column } ? TColumn["baseColumn"]
-              : never
-          > extends infer InnerColType
-            ? InnerColType extends null | undefined ? never
-            : InnerColType
-            : never
-        >
+        TColumn["enumValues"][number]
+      >
+    : ColTypeIsNullOrUndefinedWithDefault<TColumn, string>
+  : TColumn["dataType"] extends "number"
+    ? ColTypeIsNullOrUndefinedWithDefault<TColumn, number>
+  : TColumn["dataType"] extends "buffer" ? ColTypeIsNullOrUndefinedWithDefault<
+      TColumn,
+      GetBufferColumnGqlDataType<TConfig>
+    >
+  : TColumn["dataType"] extends "array"
+    ? TColumn["columnType"] extends "PgVector"
+      ? ColTypeIsNullOrUndefinedWithDefault<TColumn, number[]>
+    : TColumn["columnType"] extends "PgGeometry"
+      ? ColTypeIsNullOrUndefinedWithDefault<TColumn, GeoJSONPointInput>
+    : ColTypeIsNullOrUndefinedWithDefault<
+      TColumn,
+      Array<
+        GetColumnGqlDataType<
+          TColumn extends { baseColumn: Column } ? TColumn["baseColumn"]
+            : never,
+          TConfig
+        > extends infer InnerColType
+          ? InnerColType extends null | undefined ? never
+          : InnerColType
+          : never
       >
-    : never;
+    >
+  : never;
 
 /**
  * Determines the GraphQL data type for a given column when updating data.
@@ -241,63 +415,70 @@ export type GetColumnGqlInsertDataType<TColumn extends Column> =
  * The result is a union type that allows for null or undefined values to support partial updates.
  *
  * @template TColumn - The column being mapped.
+ * @template TConfig - The schema build configuration.
  */
-export type GetColumnGqlUpdateDataType<TColumn extends Column> =
-  TColumn["dataType"] extends "boolean" ? boolean | null | undefined
-    : TColumn["dataType"] extends "json"
-      ? TColumn["_"]["columnType"] extends "PgGeometryObject" ?
-          | {
-            x: number;
-            y: number;
-          }
-          | null
-          | undefined
-      : string | null | undefined
-    : TColumn["dataType"] extends "date" | "string" | "bigint"
-      ? TColumn["enumValues"] extends [string, ...string[]]
-        ? TColumn["enumValues"][number] | null | undefined
-      : string | null | undefined
-    : TColumn["dataType"] extends "number" ? number | null | undefined
-    : TColumn["dataType"] extends "buffer" ? number[] | null | undefined
-    : TColumn["dataType"] extends "array"
-      ? TColumn["columnType"] extends "PgVector" ? number[] | null | undefined
-      : TColumn["columnType"] extends "PgGeometry"
-        ? [number, number] | null | undefined
-      :
-        | Array<
-          GetColumnGqlDataType<
-            TColumn extends { baseColumn: Column } ? TColumn["baseColumn"]
-              : never
-          > extends infer InnerColType
-            ? InnerColType extends null | undefined ? never
-            : InnerColType
-            : never
-        >
-        | null
-        | undefined
-    : never;
+export type GetColumnGqlUpdateDataType<
+  TColumn extends Column,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
+> = TColumn["dataType"] extends "boolean" ? boolean | null | undefined
+  : TColumn["dataType"] extends "json"
+    ? TColumn["_"]["columnType"] extends "PgGeometryObject"
+      ? GeoJSONPointInput | null | undefined
+    : GetJsonColumnGqlDataType<TColumn, TConfig> | null | undefined
+  : TColumn["dataType"] extends "date" | "string" | "bigint"
+    ? TColumn["enumValues"] extends [string, ...string[]]
+      ? TColumn["enumValues"][number] | null | undefined
+    : string | null | undefined
+  : TColumn["dataType"] extends "number" ? number | null | undefined
+  : TColumn["dataType"] extends "buffer"
+    ? GetBufferColumnGqlDataType<TConfig> | null | undefined
+  : TColumn["dataType"] extends "array"
+    ? TColumn["columnType"] extends "PgVector" ? number[] | null | undefined
+    : TColumn["columnType"] extends "PgGeometry"
+      ? GeoJSONPointInput | null | undefined
+    :
+      | Array<
+        GetColumnGqlDataType<
+          TColumn extends { baseColumn: Column } ? TColumn["baseColumn"]
+            : never,
+          TConfig
+        > extends infer InnerColType
+          ? InnerColType extends null | undefined ? never
+          : InnerColType
+          : never
+      >
+      | null
+      | undefined
+  : never;
 
 /**
  * Maps each column of a table to its corresponding GraphQL data type for select queries.
  *
  * @template TTable - The table whose columns are being mapped.
+ * @template TConfig - The schema build configuration.
  * @template TColumns - An optional override for the table's columns.
  */
 export type GetRemappedTableDataType<
   TTable extends Table,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
   TColumns extends TTable["_"]["columns"] = TTable["_"]["columns"],
 > = {
-  [K in keyof TColumns]: GetColumnGqlDataType<TColumns[K]>;
+  [K in keyof TColumns]: GetColumnGqlDataType<TColumns[K], TConfig>;
 };
 
 /**
  * Maps each column of a table to its corresponding GraphQL data type for insert operations.
  *
  * @template TTable - The table whose columns are being mapped.
+ * @template TConfig - The schema build configuration.
  */
-export type GetRemappedTableInsertDataType<TTable extends Table> = {
+export type GetRemappedTableInsertDataType<
+  TTable extends Table,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
+> = {
   [K in keyof TTable["_"]["columns"]]: GetColumnGqlInsertDataType<
-    TTable["_"]["columns"][K]
+    TTable["_"]["columns"][K],
+    TConfig
   >;
 };
 
@@ -305,44 +486,159 @@ export type GetRemappedTableInsertDataType<TTable extends Table> = {
  * Maps each column of a table to its corresponding GraphQL data type for update operations.
  *
  * @template TTable - The table whose columns are being mapped.
+ * @template TConfig - The schema build configuration.
  */
-export type GetRemappedTableUpdateDataType<TTable extends Table> = {
+export type GetRemappedTableUpdateDataType<
+  TTable extends Table,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
+> = {
   [K in keyof TTable["_"]["columns"]]: GetColumnGqlUpdateDataType<
-    TTable["_"]["columns"][K]
+    TTable["_"]["columns"][K],
+    TConfig
   >;
 };
 
 /**
  * Defines the core set of filter operators for a given column.
  *
- * Supported operators include equality, inequality, comparison operators, pattern matching,
- * array inclusion, and null checks.
+ * Supported operators include equality, inequality, comparison operators, array inclusion,
+ * and null checks, along with the string operators of text columns.
  *
  * @template TColumn - The column for which filter operators are defined.
  * @template TColType - The GraphQL data type for the column.
+ * @template TJsonValue - The type of the JSON values of the JSON operators.
  */
 export type FilterColumnOperatorsCore<
   TColumn extends Column,
   TColType = GetColumnGqlDataType<TColumn>,
-> = Partial<{
+  TJsonValue = string,
+> = Partial<
+  TColumn["_"]["columnType"] extends "PgArray" ? FilterArrayOperators<TColType>
+    : TColumn["_"]["columnType"] extends "PgVector"
+      ? FilterVectorOperators<TColType>
+    :
+      & FilterScalarOperators<TColType, TColumn["_"]["dataType"]>
+      & (TColumn["_"]["columnType"] extends
+        "PgJsonb" | "MySqlJson" | "SQLiteTextJson"
+        ? FilterJsonOperators<TJsonValue>
+        : unknown)
+>;
+
+/**
+ * Defines the filter operators of scalar columns.
+ *
+ * @template TColType - The GraphQL data type for the column.
+ * @template TDataType - The data type of the column, adding the string operators to text columns.
+ */
+export type FilterScalarOperators<TColType, TDataType> =
+  & {
+    eq: TColType;
+    ne: TColType;
+    lt: TColType;
+    lte: TColType;
+    gt: TColType;
+    gte: TColType;
+    inArray: Array<TColType>;
+    notInArray: Array<TColType>;
+    isNull: boolean;
+    isNotNull: boolean;
+  }
+  & (TDataType extends "string" ? FilterStringOperators : unknown);
+
+/**
+ * Defines the filter operators of PostgreSQL array columns.
+ *
+ * @template TColType - The GraphQL data type for the column.
+ */
+export type FilterArrayOperators<TColType> = {
+  eq: TColType;
+  ne: TColType;
+  arrayContains: TColType;
+  arrayContained: TColType;
+  arrayOverlaps: TColType;
+  length: AggregateFilterOperators;
+  isNull: boolean;
+  isNotNull: boolean;
+};
+
+/**
+ * The metric of the distance between vectors: Euclidean, taxicab, cosine, or the negative
+ * inner product.
+ */
+export type VectorDistanceMetric = "l2" | "l1" | "cosine" | "innerProduct";
+
+/**
+ * Defines the operators comparing the distance of vectors to a vector.
+ *
+ * @property to - The vector the distance is measured to.
+ * @property metric - The metric of the distance, `l2` if omitted.
+ */
+export type VectorDistanceFilterOperators = AggregateFilterOperators & {
+  to: number[];
+  metric?: VectorDistanceMetric | null;
+};
+
+/**
+ * Defines the filter operators of pgvector `vector` columns.
+ *
+ * @template TColType - The GraphQL data type for the column.
+ */
+export type FilterVectorOperators<TColType> = {
   eq: TColType;
   ne: TColType;
-  lt: TColType;
-  lte: TColType;
-  gt: TColType;
-  gte: TColType;
+  distance: VectorDistanceFilterOperators;
+  isNull: boolean;
+  isNotNull: boolean;
+};
+
+/**
+ * Defines the filter operators of JSON columns: PostgreSQL `jsonb`, MySQL `json` and SQLite
+ * JSON text columns.
+ *
+ * JSON values are passed as JSON strings unless the `JSON` scalar is enabled by the
+ * `scalars.json` config option. Paths hold keys of objects and indexes of arrays.
+ *
+ * @template TJsonValue - The type of the JSON values.
+ */
+export type FilterJsonOperators<TJsonValue = string> = {
+  pathEquals: { path: string[]; value: TJsonValue };
+  hasKey: string;
+  jsonContains: TJsonValue;
+};
+
+/**
+ * Defines the filter operators of text columns.
+ *
+ * `ilike` and `notIlike` are only available on PostgreSQL. The values of `startsWith`,
+ * `endsWith`, `contains` and `containsInsensitive` are matched literally.
+ */
+export type FilterStringOperators = {
   like: string;
   notLike: string;
   ilike: string;
   notIlike: string;
-  inArray: Array<TColType>;
-  notInArray: Array<TColType>;
-  isNull: boolean;
-  isNotNull: boolean;
-}>;
+  startsWith: string;
+  endsWith: string;
+  contains: string;
+  containsInsensitive: string;
+};
+
+/**
+ * Defines the logical operators nesting filters.
+ *
+ * @template TFilters - The type of the nested filters.
+ * @property AND - Filters that must all match.
+ * @property OR - Filters of which at least one must match.
+ * @property NOT - Filters that must not match.
+ */
+export type LogicalFilters<TFilters> = {
+  AND?: TFilters[] | null;
+  OR?: TFilters[] | null;
+  NOT?: TFilters | null;
+};
 
 /**
- * Extends the core filter operators for a column with logical OR composition.
+ * Extends the core filter operators for a column with nested logical operators.
  *
  * @template TColumn - The column for which filter operators are defined.
  * @template TOperators - The base filter operators for the column.
@@ -351,9 +647,13 @@ export type FilterColumnOperators<
   TColumn extends Column,
   TOperators extends FilterColumnOperatorsCore<TColumn> =
     FilterColumnOperatorsCore<TColumn>,
-> = TOperators & {
-  OR?: TOperators[];
-};
+> =
+  & TOperators
+  & {
+    AND?: FilterColumnOperators<TColumn, TOperators>[] | null;
+    OR?: FilterColumnOperators<TColumn, TOperators>[] | null;
+    NOT?: FilterColumnOperators<TColumn, TOperators> | null;
+  };
 
 /**
  * Defines the core filters for a table.
@@ -361,11 +661,20 @@ export type FilterColumnOperators<
  * Each column in the table can have an associated set of filter operators.
  *
  * @template TTable - The table for which filters are defined.
+ * @template TConfig - The schema build configuration.
  */
-export type FiltersCore<TTable extends Table> = Partial<
+export type FiltersCore<
+  TTable extends Table,
+  TConfig extends BuildSchemaConfig = BuildSchemaConfig,
+> = Partial<
   {
-    [Column in keyof TTable["_"]["columns"]]: FilterColumnOperatorsCore<
-      TTable["_"]["columns"][Column]
+    [Column in keyof TTable["_"]["columns"]]: FilterColumnOperators<
+      TTable["_"]["columns"][Column],
+      FilterColumnOperatorsCore<
+        TTable["_"]["columns"][Column],
+        GetColumnGqlDataType<TTable["_"]["columns"][Column], TConfig>,
+        GetJsonFilterValueType<TConfig>
+      >
     >;
   }
 >;
@@ -373,7 +682,7 @@ export type FiltersCore<TTable extends Table> = Partial<
 /**
  * Represents the complete filter object for a table.
  *
- * Extends the core filters with an optional OR clause for combining filter conditions.
+ * Extends the core filters with nested logical operators for combining filter conditions.
  *
  * @template TTable - The table for which filters are defined.
  * @template TFilterType - An optional override for the filter type.
@@ -381,21 +690,95 @@ export type FiltersCore<TTable extends Table> = Partial<
 export type Filters<TTable extends Table, TFilterType = FiltersCore<TTable>> =
   & TFilterType
   & {
-    OR?: TFilterType[];
+    AND?: Filters<TTable, TFilterType>[] | null;
+    OR?: Filters<TTable, TFilterType>[] | null;
+    NOT?: Filters<TTable, TFilterType> | null;
   };
 
+/**
+ * Defines the filters of a many-relation, applied to the related records of each record.
+ *
+ * @property some - Filters that at least one related record must match.
+ * @property every - Filters that every related record must match.
+ * @property none - Filters that no related record must match.
+ */
+export type RelationFilters = {
+  some?: Filters<Table> | null;
+  every?: Filters<Table> | null;
+  none?: Filters<Table> | null;
+};
+
+/**
+ * Defines the order of a single sort expression.
+ *
+ * @property direction - The sort direction.
+ * @property priority - The priority of the expression when sorting, highest first.
+ * @property nulls - Whether nulls sort first or last, last when ascending and first when descending if omitted.
+ */
+export type ColumnOrder = {
+  direction: "asc" | "desc";
+  priority: number;
+  nulls?: "first" | "last" | null;
+};
+
 /**
  * Defines the ordering arguments for a table.
  *
- * For each column, an optional order definition can be provided specifying the sort direction and priority.
+ * For each column, an optional order definition can be provided specifying the sort direction, priority and
+ * placement of nulls. Vector columns can be ordered by their distance to a vector.
  *
  * @template TTable - The table for which ordering is defined.
  */
 export type OrderByArgs<TTable extends Table> = {
-  [Key in keyof TTable["_"]["columns"]]?: {
-    direction: "asc" | "desc";
-    priority: number;
+  [Key in keyof TTable["_"]["columns"]]?:
+    TTable["_"]["columns"][Key]["_"]["columnType"] extends "PgVector"
+      ? VectorOrder
+      : ColumnOrder;
+};
+
+/**
+ * Defines the order of a vector column.
+ *
+ * @property distanceTo - Orders by the distance to the vector instead of by the vectors themselves.
+ * @property metric - The metric of the distance, `l2` if omitted.
+ */
+export type VectorOrder = ColumnOrder & {
+  distanceTo?: number[] | null;
+  metric?: VectorDistanceMetric | null;
+};
+
+/**
+ * Defines the ordering arguments of a many-relation.
+ *
+ * Records can be ordered by the count of their related records, or by an aggregate of a
+ * numeric column of their related records.
+ */
+export type RelationOrderByArgs =
+  & {
+    count?: ColumnOrder | null;
+  }
+  & {
+    [Function in "sum" | "avg" | "min" | "max"]?:
+      | Record<string, ColumnOrder | null>
+      | null;
   };
+
+/**
+ * Defines the full-text search arguments of a table.
+ *
+ * @property query - The plain text query, whose words must all match.
+ * @property relevance - Orders the records by relevance, most relevant first when descending.
+ */
+export type SearchArgs = {
+  query: string;
+  relevance?: ColumnOrder | null;
+};
+
+/**
+ * A sort expression extracted from ordering arguments, with its order.
+ */
+export type OrderTerm = ColumnOrder & {
+  expression: SQL | Column;
 };
 
 /**
@@ -414,13 +797,18 @@ export type GeneratedTableTypesInputs = {
  * Defines the generated GraphQL output types for a table.
  *
  * If WithReturning is true, additional types for individual table items are generated.
+ * `selectArrOutput` is a connection type when the `connections` config option is enabled.
  *
  * @template WithReturning - A flag indicating whether mutations return detailed item data.
  */
 export type GeneratedTableTypesOutputs<WithReturning extends boolean> =
   WithReturning extends true ? {
       selectSingleOutput: GraphQLObjectType;
-      selectArrOutput: GraphQLNonNull<
+      selectArrOutput:
+        | GraphQLNonNull<GraphQLList<GraphQLNonNull<GraphQLObjectType>>>
+        | GraphQLNonNull<GraphQLObjectType>;
+      aggregateOutput: GraphQLNonNull<GraphQLObjectType>;
+      groupByOutput: GraphQLNonNull<
         GraphQLList<GraphQLNonNull<GraphQLObjectType>>
       >;
       singleTableItemOutput: GraphQLObjectType;
@@ -430,7 +818,11 @@ export type GeneratedTableTypesOutputs<WithReturning extends boolean> =
     }
     : {
       selectSingleOutput: GraphQLObjectType;
-      selectArrOutput: GraphQLNonNull<
+      selectArrOutput:
+        | GraphQLNonNull<GraphQLList<GraphQLNonNull<GraphQLObjectType>>>
+        | GraphQLNonNull<GraphQLObjectType>;
+      aggregateOutput: GraphQLNonNull<GraphQLObjectType>;
+      groupByOutput: GraphQLNonNull<
         GraphQLList<GraphQLNonNull<GraphQLObjectType>>
       >;
     };
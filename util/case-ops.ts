@@ -43,3 +43,244 @@ export const capitalize = <T extends string>(input: T) =>
       input.length > 1 ? input.slice(1, input.length) : ""
     }`
     : input) as Capitalize<T>;
+
+/**
+ * Converts a camelCase or PascalCase type into its snake_case equivalent.
+ *
+ * @template T - A string literal type.
+ */
+export type SnakeCase<T extends string> = SnakeCaseInner<Uncapitalize<T>>;
+
+type SnakeCaseInner<T extends string, TAcc extends string = ""> = T extends
+  `${infer C}${infer R}` ? SnakeCaseInner<
+    R,
+    `${TAcc}${C extends Lowercase<C> ? C : `_${Lowercase<C>}`}`
+  >
+  : TAcc;
+
+/**
+ * Converts a camelCase or PascalCase string to snake_case.
+ *
+ * Every uppercase character is lowercased and, unless it is the first character,
+ * prefixed with an underscore. Existing underscores are left unchanged.
+ *
+ * @param input - The string to be converted.
+ * @returns The input string in snake_case.
+ *
+ * @example
+ * // Returns "user_profiles"
+ * snakeCase("UserProfiles");
+ *
+ * @template T - A string literal type.
+ */
+export const snakeCase = <T extends string>(input: T) =>
+  [...uncapitalize(input)]
+    .map((char) =>
+      char === char.toLocaleLowerCase() ? char : `_${char.toLocaleLowerCase()}`
+    )
+    .join("") as SnakeCase<T>;
+
+/**
+ * Irregular and uncountable English nouns, mapping singular to plural forms.
+ *
+ * Entries apply to whole words: the whole name, or its last word in camelCase, PascalCase or
+ * snake_case names.
+ */
+const irregularPlurals = {
+  person: "people",
+  man: "men",
+  woman: "women",
+  child: "children",
+  tooth: "teeth",
+  foot: "feet",
+  mouse: "mice",
+  goose: "geese",
+  ox: "oxen",
+  quiz: "quizzes",
+  criterion: "criteria",
+  phenomenon: "phenomena",
+  crisis: "crises",
+  thesis: "theses",
+  movie: "movies",
+  cookie: "cookies",
+  news: "news",
+  series: "series",
+  species: "species",
+  data: "data",
+  metadata: "metadata",
+  information: "information",
+  equipment: "equipment",
+  feedback: "feedback",
+  software: "software",
+  sheep: "sheep",
+  fish: "fish",
+  deer: "deer",
+} as const;
+
+type IrregularPlurals = typeof irregularPlurals;
+
+type IrregularSingulars = {
+  [K in keyof IrregularPlurals as IrregularPlurals[K]]: K;
+};
+
+// Irregular and uncountable English nouns, mapping plural to singular forms.
+const irregularSingulars = Object.fromEntries(
+  Object.entries(irregularPlurals).map(([singular, plural]) => [
+    plural,
+    singular,
+  ]),
+) as Record<string, string>;
+
+/**
+ * Inflects the last word of a name type according to a map of irregular words.
+ *
+ * Resolves to `never` if the last word is not in the map.
+ *
+ * @template T - A string literal type.
+ * @template TMap - The map of irregular words.
+ */
+type InflectIrregular<T extends string, TMap extends Record<string, string>> = {
+  [W in keyof TMap & string]: T extends W ? TMap[W]
+    : T extends `${infer P}_${W}` ? `${P}_${TMap[W]}`
+    : T extends `${infer P}${Capitalize<W>}` ? `${P}${Capitalize<TMap[W]>}`
+    : never;
+}[keyof TMap & string];
+
+/**
+ * Inflects the last word of a name according to a map of irregular words.
+ *
+ * The word must be the whole name, follow an underscore, or start with an uppercase letter.
+ * The case of its first letter is kept.
+ *
+ * @param input - The name to inflect.
+ * @param words - The map of irregular words.
+ * @returns The inflected name, or undefined if the last word is not in the map.
+ */
+const inflectIrregular = (
+  input: string,
+  words: Record<string, string>,
+): string | undefined => {
+  for (const [word, inflected] of Object.entries(words)) {
+    const start = input.length - word.length;
+    if (start < 0) continue;
+    const suffix = input.slice(start);
+    if (
+      suffix === word
+        ? start === 0 || input[start - 1] === "_"
+        : suffix === capitalize(word)
+    ) {
+      return `${input.slice(0, start)}${
+        suffix === word ? inflected : capitalize(inflected)
+      }`;
+    }
+  }
+};
+
+/**
+ * Converts an English noun type into its plural form.
+ *
+ * @template T - A string literal type.
+ */
+export type Pluralize<T extends string> = [
+  InflectIrregular<T, IrregularPlurals>,
+] extends [never]
+  ? [InflectIrregular<T, IrregularSingulars>] extends [never]
+    ? PluralizeRegular<T>
+  : T
+  : InflectIrregular<T, IrregularPlurals>;
+
+type PluralizeRegular<T extends string> = T extends
+  `${string}${"ss" | "sh" | "ch" | "x" | "z" | "us"}` ? `${T}es`
+  : T extends `${infer P}is` ? `${P}es`
+  : T extends `${string}s` ? T
+  : T extends `${infer P}y`
+    ? P extends `${string}${"a" | "e" | "i" | "o" | "u"}` | "" ? `${T}s`
+    : `${P}ies`
+  : `${T}s`;
+
+/**
+ * Converts an English noun to its plural form using suffix rules.
+ *
+ * Common irregular and uncountable nouns are looked up first, e.g. `person` becomes `people`,
+ * and `data` and `people` are left unchanged. Nouns ending with "us" or "is" get "uses" and "es", e.g.
+ * `status` becomes `statuses` and `analysis` becomes `analyses`. Other words that already end
+ * with "s" are assumed to be plural and returned unchanged.
+ *
+ * @param input - The noun to be pluralized.
+ * @returns The plural form of the input.
+ *
+ * @example
+ * // Returns "categories"
+ * pluralize("category");
+ *
+ * @template T - A string literal type.
+ */
+export const pluralize = <T extends string>(input: T) =>
+  (inflectIrregular(input, irregularPlurals) ??
+    (inflectIrregular(input, irregularSingulars) !== undefined
+      ? input
+      : /(ss|sh|ch|x|z|us)$/.test(input)
+      ? `${input}es`
+      : input.endsWith("is")
+      ? `${input.slice(0, -2)}es`
+      : input.endsWith("s")
+      ? input
+      : /[^aeiou]y$/.test(input)
+      ? `${input.slice(0, -1)}ies`
+      : `${input}s`)) as Pluralize<T>;
+
+/**
+ * Converts an English noun type into its singular form.
+ *
+ * @template T - A string literal type.
+ */
+export type Singularize<T extends string> = [
+  InflectIrregular<T, IrregularSingulars>,
+] extends [never] ? SingularizeRegular<T>
+  : InflectIrregular<T, IrregularSingulars>;
+
+type SingularizeRegular<T extends string> = T extends `${infer P}ies` ? `${P}y`
+  : T extends `${infer P}yses` ? `${P}ysis`
+  : T extends `${infer P}uses`
+    ? P extends `${string}${"a" | "e" | "i" | "o" | "u"}` ? `${P}use`
+    : `${P}us`
+  : T extends `${infer P}es`
+    ? P extends `${string}${"ss" | "sh" | "ch" | "x" | "z"}` ? P
+    : SingularizeS<T>
+  : SingularizeS<T>;
+
+type SingularizeS<T extends string> = T extends `${string}${"ss" | "us" | "is"}`
+  ? T
+  : T extends `${infer P}s` ? P
+  : T;
+
+/**
+ * Converts an English noun to its singular form using suffix rules.
+ *
+ * Common irregular and uncountable nouns are looked up first, e.g. `people` becomes `person`
+ * and `series` is left unchanged. Words ending with "ss", "us" or "is", such as `status` and
+ * `analysis`, and words that do not end with "s" are assumed to be singular and returned
+ * unchanged.
+ *
+ * @param input - The noun to be singularized.
+ * @returns The singular form of the input.
+ *
+ * @example
+ * // Returns "category"
+ * singularize("categories");
+ *
+ * @template T - A string literal type.
+ */
+export const singularize = <T extends string>(input: T) =>
+  (inflectIrregular(input, irregularSingulars) ??
+    (input.endsWith("ies")
+      ? `${input.slice(0, -3)}y`
+      : input.endsWith("yses")
+      ? `${input.slice(0, -2)}is`
+      : input.endsWith("uses")
+      ? input.slice(0, /[aeiou]uses$/.test(input) ? -1 : -2)
+      : /(ss|sh|ch|x|z)es$/.test(input)
+      ? input.slice(0, -2)
+      : input.endsWith("s") && !/(ss|us|is)$/.test(input)
+      ? input.slice(0, -1)
+      : input)) as Singularize<T>;
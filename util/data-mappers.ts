@@ -1,6 +1,15 @@
-import { type Column, getTableColumns, type Table } from "drizzle-orm";
+import { type Column, getTableColumns, is, type Table } from "drizzle-orm";
+import { PgTimestampString, PgVector } from "drizzle-orm/pg-core";
 import { GraphQLError } from "graphql";
 import type { TableNamedRelations } from "./builders/index.ts";
+import {
+  getBytesEncoding,
+  getColumnScalar,
+  isJsonScalar,
+  toPointTuple,
+  toUTCDateTime,
+} from "./type-converter/index.ts";
+import type { BuildSchemaConfig } from "../types.ts";
 import { Buffer } from "node:buffer";
 
 /**
@@ -11,6 +20,7 @@ import { Buffer } from "node:buffer";
  * @param key - The key corresponding to the column or field name.
  * @param tableName - The name of the table containing the column.
  * @param relationMap - Optional mapping of table relations for handling nested or related data.
+ * @param config - The schema build configuration.
  * @returns The value remapped to a format suitable for GraphQL output.
  */
 export type RemapToGraphQLFunction = (
@@ -18,7 +28,8 @@ export type RemapToGraphQLFunction = (
   column: Column,
   key: string,
   tableName: string,
-  relationMap?: Record<string, Record<string, TableNamedRelations>>,
+  relationMap: Record<string, Record<string, TableNamedRelations>> | undefined,
+  config: BuildSchemaConfig,
 ) => any;
 
 /**
@@ -27,12 +38,14 @@ export type RemapToGraphQLFunction = (
  * @param value - The input value received from a GraphQL request.
  * @param column - The column definition from Drizzle ORM.
  * @param columnName - The name of the column being remapped.
+ * @param config - The schema build configuration.
  * @returns The value remapped to a format suitable for database storage.
  */
 export type RemapFromGraphQLFunction = (
   value: any,
   column: Column,
   columnName: string,
+  config: BuildSchemaConfig,
 ) => any;
 
 // Registry for custom remapping functions for converting database values to GraphQL values.
@@ -76,28 +89,37 @@ export const registerRemapFromGraphQL = (
  *
  * Handlers included:
  * - date: Converts Date objects to ISO strings.
- * - buffer: Converts Buffer objects to an array of numbers.
+ * - buffer: Converts Buffer objects to an array of numbers, or to strings in the encoding of the `Bytes` scalar.
  * - bigint: Converts BigInt values to strings.
- * - json: Converts JSON objects to their stringified representation.
+ * - json: Converts JSON objects to their stringified representation, unless the `JSON` scalar is enabled.
  * - array: Recursively remaps array items using remapToGraphQLCore.
+ * - PgGeometryObject, PgGeometry and PgVector: Return the points and vectors unmodified, as read by Drizzle ORM.
  * - default: Returns the value unmodified.
  */
 const defaultRemapToMapping: Record<string, RemapToGraphQLFunction> = {
   date: (value) => value instanceof Date ? value.toISOString() : value,
-  buffer: (value) => value instanceof Buffer ? Array.from(value) : value,
+  buffer: (value, _column, _key, _tableName, _relationMap, config) => {
+    if (!(value instanceof Buffer)) return value;
+    const encoding = getBytesEncoding(config);
+    return encoding ? value.toString(encoding) : Array.from(value);
+  },
   bigint: (value) => typeof value === "bigint" ? value.toString() : value,
-  json: (value) =>
-    typeof value === "object" && value !== null && !Array.isArray(value)
+  json: (value, _column, _key, _tableName, _relationMap, config) =>
+    !isJsonScalar(config) &&
+      typeof value === "object" && value !== null && !Array.isArray(value)
       ? JSON.stringify(value)
       : value,
-  array: (value, column, key, tableName, relationMap) => {
+  array: (value, column, key, tableName, relationMap, config) => {
     if (Array.isArray(value)) {
       return value.map((item) =>
-        remapToGraphQLCore(key, item, tableName, column, relationMap)
+        remapToGraphQLCore(key, item, tableName, column, config, relationMap)
       );
     }
     return value;
   },
+  PgGeometryObject: (value) => value,
+  PgGeometry: (value) => value,
+  PgVector: (value) => value,
   default: (value) => value,
 };
 
@@ -106,10 +128,13 @@ const defaultRemapToMapping: Record<string, RemapToGraphQLFunction> = {
  *
  * Handlers included:
  * - date: Converts string values to Date objects, validating their correctness.
- * - buffer: Converts arrays to Buffer objects after validating the input.
- * - json: Parses JSON strings into objects.
+ * - buffer: Converts arrays, or strings in the encoding of the `Bytes` scalar, to Buffer objects after validating the input.
+ * - json: Parses JSON strings into objects, unless the `JSON` scalar is enabled.
  * - array: Validates that the input is an array.
  * - bigint: Converts values to BigInt, throwing an error if conversion fails.
+ * - PgGeometryObject and PgGeometry: Convert points to `{ x, y }` objects and `[x, y]` tuples respectively.
+ * - PgVector: Validates that the input is an array of the dimensions of the column.
+ * - PgTimestampString: Converts `DateTime` inputs to UTC for columns without time zone, which would ignore their offsets.
  * - default: Returns the value unmodified.
  */
 const defaultRemapFromMapping: Record<string, RemapFromGraphQLFunction> = {
@@ -122,7 +147,9 @@ const defaultRemapFromMapping: Record<string, RemapFromGraphQLFunction> = {
     }
     return formatted;
   },
-  buffer: (value, _column, columnName) => {
+  buffer: (value, _column, columnName, config) => {
+    const encoding = getBytesEncoding(config);
+    if (encoding) return Buffer.from(value, encoding);
     if (!Array.isArray(value)) {
       throw new GraphQLError(
         `Field '${columnName}' is not an array!`,
@@ -130,7 +157,8 @@ const defaultRemapFromMapping: Record<string, RemapFromGraphQLFunction> = {
     }
     return Buffer.from(value);
   },
-  json: (value, _column, columnName) => {
+  json: (value, _column, columnName, config) => {
+    if (isJsonScalar(config)) return value;
     try {
       return JSON.parse(value);
     } catch (e) {
@@ -158,6 +186,43 @@ const defaultRemapFromMapping: Record<string, RemapFromGraphQLFunction> = {
       );
     }
   },
+  PgGeometryObject: (value, column, columnName, config) => {
+    const [x, y] = defaultRemapFromMapping.PgGeometry(
+      value,
+      column,
+      columnName,
+      config,
+    );
+    return { x, y };
+  },
+  PgGeometry: (value, _column, columnName) => {
+    const point = toPointTuple(value);
+    if (!point) {
+      throw new GraphQLError(
+        `Field '${columnName}' is not a point!`,
+      );
+    }
+    return point;
+  },
+  PgVector: (value, column, columnName) => {
+    const dimensions = is(column, PgVector) ? column.dimensions : undefined;
+    if (!Array.isArray(value)) {
+      throw new GraphQLError(
+        `Field '${columnName}' is not an array!`,
+      );
+    }
+    if (dimensions && value.length !== dimensions) {
+      throw new GraphQLError(
+        `Field '${columnName}' is supposed to have ${dimensions} dimensions!`,
+      );
+    }
+    return value;
+  },
+  PgTimestampString: (value, column, _columnName, config) =>
+    typeof value === "string" && getColumnScalar(column, config) &&
+      is(column, PgTimestampString) && !column.withTimezone
+      ? toUTCDateTime(value)
+      : value,
   default: (value) => value,
 };
 
@@ -173,6 +238,7 @@ const defaultRemapFromMapping: Record<string, RemapFromGraphQLFunction> = {
  * @param value - The original database value to be remapped.
  * @param tableName - The name of the table containing the field.
  * @param column - The column definition associated with the value.
+ * @param config - The schema build configuration.
  * @param relationMap - Optional mapping of table relations for handling nested or related data.
  * @returns The remapped value, formatted for GraphQL output.
  */
@@ -181,6 +247,7 @@ export const remapToGraphQLCore = (
   value: any,
   tableName: string,
   column: Column,
+  config: BuildSchemaConfig,
   relationMap?: Record<string, Record<string, TableNamedRelations>>,
 ): any => {
   // If a relation mapping exists for this key, delegate to the appropriate handler.
@@ -191,6 +258,7 @@ export const remapToGraphQLCore = (
         value,
         relations[key]!.targetTableName,
         relations[key]!.relation.referencedTable,
+        config,
         relationMap,
       );
     }
@@ -199,17 +267,22 @@ export const remapToGraphQLCore = (
         value,
         relations[key]!.targetTableName,
         relations[key]!.relation.referencedTable,
+        config,
         relationMap,
       );
     }
   }
 
+  // Values that are not columns, such as relation counts, are returned as is.
+  if (!column) return value;
+
   // Choose a mapper: first check for a custom mapping registered by columnType,
-  // then fall back to a default based on the column's dataType, or use the identity function.
+  // then fall back to a default based on the column's columnType or dataType, or use the identity function.
   const mapper = remapToRegistry[column.columnType] ||
+    defaultRemapToMapping[column.columnType] ||
     defaultRemapToMapping[column.dataType] ||
     defaultRemapToMapping.default;
-  return mapper(value, column, key, tableName, relationMap);
+  return mapper(value, column, key, tableName, relationMap, config);
 };
 
 /**
@@ -221,6 +294,7 @@ export const remapToGraphQLCore = (
  * @param queryOutput - An object representing a single row retrieved from the database.
  * @param tableName - The name of the table from which the row originates.
  * @param table - The table definition containing the column metadata.
+ * @param config - The schema build configuration.
  * @param relationMap - Optional mapping of table relations for handling nested or related data.
  * @returns The transformed object with all applicable values remapped for GraphQL output.
  */
@@ -228,6 +302,7 @@ export const remapToGraphQLSingleOutput = (
   queryOutput: Record<string, any>,
   tableName: string,
   table: Table,
+  config: BuildSchemaConfig,
   relationMap?: Record<string, Record<string, TableNamedRelations>>,
 ) => {
   for (const [key, value] of Object.entries(queryOutput)) {
@@ -241,6 +316,7 @@ export const remapToGraphQLSingleOutput = (
         value,
         tableName,
         column,
+        config,
         relationMap,
       );
     }
@@ -256,6 +332,7 @@ export const remapToGraphQLSingleOutput = (
  * @param queryOutput - An array of objects, each representing a row from the database.
  * @param tableName - The name of the table from which the rows originate.
  * @param table - The table definition containing the column metadata.
+ * @param config - The schema build configuration.
  * @param relationMap - Optional mapping of table relations for handling nested or related data.
  * @returns The array with each object remapped for GraphQL output.
  */
@@ -263,10 +340,11 @@ export const remapToGraphQLArrayOutput = (
   queryOutput: Record<string, any>[],
   tableName: string,
   table: Table,
+  config: BuildSchemaConfig,
   relationMap?: Record<string, Record<string, TableNamedRelations>>,
 ) => {
   for (const entry of queryOutput) {
-    remapToGraphQLSingleOutput(entry, tableName, table, relationMap);
+    remapToGraphQLSingleOutput(entry, tableName, table, config, relationMap);
   }
   return queryOutput;
 };
@@ -280,17 +358,20 @@ export const remapToGraphQLArrayOutput = (
  * @param value - The input value received from a GraphQL request.
  * @param column - The column definition associated with the value.
  * @param columnName - The name of the column being remapped.
+ * @param config - The schema build configuration.
  * @returns The transformed value suitable for database storage.
  */
 export const remapFromGraphQLCore = (
   value: any,
   column: Column,
   columnName: string,
+  config: BuildSchemaConfig,
 ) => {
   const mapper = remapFromRegistry[column.columnType] ||
+    defaultRemapFromMapping[column.columnType] ||
     defaultRemapFromMapping[column.dataType] ||
     defaultRemapFromMapping.default;
-  return mapper(value, column, columnName);
+  return mapper(value, column, columnName, config);
 };
 
 /**
@@ -302,12 +383,14 @@ export const remapFromGraphQLCore = (
  *
  * @param queryInput - An object representing GraphQL input data for a single database row.
  * @param table - The table definition containing column metadata.
+ * @param config - The schema build configuration.
  * @returns The transformed object with values remapped to a format suitable for database storage.
  * @throws {GraphQLError} If an unknown column is encountered or non-null constraints are violated.
  */
 export const remapFromGraphQLSingleInput = (
   queryInput: Record<string, any>,
   table: Table,
+  config: BuildSchemaConfig,
 ) => {
   for (const [key, value] of Object.entries(queryInput)) {
     if (value === undefined) {
@@ -321,7 +404,7 @@ export const remapFromGraphQLSingleInput = (
         continue;
       }
 
-      queryInput[key] = remapFromGraphQLCore(value, column, key);
+      queryInput[key] = remapFromGraphQLCore(value, column, key, config);
     }
   }
   return queryInput;
@@ -334,14 +417,16 @@ export const remapFromGraphQLSingleInput = (
  *
  * @param queryInput - An array of objects representing GraphQL input data.
  * @param table - The table definition containing column metadata.
+ * @param config - The schema build configuration.
  * @returns The array with each object remapped to a format suitable for database storage.
  */
 export const remapFromGraphQLArrayInput = (
   queryInput: Record<string, any>[],
   table: Table,
+  config: BuildSchemaConfig,
 ) => {
   for (const entry of queryInput) {
-    remapFromGraphQLSingleInput(entry, table);
+    remapFromGraphQLSingleInput(entry, table, config);
   }
   return queryInput;
 };
@@ -0,0 +1,360 @@
+import type {
+  BuildSchemaConfig,
+  NamingCase,
+  NamingConfig,
+  NamingInflection,
+} from "../types.ts";
+import {
+  capitalize,
+  type Pluralize,
+  pluralize,
+  type Singularize,
+  singularize,
+  type SnakeCase,
+  snakeCase,
+  uncapitalize,
+} from "./case-ops.ts";
+
+/**
+ * The names of the generated GraphQL fields and types, resolved from the `naming` config option.
+ *
+ * Table names passed to these functions are inflected before being joined with the other
+ * parts of the name.
+ */
+export type SchemaNaming = {
+  /** Joins the parts of a query or mutation name. */
+  field: (...parts: string[]) => string;
+  /** Joins the parts of a type name. */
+  type: (...parts: string[]) => string;
+  /** Inflects a table name before it is used in a generated name. */
+  table: (tableName: string) => string;
+  /** The base type name of a table, used as the prefix of its relation types. */
+  tableType: (tableName: string) => string;
+  /** The `{table}` query name. */
+  query: (tableName: string) => string;
+  /** The `{table}Single` query name. */
+  querySingle: (tableName: string) => string;
+  /** The `{table}Aggregate` query name. */
+  aggregate: (tableName: string) => string;
+  /** The `{table}GroupBy` query name. */
+  groupBy: (tableName: string) => string;
+  /** The `insertInto{Table}` mutation name. */
+  insert: (tableName: string) => string;
+  /** The `insertInto{Table}Single` mutation name. */
+  insertSingle: (tableName: string) => string;
+  /** The `update{Table}` mutation name. */
+  update: (tableName: string) => string;
+  /** The `deleteFrom{Table}` mutation name. */
+  delete: (tableName: string) => string;
+  /** The `{Table}SelectItem` type name. */
+  selectItem: (tableName: string) => string;
+  /** The `{Table}Item` type name. */
+  item: (tableName: string) => string;
+  /** The `{Table}Aggregate` type name. */
+  aggregateResult: (tableName: string) => string;
+  /** The `{Table}Aggregate{Function}` type name, e.g. `UsersAggregateSum`. */
+  aggregateFunction: (tableName: string, functionName: string) => string;
+  /** The `{Table}Group` type name. */
+  groupResult: (tableName: string) => string;
+  /** The `{Table}GroupKey` type name. */
+  groupKey: (tableName: string) => string;
+  /** The `{Table}GroupByColumn` type name. */
+  groupByColumn: (tableName: string) => string;
+  /** The `{Table}Having` type name. */
+  having: (tableName: string) => string;
+  /** The `{Table}Having{Function}` type name, e.g. `UsersHavingSum`. */
+  havingFunction: (tableName: string, functionName: string) => string;
+  /** The `{Table}InsertInput` type name. */
+  insertInput: (tableName: string) => string;
+  /** The `{Table}UpdateInput` type name. */
+  updateInput: (tableName: string) => string;
+  /** The `{Table}OrderBy` type name. */
+  orderBy: (tableName: string) => string;
+  /** The `{Table}{Relation}OrderBy` type name of a many-relation. */
+  relationOrderBy: (tableName: string, relationName: string) => string;
+  /** The `{Table}Aggregate{Function}OrderBy` type name, e.g. `UsersAggregateSumOrderBy`. */
+  aggregateOrderBy: (tableName: string, functionName: string) => string;
+  /** The `{Table}Search` type name. */
+  search: (tableName: string) => string;
+  /** The `{Table}Filters` type name. */
+  filters: (tableName: string) => string;
+  /** The `{Table}{Relation}Filters` type name of a many-relation. */
+  relationFilters: (tableName: string, relationName: string) => string;
+  /** The `{Table}{Column}Filters` type name. */
+  columnFilters: (tableName: string, columnName: string) => string;
+  /** The `{Table}{Column}Enum` type name of an inline enum. */
+  enum: (tableName: string, columnName: string) => string;
+  /** The `{Enum}Enum` type name of a `pgEnum`, prefixed by its database schema if any. */
+  pgEnum: (enumName: string, schema?: string) => string;
+  /** The `{ParentType}{Relation}Relation` type name. */
+  relation: (parentTypeName: string, relationName: string) => string;
+  /** The `{relation}Count` field name of a many-relation. */
+  relationCount: (relationName: string) => string;
+  /** The `{Type}Connection` type name, where the type is a table or relation type name. */
+  connection: (typeName: string) => string;
+  /** The `{Type}Edge` type name, where the type is a table or relation type name. */
+  edge: (typeName: string) => string;
+};
+
+// Built-in functions joining the parts of a name.
+const namingCases: Record<NamingCase, (parts: string[]) => string> = {
+  camelCase: (parts) =>
+    parts
+      .map((part, index) => index ? capitalize(part) : uncapitalize(part))
+      .join(""),
+  PascalCase: (parts) => parts.map((part) => capitalize(part)).join(""),
+  snake_case: (parts) => parts.map((part) => snakeCase(part)).join("_"),
+};
+
+// Built-in functions inflecting table names.
+const namingInflections: Record<
+  NamingInflection,
+  (tableName: string) => string
+> = {
+  pluralize,
+  singularize,
+};
+
+// Cache for resolved naming strategies, keyed by build configuration.
+const namingMap = new WeakMap<BuildSchemaConfig, SchemaNaming>();
+
+/**
+ * Resolves a single option of the `naming` config to a function.
+ *
+ * @param option - The name of the option, used in error messages.
+ * @param value - The configured value.
+ * @param presets - The built-in functions keyed by preset name.
+ * @param fallback - The preset used when the option is omitted.
+ * @returns The function implementing the option.
+ * @throws Error if the value is neither a known preset nor a function.
+ */
+const resolveNamingOption = <TFn extends (input: never) => string>(
+  option: keyof NamingConfig,
+  value: string | TFn | undefined,
+  presets: Record<string, TFn>,
+  fallback: TFn,
+): TFn => {
+  if (value === undefined) return fallback;
+  if (typeof value === "function") return value;
+  if (!Object.hasOwn(presets, value)) {
+    throw new Error(
+      `Drizzle-GraphQL Error: config.naming.${option} is supposed to be a function or one of: ${
+        Object.keys(presets).join(", ")
+      }!`,
+    );
+  }
+  return presets[value]!;
+};
+
+/**
+ * Returns the naming strategy configured by the `naming` config option.
+ *
+ * @param config - The schema build configuration.
+ * @returns The functions producing every generated name.
+ * @throws Error if an option of `naming` is neither a known preset nor a function.
+ */
+export const getNaming = (config: BuildSchemaConfig): SchemaNaming => {
+  if (namingMap.has(config)) return namingMap.get(config)!;
+
+  const { naming = {} } = config;
+  const joinField = resolveNamingOption(
+    "fields",
+    naming.fields,
+    namingCases,
+    namingCases.camelCase,
+  );
+  const joinType = resolveNamingOption(
+    "types",
+    naming.types,
+    namingCases,
+    namingCases.PascalCase,
+  );
+  const table = resolveNamingOption(
+    "tables",
+    naming.tables,
+    namingInflections,
+    (tableName: string) => tableName,
+  );
+
+  const field = (...parts: string[]) => joinField(parts);
+  const type = (...parts: string[]) => joinType(parts);
+
+  const strategy: SchemaNaming = {
+    field,
+    type,
+    table,
+    tableType: (tableName) => type(table(tableName)),
+    query: (tableName) => field(table(tableName)),
+    querySingle: (tableName) => field(table(tableName), "single"),
+    aggregate: (tableName) => field(table(tableName), "aggregate"),
+    groupBy: (tableName) => field(table(tableName), "group", "by"),
+    insert: (tableName) => field("insert", "into", table(tableName)),
+    insertSingle: (tableName) =>
+      field("insert", "into", table(tableName), "single"),
+    update: (tableName) => field("update", table(tableName)),
+    delete: (tableName) => field("delete", "from", table(tableName)),
+    selectItem: (tableName) => type(table(tableName), "select", "item"),
+    item: (tableName) => type(table(tableName), "item"),
+    aggregateResult: (tableName) => type(table(tableName), "aggregate"),
+    aggregateFunction: (tableName, functionName) =>
+      type(table(tableName), "aggregate", functionName),
+    groupResult: (tableName) => type(table(tableName), "group"),
+    groupKey: (tableName) => type(table(tableName), "group", "key"),
+    groupByColumn: (tableName) =>
+      type(table(tableName), "group", "by", "column"),
+    having: (tableName) => type(table(tableName), "having"),
+    havingFunction: (tableName, functionName) =>
+      type(table(tableName), "having", functionName),
+    insertInput: (tableName) => type(table(tableName), "insert", "input"),
+    updateInput: (tableName) => type(table(tableName), "update", "input"),
+    orderBy: (tableName) => type(table(tableName), "order", "by"),
+    relationOrderBy: (tableName, relationName) =>
+      type(table(tableName), relationName, "order", "by"),
+    aggregateOrderBy: (tableName, functionName) =>
+      type(table(tableName), "aggregate", functionName, "order", "by"),
+    search: (tableName) => type(table(tableName), "search"),
+    filters: (tableName) => type(table(tableName), "filters"),
+    relationFilters: (tableName, relationName) =>
+      type(table(tableName), relationName, "filters"),
+    columnFilters: (tableName, columnName) =>
+      type(table(tableName), columnName, "filters"),
+    enum: (tableName, columnName) => type(table(tableName), columnName, "enum"),
+    pgEnum: (enumName, schema) =>
+      schema ? type(schema, enumName, "enum") : type(enumName, "enum"),
+    relation: (parentTypeName, relationName) =>
+      type(parentTypeName, relationName, "relation"),
+    relationCount: (relationName) => field(relationName, "count"),
+    connection: (typeName) => type(typeName, "connection"),
+    edge: (typeName) => type(typeName, "edge"),
+  };
+
+  namingMap.set(config, strategy);
+  return strategy;
+};
+
+/**
+ * Extracts the value of a `naming` option from a build configuration type.
+ */
+type NamingOption<
+  TConfig extends BuildSchemaConfig,
+  TKey extends keyof NamingConfig,
+> = TConfig["naming"] extends infer TNaming
+  ? TNaming extends { [K in TKey]?: infer TValue } ? TValue : undefined
+  : undefined;
+
+/**
+ * Resolves a `naming` option type to the preset it selects.
+ *
+ * Resolves to `"custom"` for functions, and to the default preset for options that are
+ * omitted or not known at compile time.
+ */
+type ResolveNamingOption<
+  TValue,
+  TPreset extends string,
+  TDefault extends string,
+> = [Exclude<TValue, undefined>] extends [never] ? TDefault
+  : [Exclude<TValue, undefined>] extends [(...args: never[]) => string]
+    ? "custom"
+  : {
+    [P in TPreset]: [Exclude<TValue, undefined>] extends [P] ? P : never;
+  }[TPreset] extends infer TResolved
+    ? [TResolved] extends [never] ? TDefault : TResolved
+  : never;
+
+type PascalJoin<TParts extends string[]> = TParts extends
+  [infer TFirst extends string, ...infer TRest extends string[]]
+  ? `${Capitalize<TFirst>}${PascalJoin<TRest>}`
+  : "";
+
+type SnakeJoin<TParts extends string[]> = TParts extends
+  [infer TFirst extends string, ...infer TRest extends string[]]
+  ? TRest extends [] ? SnakeCase<TFirst>
+  : `${SnakeCase<TFirst>}_${SnakeJoin<TRest>}`
+  : "";
+
+/**
+ * Joins the parts of a name using the given casing preset.
+ */
+type JoinNameParts<TCase, TParts extends string[]> = TCase extends "camelCase"
+  ? TParts extends
+    [infer TFirst extends string, ...infer TRest extends string[]]
+    ? `${Uncapitalize<TFirst>}${PascalJoin<TRest>}`
+  : ""
+  : TCase extends "PascalCase" ? PascalJoin<TParts>
+  : TCase extends "snake_case" ? SnakeJoin<TParts>
+  : string;
+
+/**
+ * The type of a generated query or mutation name built from the given parts.
+ *
+ * @template TConfig - The schema build configuration.
+ * @template TParts - The parts of the name.
+ */
+export type FieldName<
+  TConfig extends BuildSchemaConfig,
+  TParts extends string[],
+> = JoinNameParts<
+  ResolveNamingOption<NamingOption<TConfig, "fields">, NamingCase, "camelCase">,
+  TParts
+>;
+
+/**
+ * The type of a generated type name built from the given parts.
+ *
+ * @template TConfig - The schema build configuration.
+ * @template TParts - The parts of the name.
+ */
+export type TypeName<
+  TConfig extends BuildSchemaConfig,
+  TParts extends string[],
+> = JoinNameParts<
+  ResolveNamingOption<NamingOption<TConfig, "types">, NamingCase, "PascalCase">,
+  TParts
+>;
+
+/**
+ * The type of a table name after the configured inflection is applied.
+ *
+ * @template TConfig - The schema build configuration.
+ * @template TName - The name of the table in the Drizzle schema.
+ */
+export type TableName<
+  TConfig extends BuildSchemaConfig,
+  TName extends string,
+> = ResolveNamingOption<
+  NamingOption<TConfig, "tables">,
+  NamingInflection,
+  "none"
+> extends infer TInflection ? TInflection extends "none" ? TName
+  : TInflection extends "pluralize" ? Pluralize<TName>
+  : TInflection extends "singularize" ? Singularize<TName>
+  : string
+  : never;
+
+/**
+ * The type of a generated query or mutation name for a table.
+ *
+ * @template TConfig - The schema build configuration.
+ * @template TName - The name of the table in the Drizzle schema.
+ * @template TPrefix - The parts of the name preceding the table name.
+ * @template TSuffix - The parts of the name following the table name.
+ */
+export type TableFieldName<
+  TConfig extends BuildSchemaConfig,
+  TName extends string,
+  TPrefix extends string[],
+  TSuffix extends string[] = [],
+> = FieldName<TConfig, [...TPrefix, TableName<TConfig, TName>, ...TSuffix]>;
+
+/**
+ * The type of a generated type name for a table.
+ *
+ * @template TConfig - The schema build configuration.
+ * @template TName - The name of the table in the Drizzle schema.
+ * @template TSuffix - The parts of the name following the table name.
+ */
+export type TableTypeName<
+  TConfig extends BuildSchemaConfig,
+  TName extends string,
+  TSuffix extends string[],
+> = TypeName<TConfig, [TableName<TConfig, TName>, ...TSuffix]>;
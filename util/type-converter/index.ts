@@ -1,6 +1,11 @@
 import { is } from "drizzle-orm";
 import { MySqlInt, MySqlSerial } from "drizzle-orm/mysql-core";
-import { type PgArray, PgInteger, PgSerial } from "drizzle-orm/pg-core";
+import {
+  type PgArray,
+  PgEnumColumn,
+  PgInteger,
+  PgSerial,
+} from "drizzle-orm/pg-core";
 import { SQLiteInteger } from "drizzle-orm/sqlite-core";
 import {
   GraphQLBoolean,
@@ -9,43 +14,175 @@ import {
   GraphQLInt,
   GraphQLList,
   GraphQLNonNull,
+  GraphQLObjectType,
   type GraphQLScalarType,
   GraphQLString,
 } from "graphql";
 
 import type { Column } from "drizzle-orm";
-import { capitalize } from "../case-ops.ts";
+import type { BuildSchemaConfig } from "../../types.ts";
+import { getNaming } from "../naming.ts";
+import {
+  getBytesEncoding,
+  getColumnScalar,
+  GraphQLBase64Bytes,
+  GraphQLGeoJSONPoint,
+  GraphQLHexBytes,
+  GraphQLJSON,
+  GraphQLUUID,
+  isJsonScalar,
+} from "./scalars.ts";
 import type { ConvertedColumn } from "./types.ts";
 
-// Regular expression to validate allowed characters in enum names.
-const allowedNameChars = /^[a-zA-Z0-9_]+$/;
+// Regular expression to validate GraphQL names.
+const graphQLName = /^[_a-zA-Z][_a-zA-Z0-9]*$/;
+
+// Names that are not allowed as enum values.
+const reservedEnumValueNames = new Set(["true", "false", "null"]);
+
+// Cache for generated GraphQL enum types to prevent re-creation, keyed by build configuration
+// and enum type name.
+const enumMap = new WeakMap<BuildSchemaConfig, Map<string, GraphQLEnumType>>();
+
+/**
+ * Returns the name of the GraphQL enum type of a column.
+ *
+ * Columns named by the `naming.enums` config option get the configured name. PostgreSQL
+ * `pgEnum` columns are named after their Drizzle enum, so that every column of a `pgEnum`
+ * shares one type. Other enum columns are named after their table and column names.
+ *
+ * @param column - The database column that contains enum values.
+ * @param columnName - The name of the column.
+ * @param tableName - The name of the table containing the column.
+ * @param config - The schema build configuration.
+ * @returns The name of the enum type.
+ */
+const getEnumName = (
+  column: Column,
+  columnName: string,
+  tableName: string,
+  config: BuildSchemaConfig,
+): string => {
+  const configuredName = config.naming?.enums?.[tableName]?.[columnName];
+  if (configuredName) return configuredName;
+
+  const naming = getNaming(config);
+  if (is(column, PgEnumColumn)) {
+    const { enumName, schema } = column.enum;
+    return naming.pgEnum(enumName, schema);
+  }
+  return naming.enum(tableName, columnName);
+};
 
-// Cache for generated GraphQL enum types to prevent re-creation.
-const enumMap = new WeakMap<object, GraphQLEnumType>();
+/**
+ * Turns an enum value into a GraphQL enum value name.
+ *
+ * Valid names are kept as they are. Otherwise, runs of other characters than letters, digits
+ * and underscores become underscores and the name is uppercased, e.g. `in-progress` becomes
+ * `IN_PROGRESS`. Names starting with a digit, as well as reserved and empty names, are
+ * prefixed with an underscore, e.g. `2fa` becomes `_2fa`.
+ *
+ * @param value - The enum value.
+ * @returns The sanitized name.
+ */
+const sanitizeEnumValueName = (value: string): string => {
+  let name = value;
+  if (/[^_a-zA-Z0-9]/.test(name)) {
+    name = name.replace(/[^_a-zA-Z0-9]+/g, "_").replace(/^_+|_+$/g, "")
+      .toUpperCase();
+  }
+  return graphQLName.test(name) && !reservedEnumValueNames.has(name)
+    ? name
+    : `_${name}`;
+};
+
+/**
+ * Returns the GraphQL names of the values of an enum type.
+ *
+ * Names configured by the `naming.enumValues` config option take precedence over the
+ * sanitized values.
+ *
+ * @param enumName - The name of the enum type.
+ * @param values - The values of the enum.
+ * @param config - The schema build configuration.
+ * @returns The GraphQL names, in the order of the values.
+ * @throws Error if a configured name is invalid or references an unknown value, or if two
+ * values get the same name.
+ */
+const getEnumValueNames = (
+  enumName: string,
+  values: readonly string[],
+  config: BuildSchemaConfig,
+): string[] => {
+  const overrides = config.naming?.enumValues?.[enumName] ?? {};
+  for (const [value, name] of Object.entries(overrides)) {
+    if (!values.includes(value)) {
+      throw new Error(
+        `Drizzle-GraphQL Error: config.naming.enumValues.${enumName} references unknown value '${value}'!`,
+      );
+    }
+    if (!graphQLName.test(name) || reservedEnumValueNames.has(name)) {
+      throw new Error(
+        `Drizzle-GraphQL Error: config.naming.enumValues.${enumName} gives value '${value}' the invalid name '${name}'!`,
+      );
+    }
+  }
+
+  const valuesByName = new Map<string, string>();
+  return values.map((value) => {
+    const name = Object.hasOwn(overrides, value)
+      ? overrides[value]
+      : sanitizeEnumValueName(value);
+    const collision = valuesByName.get(name);
+    if (collision !== undefined) {
+      throw new Error(
+        `Drizzle-GraphQL Error: Values '${collision}' and '${value}' of enum type '${enumName}' are both named '${name}'! Name them with config.naming.enumValues.`,
+      );
+    }
+    valuesByName.set(name, value);
+    return name;
+  });
+};
 
 /**
  * Generates and caches a GraphQLEnumType for a given database column that has enum values.
  *
- * This function constructs a GraphQLEnumType with a name derived from the table and column names.
- * If an enum for the column has already been generated, it returns the cached instance.
+ * Enum types are cached by name, so that columns sharing a name, such as the columns of a
+ * `pgEnum`, share a single type.
  *
  * @param column - The database column that contains enum values.
  * @param columnName - The name of the column.
  * @param tableName - The name of the table containing the column.
+ * @param config - The schema build configuration.
  * @returns A GraphQLEnumType representing the enum values of the column.
+ * @throws Error if an enum type of the same name was generated with different values.
  */
 const generateEnumCached = (
   column: Column,
   columnName: string,
   tableName: string,
+  config: BuildSchemaConfig,
 ): GraphQLEnumType => {
-  if (enumMap.has(column)) return enumMap.get(column)!;
+  if (!enumMap.has(config)) enumMap.set(config, new Map());
+  const cache = enumMap.get(config)!;
+  const name = getEnumName(column, columnName, tableName, config);
+  const cached = cache.get(name);
+  if (cached) {
+    const cachedValues = cached.getValues().map(({ value }) => value);
+    if (cachedValues.join("\0") !== column.enumValues!.join("\0")) {
+      throw new Error(
+        `Drizzle-GraphQL Error: Enum type '${name}' is generated for columns with different values, including ${tableName}.${columnName}!`,
+      );
+    }
+    return cached;
+  }
 
+  const valueNames = getEnumValueNames(name, column.enumValues!, config);
   const gqlEnum = new GraphQLEnumType({
-    name: `${capitalize(tableName)}${capitalize(columnName)}Enum`,
+    name,
     values: Object.fromEntries(
       column.enumValues!.map((e, index) => [
-        allowedNameChars.test(e) ? e : `Option${index}`,
+        valueNames[index],
         {
           value: e,
           description: `Value: ${e}`,
@@ -54,10 +191,21 @@ const generateEnumCached = (
     ),
   });
 
-  enumMap.set(column, gqlEnum);
+  cache.set(name, gqlEnum);
   return gqlEnum;
 };
 
+/**
+ * A GraphQL object type holding the coordinates of a PostGIS point.
+ */
+const geometryPoint = new GraphQLObjectType({
+  name: "GeometryPoint",
+  fields: {
+    x: { type: new GraphQLNonNull(GraphQLFloat) },
+    y: { type: new GraphQLNonNull(GraphQLFloat) },
+  },
+});
+
 /**
  * Function type for dynamically converting a database column into a GraphQL type.
  *
@@ -68,6 +216,7 @@ const generateEnumCached = (
  * @param isInput - Indicates whether the conversion is for an input type.
  * @param columnName - The name of the column.
  * @param tableName - The name of the table containing the column.
+ * @param config - The schema build configuration.
  * @returns A ConvertedColumn object that includes the GraphQL type and description.
  */
 type DynamicGraphQLTypeFn = (
@@ -75,6 +224,7 @@ type DynamicGraphQLTypeFn = (
   isInput: boolean,
   columnName: string,
   tableName: string,
+  config: BuildSchemaConfig,
 ) => ConvertedColumn<boolean>;
 
 /**
@@ -88,6 +238,13 @@ const dynamicMappings: { [key: string]: DynamicGraphQLTypeFn } = {};
  * Default mappings for converting basic data types from Drizzle columns to GraphQL types.
  *
  * These mappings cover common data types such as boolean, json, date, string, bigint, number, buffer, and array.
+ * JSON columns are stringified JSON `String` fields unless the `JSON` scalar is enabled by the `scalars.json` config option.
+ * Likewise, date, date-time and time columns get the `Date`, `DateTime` and `Time` scalars if enabled by `scalars.dates`,
+ * and 64-bit integer and decimal columns the `BigInt` and `Decimal` scalars if enabled by `scalars.numerics`.
+ * Binary columns are arrays of bytes, or `Bytes` strings in the encoding selected by `scalars.bytes`.
+ * PostgreSQL `uuid` columns always get the `UUID` scalar.
+ * PostGIS `geometry` points are `GeometryPoint` objects in `xy` mode and `[x, y]` lists in `tuple` mode,
+ * both taking `GeoJSONPoint` input. pgvector `vector` columns are lists of floats.
  * The "array" mapping recursively calls `columnToGraphQLCore` on the base column.
  */
 const defaultMappings: { [key: string]: DynamicGraphQLTypeFn } = {
@@ -95,16 +252,27 @@ const defaultMappings: { [key: string]: DynamicGraphQLTypeFn } = {
     type: GraphQLBoolean,
     description: "Boolean",
   }),
-  json: (_column, _isInput) => ({ type: GraphQLString, description: "JSON" }),
-  date: (_column, _isInput) => ({ type: GraphQLString, description: "Date" }),
-  string: (column, _isInput, columnName, tableName) => {
+  json: (_column, _isInput, _columnName, _tableName, config) => ({
+    type: isJsonScalar(config) ? GraphQLJSON : GraphQLString,
+    description: "JSON",
+  }),
+  date: (column, _isInput, _columnName, _tableName, config) => ({
+    type: getColumnScalar(column, config) ?? GraphQLString,
+    description: "Date",
+  }),
+  string: (column, _isInput, columnName, tableName, config) => {
+    if (column.columnType === "PgUUID") return { type: GraphQLUUID };
+    const columnScalar = getColumnScalar(column, config);
+    if (columnScalar) return { type: columnScalar };
     if (column.enumValues?.length) {
-      return { type: generateEnumCached(column, columnName, tableName) };
+      return {
+        type: generateEnumCached(column, columnName, tableName, config),
+      };
     }
     return { type: GraphQLString, description: "String" };
   },
-  bigint: (_column, _isInput) => ({
-    type: GraphQLString,
+  bigint: (column, _isInput, _columnName, _tableName, config) => ({
+    type: getColumnScalar(column, config) ?? GraphQLString,
     description: "BigInt",
   }),
   number: (column, _isInput) => {
@@ -119,17 +287,39 @@ const defaultMappings: { [key: string]: DynamicGraphQLTypeFn } = {
     }
     return { type: GraphQLFloat, description: "Float" };
   },
-  buffer: (_column, _isInput) => ({
-    type: new GraphQLList(new GraphQLNonNull(GraphQLInt)),
-    description: "Buffer",
+  buffer: (_column, _isInput, _columnName, _tableName, config) => {
+    const encoding = getBytesEncoding(config);
+    return {
+      type: encoding === "base64"
+        ? GraphQLBase64Bytes
+        : encoding === "hex"
+        ? GraphQLHexBytes
+        : new GraphQLList(new GraphQLNonNull(GraphQLInt)),
+      description: "Buffer",
+    };
+  },
+  PgGeometryObject: (_column, isInput) => ({
+    type: isInput ? GraphQLGeoJSONPoint : geometryPoint,
+    description: "Geometry point",
+  }),
+  PgGeometry: (_column, isInput) => ({
+    type: isInput
+      ? GraphQLGeoJSONPoint
+      : new GraphQLList(new GraphQLNonNull(GraphQLFloat)),
+    description: "Geometry point",
   }),
-  array: (column, isInput, columnName, tableName) => {
+  PgVector: (_column, _isInput) => ({
+    type: new GraphQLList(new GraphQLNonNull(GraphQLFloat)),
+    description: "Vector",
+  }),
+  array: (column, isInput, columnName, tableName, config) => {
     // Assume column.baseColumn is present for arrays.
     const innerMapping = columnToGraphQLCore(
       (column as Column as PgArray<any, any>).baseColumn,
       columnName,
       tableName,
       isInput,
+      config,
     );
     return {
       type: new GraphQLList(
@@ -170,6 +360,7 @@ export const registerGraphQLTypeMapping = (
  * @param columnName - The name of the column.
  * @param tableName - The name of the table containing the column.
  * @param isInput - Indicates whether the conversion is for an input type.
+ * @param config - The schema build configuration.
  * @returns A ConvertedColumn object containing the GraphQL type and an optional description.
  * @throws Will throw an error if no mapping is found for the column's type.
  */
@@ -178,6 +369,7 @@ function columnToGraphQLCore(
   columnName: string,
   tableName: string,
   isInput: boolean,
+  config: BuildSchemaConfig,
 ): ConvertedColumn<boolean> {
   if (dynamicMappings[column?.columnType]) {
     return dynamicMappings[column.columnType](
@@ -185,6 +377,7 @@ function columnToGraphQLCore(
       isInput,
       columnName,
       tableName,
+      config,
     );
   }
   if (dynamicMappings[column?.dataType]) {
@@ -193,6 +386,7 @@ function columnToGraphQLCore(
       isInput,
       columnName,
       tableName,
+      config,
     );
   }
   throw new Error(
@@ -213,7 +407,8 @@ function columnToGraphQLCore(
  * @param tableName - The name of the table containing the column.
  * @param forceNullable - If true, the field will remain nullable regardless of column constraints.
  * @param defaultIsNullable - If true and the column has a default value or function, the field will be considered nullable.
- * @param isInput - Indicates whether the conversion is for an input type (default is false).
+ * @param isInput - Indicates whether the conversion is for an input type.
+ * @param config - The schema build configuration.
  * @returns A ConvertedColumn object that includes the GraphQL type and optional description, with nullability applied.
  */
 export const drizzleColumnToGraphQLType = <
@@ -223,11 +418,18 @@ export const drizzleColumnToGraphQLType = <
   column: TColumn,
   columnName: string,
   tableName: string,
-  forceNullable = false,
-  defaultIsNullable = false,
-  isInput: TIsInput = false as TIsInput,
+  forceNullable: boolean,
+  defaultIsNullable: boolean,
+  isInput: TIsInput,
+  config: BuildSchemaConfig,
 ): ConvertedColumn<TIsInput> => {
-  const typeDesc = columnToGraphQLCore(column, columnName, tableName, isInput);
+  const typeDesc = columnToGraphQLCore(
+    column,
+    columnName,
+    tableName,
+    isInput,
+    config,
+  );
   const noDesc = ["string", "boolean", "number"];
   if (noDesc.find((e) => e === column.dataType)) delete typeDesc.description;
 
@@ -245,4 +447,5 @@ export const drizzleColumnToGraphQLType = <
   return typeDesc as ConvertedColumn<TIsInput>;
 };
 
+export * from "./scalars.ts";
 export * from "./types.ts";
@@ -0,0 +1,576 @@
+import type { Column } from "drizzle-orm";
+import { Buffer } from "node:buffer";
+import {
+  GraphQLError,
+  GraphQLScalarType,
+  Kind,
+  print,
+  type ValueNode,
+} from "graphql";
+import type { ObjMap } from "graphql/jsutils/ObjMap";
+
+import type { BuildSchemaConfig } from "../../types.ts";
+
+/**
+ * Converts a literal into a JSON value.
+ *
+ * Unlike `valueFromASTUntyped`, objects are created with the `Object` prototype, as Drizzle ORM
+ * inspects the prototype of the bound values.
+ *
+ * @param ast - The literal to convert.
+ * @param variables - The variables of the operation.
+ * @returns The JSON value of the literal.
+ */
+const parseJsonLiteral = (
+  ast: ValueNode,
+  variables?: ObjMap<unknown> | null,
+): unknown => {
+  switch (ast.kind) {
+    case Kind.NULL:
+      return null;
+    case Kind.INT:
+    case Kind.FLOAT:
+      return Number(ast.value);
+    case Kind.STRING:
+    case Kind.ENUM:
+    case Kind.BOOLEAN:
+      return ast.value;
+    case Kind.LIST:
+      return ast.values.map((value) => parseJsonLiteral(value, variables));
+    case Kind.OBJECT:
+      return Object.fromEntries(
+        ast.fields.map((field) => [
+          field.name.value,
+          parseJsonLiteral(field.value, variables),
+        ]),
+      );
+    case Kind.VARIABLE:
+      return variables?.[ast.name.value];
+  }
+};
+
+/**
+ * A GraphQL scalar holding any JSON value.
+ *
+ * Values are passed through as they are: objects, arrays, strings, numbers, booleans and null
+ * are serialized and parsed without being stringified.
+ */
+export const GraphQLJSON: GraphQLScalarType<unknown, unknown> =
+  new GraphQLScalarType({
+    name: "JSON",
+    description: "Any JSON value",
+    serialize: (value) => value,
+    parseValue: (value) => value,
+    parseLiteral: parseJsonLiteral,
+  });
+
+/**
+ * Determines whether JSON columns are represented by the `JSON` scalar according to the
+ * `scalars.json` config option, rather than by stringified JSON.
+ *
+ * @param config - The schema build configuration.
+ * @returns True if JSON values are passed through the `JSON` scalar.
+ */
+export const isJsonScalar = (config: BuildSchemaConfig): boolean =>
+  (config.scalars?.json ?? "string") !== "string";
+
+// Dates, date-times and times accepted as input, following RFC 3339.
+const datePattern = /^(\d{4})-(\d{2})-(\d{2})$/;
+const dateTimePattern =
+  /^(\d{4}-\d{2}-\d{2})T(\d{2}):(\d{2}):(\d{2})(?:\.\d+)?(?:Z|[+-](\d{2}):(\d{2}))$/;
+const timePattern =
+  /^(\d{2}):(\d{2}):(\d{2})(?:\.\d+)?(Z|[+-](\d{2}):(\d{2}))?$/;
+
+// Date-times returned by the databases in string mode, e.g. `2024-04-02 06:44:41.785+00`.
+const storedDateTimePattern =
+  /^(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2}:\d{2}(?:\.\d+)?)(Z|[+-]\d{2}(?::?\d{2})?)?$/;
+// Times returned by the databases, e.g. `06:44:41` or `06:44:41.785+02`.
+const storedTimePattern =
+  /^(\d{2}):(\d{2}):(\d{2})(\.\d+)?(?:(Z)|([+-]\d{2})(?::?(\d{2}))?)?$/;
+
+/**
+ * Checks whether a `YYYY-MM-DD` string holds an existing calendar date.
+ *
+ * @param value - The string to check.
+ * @returns True if the string is a valid date.
+ */
+const isValidDate = (value: string): boolean => {
+  const match = datePattern.exec(value);
+  if (!match) return false;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day;
+};
+
+/**
+ * Checks whether hours, minutes and seconds hold a valid time of day.
+ *
+ * @param hours - The hours of the time.
+ * @param minutes - The minutes of the time.
+ * @param seconds - The seconds of the time.
+ * @returns True if the time is valid.
+ */
+const isValidTime = (hours: string, minutes: string, seconds = "00") =>
+  Number(hours) < 24 && Number(minutes) < 60 && Number(seconds) < 60;
+
+/**
+ * Normalizes a date-time returned by a database into an RFC 3339 date-time in UTC.
+ *
+ * Date-times without an offset are assumed to be in UTC.
+ *
+ * @param value - The date-time string.
+ * @returns The normalized date-time, or undefined if the string is not a date-time.
+ */
+const normalizeDateTime = (value: string): string | undefined => {
+  const match = storedDateTimePattern.exec(value);
+  if (!match || !isValidDate(match[1])) return;
+  const [hours, minutes, seconds] = match[2].split(":");
+  if (!isValidTime(hours, minutes, seconds)) return;
+  const offset = match[3]
+    ? match[3].replace(
+      /^([+-]\d{2}):?(\d{2})?$/,
+      (_, h, m = "00") => `${h}:${m}`,
+    )
+    : "Z";
+  const date = new Date(`${match[1]}T${match[2]}${offset}`);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+/**
+ * Converts an RFC 3339 date-time with an offset to UTC, keeping the precision of its fraction
+ * of seconds.
+ *
+ * @param value - The date-time string, as accepted by the `DateTime` scalar.
+ * @returns The date-time in UTC, with a `Z` offset.
+ */
+export const toUTCDateTime = (value: string): string => {
+  const [, seconds, fraction = "", offset] =
+    /^(.+T\d{2}:\d{2}:\d{2})(\.\d+)?(Z|[+-]\d{2}:\d{2})$/.exec(value)!;
+  return `${
+    new Date(`${seconds}${offset}`).toISOString().slice(0, 19)
+  }${fraction}Z`;
+};
+
+/**
+ * Creates a scalar passing strings in a temporal format.
+ *
+ * Input values are validated strictly and passed on as they are, to be converted by the data
+ * remappers of each column. Output values may be `Date` objects or strings in the formats
+ * returned by the databases.
+ *
+ * @param name - The name of the scalar.
+ * @param description - The description of the scalar.
+ * @param parse - Returns whether an input string is valid.
+ * @param serialize - Returns the output string of a value, or undefined if it is invalid.
+ * @returns The GraphQL scalar.
+ */
+const createTemporalScalar = (
+  name: string,
+  description: string,
+  parse: (value: string) => boolean,
+  serialize: (value: unknown) => string | undefined,
+): GraphQLScalarType<string, string> => {
+  const parseValue = (value: unknown) => {
+    if (typeof value !== "string" || !parse(value)) {
+      throw new GraphQLError(
+        `${name} cannot represent value: ${JSON.stringify(value)}`,
+      );
+    }
+    return value;
+  };
+
+  return new GraphQLScalarType<string, string>({
+    name,
+    description,
+    serialize: (value) => {
+      const serialized = serialize(value);
+      if (serialized === undefined) {
+        throw new GraphQLError(`${name} cannot represent value: ${value}`);
+      }
+      return serialized;
+    },
+    parseValue,
+    parseLiteral: (ast) => {
+      if (ast.kind !== Kind.STRING) {
+        throw new GraphQLError(
+          `${name} cannot represent a non string value: ${print(ast)}`,
+          { nodes: ast },
+        );
+      }
+      return parseValue(ast.value);
+    },
+  });
+};
+
+/**
+ * A GraphQL scalar holding a date-time, such as `2024-04-02T06:44:41.785Z`.
+ *
+ * Inputs must be RFC 3339 date-times with an offset, and are converted to UTC for PostgreSQL
+ * string-mode timestamps without time zone. Outputs are normalized to UTC.
+ */
+export const GraphQLDateTime: GraphQLScalarType<string, string> =
+  createTemporalScalar(
+    "DateTime",
+    "A date-time string following RFC 3339, such as 2024-04-02T06:44:41.785Z",
+    (value) => {
+      const match = dateTimePattern.exec(value);
+      return !!match && isValidDate(match[1]) &&
+        isValidTime(match[2], match[3], match[4]) &&
+        (!match[5] || isValidTime(match[5], match[6]));
+    },
+    (value) => {
+      if (value instanceof Date) {
+        return Number.isNaN(value.getTime()) ? undefined : value.toISOString();
+      }
+      if (typeof value === "string") return normalizeDateTime(value);
+    },
+  );
+
+/**
+ * A GraphQL scalar holding a calendar date, such as `2024-04-02`.
+ */
+export const GraphQLDate: GraphQLScalarType<string, string> =
+  createTemporalScalar(
+    "Date",
+    "A date string following RFC 3339, such as 2024-04-02",
+    isValidDate,
+    (value) => {
+      if (value instanceof Date) {
+        return Number.isNaN(value.getTime())
+          ? undefined
+          : value.toISOString().slice(0, 10);
+      }
+      if (typeof value !== "string") return;
+      const date = value.slice(0, 10);
+      if (!isValidDate(date)) return;
+      if (value.length === 10 || normalizeDateTime(value)) return date;
+    },
+  );
+
+/**
+ * A GraphQL scalar holding a time of day, such as `06:44:41` or `06:44:41.785+02:00`.
+ *
+ * Outputs keep the offset returned by the database, normalized to `Z` or `±HH:MM`.
+ */
+export const GraphQLTime: GraphQLScalarType<string, string> =
+  createTemporalScalar(
+    "Time",
+    "A time string following RFC 3339, such as 06:44:41 or 06:44:41.785+02:00",
+    (value) => {
+      const match = timePattern.exec(value);
+      return !!match && isValidTime(match[1], match[2], match[3]) &&
+        (!match[5] || isValidTime(match[5], match[6]));
+    },
+    (value) => {
+      if (typeof value !== "string") return;
+      const match = storedTimePattern.exec(value);
+      if (!match || !isValidTime(match[1], match[2], match[3])) return;
+      const [
+        ,
+        hours,
+        minutes,
+        seconds,
+        fraction = "",
+        utc = "",
+        offsetHours,
+        offsetMinutes = "00",
+      ] = match;
+      if (offsetHours && !isValidTime(offsetHours.slice(1), offsetMinutes)) {
+        return;
+      }
+      const offset = offsetHours ? `${offsetHours}:${offsetMinutes}` : utc;
+      return `${hours}:${minutes}:${seconds}${fraction}${offset}`;
+    },
+  );
+
+// Encoded bytes accepted by the `Bytes` scalars.
+const bytesPatterns = {
+  base64: /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/,
+  hex: /^(?:[0-9a-fA-F]{2})*$/,
+};
+
+/**
+ * Creates a scalar passing bytes as encoded strings.
+ *
+ * Strings are validated and passed on as they are, to be decoded by the data remappers of each
+ * column. Output byte arrays are encoded.
+ *
+ * @param encoding - The encoding of the bytes.
+ * @returns The GraphQL scalar.
+ */
+const createBytesScalar = (
+  encoding: "base64" | "hex",
+): GraphQLScalarType<string, string> => {
+  const coerce = (value: unknown) => {
+    if (value instanceof Uint8Array) {
+      return Buffer.from(value).toString(encoding);
+    }
+    if (typeof value === "string" && bytesPatterns[encoding].test(value)) {
+      return value;
+    }
+    throw new GraphQLError(
+      `Bytes cannot represent value: ${JSON.stringify(value)}`,
+    );
+  };
+
+  return new GraphQLScalarType<string, string>({
+    name: "Bytes",
+    description: `Binary data, encoded as a ${encoding} string`,
+    serialize: coerce,
+    parseValue: coerce,
+    parseLiteral: (ast) => {
+      if (ast.kind !== Kind.STRING) {
+        throw new GraphQLError(
+          `Bytes cannot represent a non string value: ${print(ast)}`,
+          { nodes: ast },
+        );
+      }
+      return coerce(ast.value);
+    },
+  });
+};
+
+/**
+ * A GraphQL scalar holding binary data as a base64 string.
+ */
+export const GraphQLBase64Bytes: GraphQLScalarType<string, string> =
+  createBytesScalar(
+    "base64",
+  );
+
+/**
+ * A GraphQL scalar holding binary data as a hexadecimal string.
+ */
+export const GraphQLHexBytes: GraphQLScalarType<string, string> =
+  createBytesScalar("hex");
+
+/**
+ * Returns the encoding of binary columns selected by the `scalars.bytes` config option.
+ *
+ * @param config - The schema build configuration.
+ * @returns The encoding of the `Bytes` scalar, or undefined if binary columns are byte arrays.
+ */
+export const getBytesEncoding = (
+  config: BuildSchemaConfig,
+): "base64" | "hex" | undefined => {
+  const bytes = config.scalars?.bytes;
+  return bytes === "base64" || bytes === "hex" ? bytes : undefined;
+};
+
+// UUIDs of any version, in their canonical hyphenated form.
+const uuidPattern =
+  /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/;
+
+/**
+ * Validates a UUID value.
+ *
+ * @param value - The value to validate.
+ * @returns The UUID string.
+ * @throws GraphQLError if the value is not a UUID string.
+ */
+const coerceUUID = (value: unknown) => {
+  if (typeof value === "string" && uuidPattern.test(value)) return value;
+  throw new GraphQLError(
+    `UUID cannot represent value: ${JSON.stringify(value)}`,
+  );
+};
+
+/**
+ * A GraphQL scalar holding a UUID, such as `123e4567-e89b-12d3-a456-426614174000`.
+ *
+ * Malformed UUIDs are rejected before reaching the database.
+ */
+export const GraphQLUUID: GraphQLScalarType<string, string> =
+  new GraphQLScalarType({
+    name: "UUID",
+    description: "A UUID in its hyphenated form",
+    serialize: coerceUUID,
+    parseValue: coerceUUID,
+    parseLiteral: (ast) => {
+      if (ast.kind !== Kind.STRING) {
+        throw new GraphQLError(
+          `UUID cannot represent a non string value: ${print(ast)}`,
+          { nodes: ast },
+        );
+      }
+      return coerceUUID(ast.value);
+    },
+  });
+
+/**
+ * Reads the coordinates of a point given as a GeoJSON Point geometry, an `{ x, y }` object or
+ * an `[x, y]` tuple.
+ *
+ * @param value - The point.
+ * @returns The `[x, y]` coordinates, or undefined if the value is not a two-dimensional point.
+ */
+export const toPointTuple = (value: unknown): [number, number] | undefined => {
+  if (typeof value !== "object" || value === null) return;
+  const point = value as Record<string, unknown>;
+  const coordinates = Array.isArray(value)
+    ? value
+    : point.type === "Point" && Array.isArray(point.coordinates)
+    ? point.coordinates
+    : [point.x, point.y];
+  if (
+    coordinates.length !== 2 ||
+    !coordinates.every((coordinate) => Number.isFinite(coordinate))
+  ) return;
+  return coordinates as [number, number];
+};
+
+/**
+ * Validates a point value.
+ *
+ * @param value - The value to validate.
+ * @returns The `[x, y]` coordinates of the point.
+ * @throws GraphQLError if the value is not a two-dimensional point.
+ */
+const coercePoint = (value: unknown) => {
+  const point = toPointTuple(value);
+  if (point) return point;
+  throw new GraphQLError(
+    `GeoJSONPoint cannot represent value: ${JSON.stringify(value)}`,
+  );
+};
+
+/**
+ * A GraphQL scalar holding a point as a GeoJSON Point geometry, such as
+ * `{ type: "Point", coordinates: [20, 20.3] }`.
+ *
+ * `{ x, y }` objects and `[x, y]` tuples are accepted as input as well. Inputs are parsed into
+ * `[x, y]` tuples, to be converted by the data remappers of each column.
+ */
+export const GraphQLGeoJSONPoint: GraphQLScalarType<
+  [number, number],
+  { type: "Point"; coordinates: [number, number] }
+> = new GraphQLScalarType({
+  name: "GeoJSONPoint",
+  description:
+    'A two-dimensional GeoJSON Point geometry, such as { type: "Point", coordinates: [20, 20.3] }',
+  serialize: (value) => ({ type: "Point", coordinates: coercePoint(value) }),
+  parseValue: coercePoint,
+  parseLiteral: (ast, variables) =>
+    coercePoint(parseJsonLiteral(ast, variables)),
+});
+
+// Integers and decimals accepted by the `BigInt` and `Decimal` scalars.
+const integerPattern = /^-?\d+$/;
+const decimalPattern = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$/;
+
+/**
+ * Creates a scalar passing numbers as strings, so that they are never converted through
+ * JavaScript numbers.
+ *
+ * Number literals are read from their source text. Numbers of variables and of output values
+ * are only accepted when they are represented exactly.
+ *
+ * @param name - The name of the scalar.
+ * @param description - The description of the scalar.
+ * @param pattern - The pattern of valid strings.
+ * @param isExact - Returns whether a JavaScript number is represented exactly.
+ * @returns The GraphQL scalar.
+ */
+const createNumericScalar = (
+  name: string,
+  description: string,
+  pattern: RegExp,
+  isExact: (value: number) => boolean,
+): GraphQLScalarType<string, string> => {
+  const coerce = (value: unknown) => {
+    if (typeof value === "bigint") return value.toString();
+    if (typeof value === "number" && isExact(value)) return String(value);
+    if (typeof value === "string" && pattern.test(value)) return value;
+    throw new GraphQLError(
+      `${name} cannot represent value: ${JSON.stringify(value)}`,
+    );
+  };
+
+  return new GraphQLScalarType<string, string>({
+    name,
+    description,
+    serialize: coerce,
+    parseValue: coerce,
+    parseLiteral: (ast) => {
+      if (
+        ast.kind === Kind.STRING || ast.kind === Kind.INT ||
+        ast.kind === Kind.FLOAT
+      ) {
+        return coerce(ast.value);
+      }
+      throw new GraphQLError(
+        `${name} cannot represent value: ${print(ast)}`,
+        { nodes: ast },
+      );
+    },
+  });
+};
+
+/**
+ * A GraphQL scalar holding an integer of any size as a string, such as `"9007199254740993"`.
+ */
+export const GraphQLBigInt: GraphQLScalarType<string, string> =
+  createNumericScalar(
+    "BigInt",
+    "An integer of any size, represented as a string",
+    integerPattern,
+    Number.isSafeInteger,
+  );
+
+/**
+ * A GraphQL scalar holding an exact decimal number as a string, such as `"250.20"`.
+ */
+export const GraphQLDecimal: GraphQLScalarType<string, string> =
+  createNumericScalar(
+    "Decimal",
+    "An exact decimal number, represented as a string",
+    decimalPattern,
+    Number.isFinite,
+  );
+
+// The scalars of column types, enabled by an option of the `scalars` config.
+const columnScalars: Record<
+  string,
+  { option: "dates" | "numerics"; scalar: GraphQLScalarType }
+> = {
+  PgTimestamp: { option: "dates", scalar: GraphQLDateTime },
+  PgTimestampString: { option: "dates", scalar: GraphQLDateTime },
+  MySqlDateTime: { option: "dates", scalar: GraphQLDateTime },
+  MySqlDateTimeString: { option: "dates", scalar: GraphQLDateTime },
+  MySqlTimestamp: { option: "dates", scalar: GraphQLDateTime },
+  MySqlTimestampString: { option: "dates", scalar: GraphQLDateTime },
+  SQLiteTimestamp: { option: "dates", scalar: GraphQLDateTime },
+  PgDate: { option: "dates", scalar: GraphQLDate },
+  PgDateString: { option: "dates", scalar: GraphQLDate },
+  MySqlDate: { option: "dates", scalar: GraphQLDate },
+  MySqlDateString: { option: "dates", scalar: GraphQLDate },
+  PgTime: { option: "dates", scalar: GraphQLTime },
+  MySqlTime: { option: "dates", scalar: GraphQLTime },
+  PgBigInt64: { option: "numerics", scalar: GraphQLBigInt },
+  PgBigSerial64: { option: "numerics", scalar: GraphQLBigInt },
+  MySqlBigInt64: { option: "numerics", scalar: GraphQLBigInt },
+  SQLiteBigInt: { option: "numerics", scalar: GraphQLBigInt },
+  PgNumeric: { option: "numerics", scalar: GraphQLDecimal },
+  MySqlDecimal: { option: "numerics", scalar: GraphQLDecimal },
+  SQLiteNumeric: { option: "numerics", scalar: GraphQLDecimal },
+};
+
+/**
+ * Returns the scalar of a column if the `scalars` config option enables it: `DateTime`, `Date`
+ * or `Time` for temporal columns with `scalars.dates`, `BigInt` or `Decimal` for 64-bit integer
+ * and decimal columns with `scalars.numerics`.
+ *
+ * @param column - The column to map.
+ * @param config - The schema build configuration.
+ * @returns The scalar of the column, or undefined if the column keeps its default type.
+ */
+export const getColumnScalar = (
+  column: Column,
+  config: BuildSchemaConfig,
+): GraphQLScalarType | undefined => {
+  const columnScalar = columnScalars[column.columnType];
+  return columnScalar && config.scalars?.[columnScalar.option] === "scalar"
+    ? columnScalar.scalar
+    : undefined;
+};
@@ -90,12 +90,16 @@ export type ConvertedInputColumn = {
  *   - `GraphQLObjectType`
  *   - `GraphQLNonNull<GraphQLObjectType>`
  *   - `GraphQLNonNull<GraphQLList<GraphQLNonNull<GraphQLObjectType>>>`
+ *   - `GraphQLNonNull<GraphQLScalarType>`, for the counts of many-relations
+ * @property description - An optional description of the relation field.
  */
 export type ConvertedRelationColumn = {
   type:
     | GraphQLObjectType
     | GraphQLNonNull<GraphQLObjectType>
-    | GraphQLNonNull<GraphQLList<GraphQLNonNull<GraphQLObjectType>>>;
+    | GraphQLNonNull<GraphQLList<GraphQLNonNull<GraphQLObjectType>>>
+    | GraphQLNonNull<GraphQLScalarType>;
+  description?: string;
 };
 
 /**
@@ -105,7 +109,9 @@ export type ConvertedRelationColumn = {
  * arguments that can be provided when querying the relation.
  *
  * @property args - An optional map of field arguments as defined in `GraphQLFieldConfig['args']`.
+ * @property resolve - An optional resolver transforming the fetched relation data.
  */
 export type ConvertedRelationColumnWithArgs = ConvertedRelationColumn & {
   args?: GraphQLFieldConfig<any, any>["args"];
+  resolve?: GraphQLFieldConfig<Record<string, unknown>, unknown>["resolve"];
 };